@@ -0,0 +1,406 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { existsSync, promises as fs } from 'fs';
+import { ConfigManager } from '../../core/config-manager.js';
+import type { StripeClient } from '../../core/stripe-client.js';
+import {
+  CatalogReconciler,
+  DEFAULT_CATALOG_FILES,
+  detectCatalogFormat,
+  loadCatalog,
+} from '../../core/catalog.js';
+import type { CatalogFormat } from '../../core/catalog.js';
+import {
+  CatalogExporter,
+  serializeCatalog,
+} from '../../core/catalog-exporter.js';
+import { CatalogPromoter } from '../../core/catalog-promoter.js';
+import type {
+  CatalogAction,
+  CatalogPlan,
+  CatalogPrice,
+} from '../../core/types.js';
+import {
+  confirmAction,
+  createStripeClient,
+  isDryRun,
+  selectProject,
+} from '../utils.js';
+import { emit, getOutputFormat, log } from '../output.js';
+
+const ACTION_COLUMNS = ['action', 'resource', 'key', 'stripeId'];
+
+/**
+ * Use the given catalog path, the one from .stripeconf.json, or find a
+ * default one in the working directory
+ */
+async function resolveCatalogPath(
+  configManager: ConfigManager,
+  file?: string
+): Promise<string> {
+  if (file) return file;
+
+  const local = await configManager.findLocalConfig();
+  if (local?.catalog) return local.catalog;
+
+  const found = DEFAULT_CATALOG_FILES.find((name) => existsSync(name));
+  if (!found) {
+    throw new Error(
+      `No catalog file found. Pass a path or create ${DEFAULT_CATALOG_FILES[0]}.`
+    );
+  }
+  return found;
+}
+
+function describePrice(price: CatalogPrice): string {
+  const amount =
+    price.unit_amount !== undefined
+      ? `${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
+      : `tiered ${price.currency.toUpperCase()}`;
+  const recurring = price.recurring
+    ? ` / ${price.recurring.interval_count || 1} ${price.recurring.interval}(s)`
+    : ' one-time';
+  return `${amount}${recurring}`;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+}
+
+function printAction(action: CatalogAction): void {
+  const label = `${action.resource} ${action.key}`;
+  const id = action.stripeId ? chalk.gray(` (${action.stripeId})`) : '';
+
+  switch (action.action) {
+    case 'create': {
+      const detail =
+        action.resource === 'product'
+          ? action.product?.name
+          : describePrice(action.price as CatalogPrice);
+      log(chalk.green(`  + ${label}`) + chalk.gray(`  ${detail}`));
+      break;
+    }
+    case 'update':
+      log(chalk.yellow(`  ~ ${label}`) + id);
+      break;
+    case 'replace':
+      log(
+        chalk.magenta(`  ± ${label}`) +
+          id +
+          chalk.gray('  (archive old + create new)')
+      );
+      break;
+    case 'archive':
+      log(chalk.red(`  - ${label}`) + id);
+      break;
+  }
+
+  for (const change of action.changes) {
+    log(
+      chalk.gray(
+        `      ${change.field}: ${formatValue(change.from)} → ${formatValue(change.to)}`
+      )
+    );
+  }
+}
+
+function printPlan(plan: CatalogPlan): void {
+  if (plan.actions.length === 0) {
+    log(
+      chalk.green(
+        `\n✓ Stripe is in sync with the catalog (${plan.unchanged} object(s) unchanged).\n`
+      )
+    );
+    return;
+  }
+
+  log(chalk.bold('\nPlanned changes:\n'));
+  plan.actions.forEach(printAction);
+
+  const count = (action: CatalogAction['action']) =>
+    plan.actions.filter((a) => a.action === action).length;
+
+  log(
+    chalk.bold(
+      `\nPlan: ${count('create')} to create, ${count('update')} to update, ` +
+        `${count('replace')} to replace, ${count('archive')} to archive ` +
+        `(${plan.unchanged} unchanged).\n`
+    )
+  );
+}
+
+function dryRunSummary(count: number): string {
+  return `\nDry run: ${count} change(s) validated, nothing was sent.\n`;
+}
+
+async function buildPlan(
+  stripeClient: StripeClient,
+  catalogPath: string
+): Promise<CatalogPlan> {
+  const catalog = await loadCatalog(catalogPath);
+  const spinner = ora('Comparing catalog with Stripe...').start();
+
+  try {
+    const plan = await new CatalogReconciler(stripeClient).plan(catalog);
+    spinner.stop();
+    return plan;
+  } catch (error) {
+    spinner.fail('Failed to fetch products and prices');
+    throw error;
+  }
+}
+
+/**
+ * Plan command - Show changes needed to converge Stripe with a catalog file
+ */
+export async function planCommand(file?: string): Promise<void> {
+  const configManager = new ConfigManager();
+  const catalogPath = await resolveCatalogPath(configManager, file);
+  log(chalk.bold.blue(`\n📋 Catalog Plan (${catalogPath})\n`));
+
+  const project = await selectProject(configManager);
+  if (!project) return;
+
+  const plan = await buildPlan(createStripeClient(project), catalogPath);
+  emit(plan, {
+    columns: ACTION_COLUMNS,
+    rows: plan.actions,
+    text: () => printPlan(plan),
+  });
+}
+
+/**
+ * Apply command - Converge Stripe with a catalog file
+ */
+export async function applyCommand(
+  file: string | undefined,
+  options: { yes?: boolean }
+): Promise<void> {
+  const configManager = new ConfigManager();
+  const catalogPath = await resolveCatalogPath(configManager, file);
+  log(chalk.bold.blue(`\n🚀 Catalog Apply (${catalogPath})\n`));
+
+  const project = await selectProject(configManager);
+  if (!project) return;
+
+  const stripeClient = createStripeClient(project);
+  const plan = await buildPlan(stripeClient, catalogPath);
+  printPlan(plan);
+
+  if (plan.actions.length === 0) {
+    emit([], { columns: ACTION_COLUMNS });
+    return;
+  }
+
+  const confirm = await confirmAction(
+    `Apply these changes to ${project.name} (${project.environment})?`,
+    options.yes
+  );
+
+  if (!confirm) {
+    log(chalk.yellow('\nApply cancelled.'));
+    return;
+  }
+
+  const spinner = ora('Applying changes...').start();
+  let applied = 0;
+
+  try {
+    const results = await new CatalogReconciler(stripeClient).apply(
+      plan,
+      ({ action }) => {
+        applied++;
+        spinner.text = `Applying changes... (${applied}/${plan.actions.length}) ${action.action} ${action.resource} ${action.key}`;
+      }
+    );
+    spinner.succeed(
+      isDryRun()
+        ? `Validated ${applied} change(s)`
+        : `Applied ${applied} change(s)`
+    );
+
+    emit(
+      results.map(({ action, stripeId }) => ({ ...action, stripeId })),
+      {
+        columns: ACTION_COLUMNS,
+        text: () =>
+          log(
+            isDryRun()
+              ? chalk.yellow(dryRunSummary(applied))
+              : chalk.green('\n✓ Stripe now matches the catalog!\n')
+          ),
+      }
+    );
+  } catch (error) {
+    spinner.fail(
+      `Failed after ${applied} of ${plan.actions.length} change(s); run "stripeconf plan" to see what remains`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Export command - Write the account's products and prices as a catalog file
+ * Prints to stdout when no file is given
+ */
+export async function exportCommand(
+  file: string | undefined,
+  options: { format?: string; includeInactive?: boolean }
+): Promise<void> {
+  if (options.format && !['json', 'yaml'].includes(options.format)) {
+    throw new Error('Format must be json or yaml');
+  }
+  const format = (options.format ||
+    (file
+      ? detectCatalogFormat(file)
+      : getOutputFormat() === 'yaml'
+        ? 'yaml'
+        : 'json')) as CatalogFormat;
+
+  if (file) {
+    log(chalk.bold.blue('\n📤 Catalog Export\n'));
+  }
+
+  const configManager = new ConfigManager();
+  const project = await selectProject(configManager, !file);
+  if (!project) return;
+
+  const spinner = ora('Fetching products and prices...').start();
+
+  try {
+    const catalog = await new CatalogExporter(
+      createStripeClient(project)
+    ).export({ includeInactive: options.includeInactive });
+    const priceCount = catalog.products.reduce(
+      (sum, product) => sum + (product.prices?.length || 0),
+      0
+    );
+    spinner.succeed(
+      `Exported ${catalog.products.length} product(s) and ${priceCount} price(s)`
+    );
+
+    const output = serializeCatalog(catalog, format);
+    if (!file) {
+      process.stdout.write(output);
+      return;
+    }
+
+    await fs.writeFile(file, output, 'utf-8');
+    log(chalk.green(`\n✓ Catalog written to ${file}\n`));
+  } catch (error) {
+    spinner.fail('Failed to export catalog');
+    throw error;
+  }
+}
+
+/**
+ * Promote command - Copy products and prices from one project to another
+ */
+export async function promoteCommand(options: {
+  from: string;
+  to: string;
+  yes?: boolean;
+}): Promise<void> {
+  if (options.from === options.to) {
+    throw new Error('Source and target projects must be different');
+  }
+
+  const configManager = new ConfigManager();
+  const source = await configManager.getProject(options.from);
+  const target = await configManager.getProject(options.to);
+
+  log(
+    chalk.bold.blue(
+      `\n🚚 Promote ${source.name} (${source.environment}) → ${target.name} (${target.environment})\n`
+    )
+  );
+
+  if (source.environment === 'live' && target.environment === 'test') {
+    log(
+      chalk.yellow('Note: promoting from a live project into a test project.\n')
+    );
+  }
+
+  const previous = await configManager.getPromotion(source.name, target.name);
+  if (previous) {
+    log(
+      chalk.gray(
+        `Last promoted: ${new Date(previous.promotedAt).toLocaleString()}\n`
+      )
+    );
+  }
+
+  const promoter = new CatalogPromoter(
+    createStripeClient(source),
+    createStripeClient(target)
+  );
+
+  const spinner = ora('Comparing projects...').start();
+  let promotion;
+  try {
+    promotion = await promoter.plan(previous);
+    spinner.stop();
+  } catch (error) {
+    spinner.fail('Failed to fetch products and prices');
+    throw error;
+  }
+
+  printPlan(promotion.plan);
+
+  if (promotion.plan.actions.length > 0) {
+    const confirm = await confirmAction(
+      `Apply these changes to ${target.name} (${target.environment})?`,
+      options.yes
+    );
+
+    if (!confirm) {
+      log(chalk.yellow('\nPromotion cancelled.'));
+      return;
+    }
+  }
+
+  const applySpinner = ora('Promoting catalog...').start();
+  let applied = 0;
+
+  try {
+    const mapping = await promoter.apply(promotion, () => {
+      applied++;
+      applySpinner.text = `Promoting catalog... (${applied}/${promotion.plan.actions.length})`;
+    });
+
+    // Nothing was promoted, so there is no mapping to remember
+    if (isDryRun()) {
+      applySpinner.succeed(`Validated ${applied} change(s)`);
+      emit(promotion.plan.actions, {
+        columns: ACTION_COLUMNS,
+        text: () => log(chalk.yellow(dryRunSummary(applied))),
+      });
+      return;
+    }
+
+    const record = await configManager.recordPromotion(
+      source.name,
+      target.name,
+      mapping
+    );
+    applySpinner.succeed(`Applied ${applied} change(s)`);
+
+    emit(record, {
+      columns: ['from', 'to', 'promotedAt'],
+      text: () => {
+        log(chalk.green(`\n✓ ${target.name} now matches ${source.name}!`));
+        log(
+          chalk.gray(
+            `  Recorded ${Object.keys(record.products).length} product and ` +
+              `${Object.keys(record.prices).length} price mapping(s)\n`
+          )
+        );
+      },
+    });
+  } catch (error) {
+    applySpinner.fail(
+      `Failed after ${applied} of ${promotion.plan.actions.length} change(s); run the promotion again to resume`
+    );
+    throw error;
+  }
+}
@@ -0,0 +1,98 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../../core/config-manager.js';
+import { confirmAction, isInteractive } from '../utils.js';
+import { log, prompt } from '../output.js';
+
+/**
+ * Read a new passphrase from STRIPECONF_PASSPHRASE or ask for it twice
+ */
+async function readNewPassphrase(): Promise<string> {
+  const fromEnv = process.env.STRIPECONF_PASSPHRASE;
+  if (fromEnv) return fromEnv;
+
+  if (!isInteractive()) {
+    throw new Error('Set STRIPECONF_PASSPHRASE to encrypt non-interactively');
+  }
+
+  const { passphrase } = await prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: 'New passphrase:',
+      mask: '*',
+      validate: (input: string) =>
+        input.length >= 8 ? true : 'Use at least 8 characters',
+    },
+    {
+      type: 'password',
+      name: 'confirm',
+      message: 'Repeat passphrase:',
+      mask: '*',
+      validate: (input: string, answers?: { passphrase?: string }) =>
+        input === answers?.passphrase ? true : 'Passphrases do not match',
+    },
+  ]);
+  return passphrase;
+}
+
+/**
+ * config encrypt - Store project secrets encrypted with a passphrase
+ */
+export async function encryptConfigCommand(): Promise<void> {
+  const configManager = new ConfigManager();
+
+  if (await configManager.isEncrypted()) {
+    log(chalk.yellow('Config file is already encrypted.'));
+    return;
+  }
+
+  const passphrase = await readNewPassphrase();
+  const spinner = ora('Encrypting secrets...').start();
+
+  try {
+    await configManager.encrypt(passphrase);
+    spinner.succeed('Secrets encrypted');
+
+    log(chalk.gray(`  Config: ${configManager.getConfigPath()}`));
+    log(
+      chalk.gray('  Set STRIPECONF_PASSPHRASE to unlock it without a prompt.\n')
+    );
+  } catch (error) {
+    spinner.fail('Failed to encrypt config');
+    throw error;
+  }
+}
+
+/**
+ * config decrypt - Store project secrets as plaintext again
+ */
+export async function decryptConfigCommand(options: {
+  yes?: boolean;
+}): Promise<void> {
+  const configManager = new ConfigManager();
+
+  if (!(await configManager.isEncrypted())) {
+    log(chalk.yellow('Config file is not encrypted.'));
+    return;
+  }
+
+  const confirm = await confirmAction(
+    'Store secret keys as plaintext in the config file?',
+    options.yes
+  );
+  if (!confirm) {
+    log(chalk.yellow('\nDecryption cancelled.'));
+    return;
+  }
+
+  const spinner = ora('Decrypting secrets...').start();
+
+  try {
+    await configManager.decrypt();
+    spinner.succeed('Secrets decrypted');
+  } catch (error) {
+    spinner.fail('Failed to decrypt config');
+    throw error;
+  }
+}
@@ -2,23 +2,150 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../../core/config-manager.js';
-import { StripeClient } from '../../core/stripe-client.js';
-import type { ProjectConfig } from '../../core/types.js';
+import type { StripeClient } from '../../core/stripe-client.js';
+import { resolveSecretKey } from '../../core/secret-resolver.js';
+import type {
+  CreateAccountLinkInput,
+  CreateConnectAccountInput,
+  ProjectConfig,
+} from '../../core/types.js';
+import {
+  createPlatformClient,
+  createStripeClient,
+  menuChoices,
+  parseKeyValuePairs,
+  selectProject,
+  shouldPrompt,
+} from '../utils.js';
+import { emit, isStructuredOutput, log, prompt } from '../output.js';
 
 const MANUAL_ENTRY = '__manual__';
+const ACCOUNT_COLUMNS = [
+  'id',
+  'type',
+  'country',
+  'email',
+  'charges_enabled',
+  'payouts_enabled',
+  'details_submitted',
+];
+const WEBHOOK_COLUMNS = ['id', 'url', 'status', 'enabled_events'];
+const STATUS_COLUMNS = [
+  'platform.id',
+  'platform.business',
+  'environment',
+  'connect_enabled',
+];
 
-async function pickAccount(stripeClient: StripeClient, action: string): Promise<string | null> {
+/**
+ * Events selected by default when creating webhook endpoints
+ */
+const DEFAULT_WEBHOOK_EVENTS = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'checkout.session.completed',
+  'account.updated',
+  'charge.dispute.created',
+  'charge.dispute.closed',
+  'charge.refunded',
+  'payout.paid',
+  'payout.failed',
+];
+
+function webhookEventChoices() {
+  const event = (name: string) => ({
+    name,
+    checked: DEFAULT_WEBHOOK_EVENTS.includes(name),
+  });
+  return [
+    new inquirer.Separator('--- Payments ---'),
+    event('payment_intent.succeeded'),
+    event('payment_intent.payment_failed'),
+    event('checkout.session.completed'),
+    new inquirer.Separator('--- Connect ---'),
+    event('account.updated'),
+    new inquirer.Separator('--- Disputes & Refunds ---'),
+    event('charge.dispute.created'),
+    event('charge.dispute.closed'),
+    event('charge.refunded'),
+    new inquirer.Separator('--- Payouts ---'),
+    event('payout.paid'),
+    event('payout.failed'),
+    new inquirer.Separator('--- Subscriptions ---'),
+    event('customer.subscription.created'),
+    event('customer.subscription.updated'),
+    event('customer.subscription.deleted'),
+    event('invoice.paid'),
+    event('invoice.payment_failed'),
+    new inquirer.Separator('---'),
+    { name: 'All events (*)', value: '*' },
+  ];
+}
+
+/**
+ * Flags for `connect status`
+ */
+export interface ConnectStatusOptions {
+  orgId?: string;
+}
+
+/**
+ * Flags for `connect setup`
+ */
+export interface ConnectSetupOptions {
+  orgId?: string;
+  webhookUrl?: string;
+  event?: string[];
+}
+
+/**
+ * Flags for `connect accounts create`
+ */
+export interface CreateAccountOptions {
+  type?: CreateConnectAccountInput['type'];
+  country?: string;
+  email?: string;
+  businessType?: CreateConnectAccountInput['business_type'];
+  capability?: string[];
+  metadata?: string[];
+  idempotencyKey?: string;
+}
+
+/**
+ * Flags for `connect accounts link`
+ */
+export interface CreateLinkOptions {
+  refreshUrl?: string;
+  returnUrl?: string;
+  type?: CreateAccountLinkInput['type'];
+  idempotencyKey?: string;
+}
+
+/**
+ * Flags for `connect webhooks create`
+ */
+export interface CreateWebhookOptions {
+  url?: string;
+  event?: string[];
+  description?: string;
+  idempotencyKey?: string;
+}
+
+async function pickAccount(
+  stripeClient: StripeClient,
+  action: string
+): Promise<string | null> {
   const spinner = ora('Fetching connected accounts...').start();
   try {
-    const accounts = await stripeClient.listConnectAccounts({ limit: 100 });
+    const accounts = await stripeClient.listAllConnectAccounts();
     spinner.stop();
 
     if (accounts.length === 0) {
-      console.log(chalk.yellow('\nNo connected accounts found.'));
+      log(chalk.yellow('\nNo connected accounts found.'));
       return null;
     }
 
-    const { accountId } = await inquirer.prompt([
+    const { accountId } = await prompt([
       {
         type: 'list',
         name: 'accountId',
@@ -35,14 +162,15 @@ async function pickAccount(stripeClient: StripeClient, action: string): Promise<
     ]);
 
     if (accountId === MANUAL_ENTRY) {
-      const { manualId } = await inquirer.prompt([
+      const { manualId } = await prompt([
         {
           type: 'input',
           name: 'manualId',
           message: 'Account ID:',
           validate: (input: string) => {
             if (!input.trim()) return 'Account ID is required';
-            if (!input.startsWith('acct_')) return 'Account ID must start with acct_';
+            if (!input.startsWith('acct_'))
+              return 'Account ID must start with acct_';
             return true;
           },
         },
@@ -61,20 +189,30 @@ async function pickAccount(stripeClient: StripeClient, action: string): Promise<
  * Inline project setup for Connect — collects API keys + org ID without
  * requiring `stripeconf setup` first.
  */
-async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig> {
-  console.log(chalk.bold('  No project configured yet. Let\'s set one up.\n'));
-
-  console.log(chalk.bold.yellow('  Before you begin, make sure you have:\n'));
-  console.log(chalk.white('  1. Created a Stripe account for your platform (e.g., CoinPay)'));
-  console.log(chalk.gray('     Dashboard → top-left account switcher → "New account"'));
-  console.log(chalk.gray('     (Skip if using your existing Stripe account)\n'));
-  console.log(chalk.white('  2. Copied the API keys from that account'));
-  console.log(chalk.gray('     Dashboard → Developers → API keys'));
-  console.log(chalk.gray('     You need: Secret key (sk_live_...) and Publishable key (pk_live_...)\n'));
-  console.log(chalk.white('  3. (Optional) Your organization ID'));
-  console.log(chalk.gray('     Dashboard → Settings → Organization (org_...)\n'));
-
-  const { ready } = await inquirer.prompt([
+async function inlineSetup(
+  configManager: ConfigManager
+): Promise<ProjectConfig> {
+  log(chalk.bold("  No project configured yet. Let's set one up.\n"));
+
+  log(chalk.bold.yellow('  Before you begin, make sure you have:\n'));
+  log(
+    chalk.white(
+      '  1. Created a Stripe account for your platform (e.g., CoinPay)'
+    )
+  );
+  log(chalk.gray('     Dashboard → top-left account switcher → "New account"'));
+  log(chalk.gray('     (Skip if using your existing Stripe account)\n'));
+  log(chalk.white('  2. Copied the API keys from that account'));
+  log(chalk.gray('     Dashboard → Developers → API keys'));
+  log(
+    chalk.gray(
+      '     You need: Secret key (sk_live_...) and Publishable key (pk_live_...)\n'
+    )
+  );
+  log(chalk.white('  3. (Optional) Your organization ID'));
+  log(chalk.gray('     Dashboard → Settings → Organization (org_...)\n'));
+
+  const { ready } = await prompt([
     {
       type: 'confirm',
       name: 'ready',
@@ -84,19 +222,22 @@ async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig>
   ]);
 
   if (!ready) {
-    console.log(chalk.cyan('\n  Get your keys at: https://dashboard.stripe.com/apikeys'));
-    console.log(chalk.gray('  Run this command again when you have them.\n'));
+    log(
+      chalk.cyan('\n  Get your keys at: https://dashboard.stripe.com/apikeys')
+    );
+    log(chalk.gray('  Run this command again when you have them.\n'));
     throw new Error('Setup cancelled — API keys not ready.');
   }
 
-  console.log();
+  log();
 
-  const answers = await inquirer.prompt([
+  const answers = await prompt([
     {
       type: 'input',
       name: 'name',
       message: 'Project name (e.g., CoinPay):',
-      validate: (input: string) => input.trim() ? true : 'Project name is required',
+      validate: (input: string) =>
+        input.trim() ? true : 'Project name is required',
     },
     {
       type: 'input',
@@ -124,7 +265,8 @@ async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig>
       message: 'Secret key (sk_live_... or sk_test_...):',
       validate: (input: string) => {
         if (!input.trim()) return 'Secret key is required';
-        if (!input.startsWith('sk_')) return 'Must start with sk_ (find it at Dashboard → Developers → API keys)';
+        if (!input.startsWith('sk_'))
+          return 'Must start with sk_ (find it at Dashboard → Developers → API keys)';
         return true;
       },
     },
@@ -134,7 +276,8 @@ async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig>
       message: 'Publishable key (pk_live_... or pk_test_...):',
       validate: (input: string) => {
         if (!input.trim()) return 'Publishable key is required';
-        if (!input.startsWith('pk_')) return 'Must start with pk_ (find it at Dashboard → Developers → API keys)';
+        if (!input.startsWith('pk_'))
+          return 'Must start with pk_ (find it at Dashboard → Developers → API keys)';
         return true;
       },
     },
@@ -145,7 +288,8 @@ async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig>
       default: 'usd',
       validate: (input: string) => {
         if (!input.trim()) return 'Currency is required';
-        if (input.length !== 3) return 'Currency must be a 3-letter ISO code (e.g., usd, eur)';
+        if (input.length !== 3)
+          return 'Currency must be a 3-letter ISO code (e.g., usd, eur)';
         return true;
       },
     },
@@ -154,16 +298,23 @@ async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig>
   // Validate API keys
   const spinner = ora('Validating API keys...').start();
   try {
-    const testClient = new StripeClient({
-      id: '', name: '', environment: answers.environment,
-      publishableKey: answers.publishableKey, secretKey: answers.secretKey,
-      defaultCurrency: answers.defaultCurrency, createdAt: '', updatedAt: '',
+    const testClient = createPlatformClient({
+      id: '',
+      name: '',
+      environment: answers.environment,
+      publishableKey: answers.publishableKey,
+      secretKey: answers.secretKey,
+      defaultCurrency: answers.defaultCurrency,
+      createdAt: '',
+      updatedAt: '',
     });
     await testClient.getPlatformAccount();
     spinner.succeed('API keys validated');
   } catch {
     spinner.fail('Invalid API keys');
-    throw new Error('Could not validate API keys. Check your secret key and try again.');
+    throw new Error(
+      'Could not validate API keys. Check your secret key and try again.'
+    );
   }
 
   const saveSpinner = ora('Saving configuration...').start();
@@ -177,15 +328,15 @@ async function inlineSetup(configManager: ConfigManager): Promise<ProjectConfig>
   });
   saveSpinner.succeed('Configuration saved');
 
-  console.log(chalk.green(`\n  ✓ Project "${project.name}" created\n`));
+  log(chalk.green(`\n  ✓ Project "${project.name}" created\n`));
   return project;
 }
 
 /**
- * Connect command - Manage Stripe Connect accounts
+ * Connect command - Interactive menu for managing Stripe Connect accounts
  */
 export async function connectCommand(): Promise<void> {
-  console.log(chalk.bold.blue('\n🔗 Stripe Connect Management\n'));
+  log(chalk.bold.blue('\n🔗 Stripe Connect Management\n'));
 
   const configManager = new ConfigManager();
   const config = await configManager.loadConfig();
@@ -194,87 +345,249 @@ export async function connectCommand(): Promise<void> {
   let project: ProjectConfig;
   if (config.projects.length === 0) {
     project = await inlineSetup(configManager);
-  } else if (config.projects.length === 1) {
-    project = config.projects[0];
-    console.log(chalk.gray(`Using project: ${project.name} (${project.environment})\n`));
   } else {
-    const { selectedProject } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedProject',
-        message: 'Select a project:',
-        choices: config.projects.map((p: ProjectConfig) => ({
-          name: `${p.name} (${p.environment})`,
-          value: p.name,
-        })),
-      },
-    ]);
-    project = await configManager.getProject(selectedProject);
+    project = (await selectProject(configManager)) as ProjectConfig;
   }
 
-  const stripeClient = new StripeClient(project);
+  const stripeClient = createPlatformClient(project);
 
   // Select operation
-  const { operation } = await inquirer.prompt([
+  const { operation } = await prompt([
     {
       type: 'list',
       name: 'operation',
       message: 'What would you like to do?',
-      choices: [
-        { name: 'Full platform setup (branding + webhook + env vars)', value: 'full-setup' },
-        { name: 'Check Connect status', value: 'start' },
-        { name: 'Create merchant account', value: 'create' },
-        { name: 'Create webhook endpoint', value: 'webhook' },
-        { name: 'Generate onboarding link', value: 'link' },
-        { name: 'View account details', value: 'get' },
-        { name: 'List merchant accounts', value: 'list' },
-      ],
+      choices: menuChoices(project, [
+        {
+          name: 'Full platform setup (branding + webhook + env vars)',
+          value: 'full-setup',
+          requires: ['accounts', 'webhookEndpoints'],
+        },
+        {
+          name: 'Check Connect status',
+          value: 'start',
+          requires: ['accounts'],
+        },
+        {
+          name: 'Create merchant account',
+          value: 'create',
+          requires: ['accounts'],
+        },
+        {
+          name: 'Create webhook endpoint',
+          value: 'webhook',
+          requires: ['webhookEndpoints'],
+        },
+        {
+          name: 'Generate onboarding link',
+          value: 'link',
+          requires: ['accounts'],
+        },
+        { name: 'View account details', value: 'get', requires: ['accounts'] },
+        {
+          name: 'List merchant accounts',
+          value: 'list',
+          requires: ['accounts'],
+        },
+      ]),
     },
   ]);
 
   switch (operation) {
     case 'start':
-      await startConnect(stripeClient, project, configManager);
+      await startConnect(stripeClient, project, configManager, {}, true);
       break;
     case 'full-setup':
-      await fullSetup(stripeClient, project, configManager);
+      await fullSetup(stripeClient, project, configManager, {});
       break;
     case 'create':
-      await createAccount(stripeClient);
+      await createAccount(stripeClient, {}, true);
       break;
     case 'webhook':
-      await createWebhook(stripeClient);
+      await createWebhook(stripeClient, {});
       break;
     case 'link':
-      await createLink(stripeClient);
+      await createLink(stripeClient, undefined, {});
       break;
     case 'get':
       await getAccount(stripeClient);
       break;
     case 'list':
-      await listAccounts(stripeClient);
+      await listAccounts(stripeClient, {}, true);
       break;
   }
 }
 
-async function startConnect(stripeClient: StripeClient, project: ProjectConfig, configManager: ConfigManager): Promise<void> {
-  console.log(chalk.bold('\n--- Stripe Connect Setup ---\n'));
+/**
+ * connect status - Check the platform account and Connect readiness
+ */
+export async function connectStatusCommand(
+  options: ConnectStatusOptions
+): Promise<void> {
+  const configManager = new ConfigManager();
+  const project = await selectProject(configManager);
+  if (!project) return;
+
+  await startConnect(
+    createPlatformClient(project),
+    project,
+    configManager,
+    options,
+    false
+  );
+}
 
-  // Step 0: Prompt for org ID if not already set
-  if (project.orgId) {
-    console.log(chalk.gray(`  Stripe Org ID: ${project.orgId}\n`));
-  } else {
-    console.log(chalk.white('  To find your Stripe organization ID:'));
-    console.log(chalk.white('  1. Log in to your Stripe Dashboard'));
-    console.log(chalk.white('  2. Go to Settings → Organization'));
-    console.log(chalk.cyan('     https://dashboard.stripe.com/settings/organization\n'));
-    console.log(chalk.gray('  Your org ID looks like: org_6SNYbwPDSQupbJ7WySAFNzc\n'));
+/**
+ * connect setup - Run the platform setup, prompting only when --webhook-url is missing
+ */
+export async function connectSetupCommand(
+  options: ConnectSetupOptions
+): Promise<void> {
+  const configManager = new ConfigManager();
+  const project = await selectProject(configManager);
+  if (!project) return;
+
+  await fullSetup(
+    createPlatformClient(project),
+    project,
+    configManager,
+    options
+  );
+}
+
+/**
+ * connect accounts list - List connected accounts
+ */
+export async function listAccountsCommand(options: {
+  limit?: number;
+}): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project)
+    await listAccounts(createPlatformClient(project), options, false);
+}
+
+/**
+ * connect accounts get - Show a connected account
+ */
+export async function getAccountCommand(accountId?: string): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await getAccount(createPlatformClient(project), accountId);
+}
+
+/**
+ * connect accounts create - Create a connected account from flags
+ */
+export async function createAccountCommand(
+  options: CreateAccountOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project)
+    await createAccount(createPlatformClient(project), options, false);
+}
+
+/**
+ * connect accounts link - Generate an onboarding or update link
+ */
+export async function createLinkCommand(
+  accountId: string | undefined,
+  options: CreateLinkOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project)
+    await createLink(createPlatformClient(project), accountId, options);
+}
+
+/**
+ * connect webhooks create - Create a webhook endpoint
+ */
+export async function createWebhookCommand(
+  options: CreateWebhookOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await createWebhook(createStripeClient(project), options);
+}
 
-    const { orgId } = await inquirer.prompt([
+/**
+ * connect webhooks list - List webhook endpoints
+ */
+export async function listWebhooksCommand(): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (!project) return;
+
+  const spinner = ora('Fetching webhook endpoints...').start();
+
+  try {
+    const endpoints =
+      await createStripeClient(project).listAllWebhookEndpoints();
+    spinner.stop();
+
+    emit(endpoints, {
+      columns: WEBHOOK_COLUMNS,
+      text: () => {
+        if (endpoints.length === 0) {
+          log(chalk.yellow('\nNo webhook endpoints found.'));
+          return;
+        }
+
+        log(chalk.bold(`\nFound ${endpoints.length} webhook endpoint(s):\n`));
+        endpoints.forEach((endpoint) => {
+          log(
+            chalk.bold(`  ${endpoint.url}`) + chalk.gray(` (${endpoint.id})`)
+          );
+          log(chalk.gray(`    Status: ${endpoint.status}`));
+          log(chalk.gray(`    Events: ${endpoint.enabled_events.join(', ')}`));
+          log();
+        });
+      },
+    });
+  } catch (error: any) {
+    spinner.fail('Failed to fetch webhook endpoints');
+    throw error;
+  }
+}
+
+async function saveOrgId(
+  configManager: ConfigManager,
+  project: ProjectConfig,
+  orgId: string
+): Promise<void> {
+  if (!orgId.startsWith('org_')) {
+    throw new Error('Org ID must start with org_');
+  }
+  await configManager.updateProject(project.name, { orgId });
+  project.orgId = orgId;
+}
+
+async function startConnect(
+  stripeClient: StripeClient,
+  project: ProjectConfig,
+  configManager: ConfigManager,
+  options: ConnectStatusOptions,
+  interactive: boolean
+): Promise<void> {
+  log(chalk.bold('\n--- Stripe Connect Setup ---\n'));
+
+  // Step 0: Prompt for org ID if not already set
+  if (options.orgId && options.orgId !== project.orgId) {
+    await saveOrgId(configManager, project, options.orgId);
+    log(chalk.green(`  ✓ Org ID saved to project "${project.name}"\n`));
+  } else if (project.orgId) {
+    log(chalk.gray(`  Stripe Org ID: ${project.orgId}\n`));
+  } else if (interactive) {
+    log(chalk.white('  To find your Stripe organization ID:'));
+    log(chalk.white('  1. Log in to your Stripe Dashboard'));
+    log(chalk.white('  2. Go to Settings → Organization'));
+    log(
+      chalk.cyan('     https://dashboard.stripe.com/settings/organization\n')
+    );
+    log(chalk.gray('  Your org ID looks like: org_6SNYbwPDSQupbJ7WySAFNzc\n'));
+
+    const { orgId } = await prompt([
       {
         type: 'input',
         name: 'orgId',
-        message: 'Stripe organization ID (paste org_... or press Enter to skip):',
+        message:
+          'Stripe organization ID (paste org_... or press Enter to skip):',
         validate: (input: string) => {
           if (!input.trim()) return true;
           if (!input.startsWith('org_')) return 'Org ID must start with org_';
@@ -284,9 +597,8 @@ async function startConnect(stripeClient: StripeClient, project: ProjectConfig,
     ]);
 
     if (orgId.trim()) {
-      await configManager.updateProject(project.name, { orgId: orgId.trim() });
-      project.orgId = orgId.trim();
-      console.log(chalk.green(`  ✓ Org ID saved to project "${project.name}"\n`));
+      await saveOrgId(configManager, project, orgId.trim());
+      log(chalk.green(`  ✓ Org ID saved to project "${project.name}"\n`));
     }
   }
 
@@ -299,27 +611,48 @@ async function startConnect(stripeClient: StripeClient, project: ProjectConfig,
     spinner.succeed('Platform account found');
   } catch (error: any) {
     spinner.fail('Failed to retrieve platform account');
-    console.log(chalk.red('\n  Could not access your Stripe account.'));
-    console.log(chalk.yellow('  Check that your API key is correct in your project config.\n'));
+    log(chalk.red('\n  Could not access your Stripe account.'));
+    log(
+      chalk.yellow(
+        '  Check that your API key is correct in your project config.\n'
+      )
+    );
     throw error;
   }
 
   // Step 2: Show platform details
-  const businessName = platform.business_profile?.name
-    || platform.settings?.dashboard?.display_name
-    || 'Not set';
-
-  console.log(chalk.bold('\n  Platform Account:\n'));
-  console.log(chalk.bold('  Account ID:'), platform.id);
-  console.log(chalk.bold('  Business Name:'), businessName);
-  console.log(chalk.bold('  Country:'), platform.country || 'N/A');
+  const businessName =
+    platform.business_profile?.name ||
+    platform.settings?.dashboard?.display_name ||
+    'Not set';
+
+  log(chalk.bold('\n  Platform Account:\n'));
+  log(chalk.bold('  Account ID:'), platform.id);
+  log(chalk.bold('  Business Name:'), businessName);
+  log(chalk.bold('  Country:'), platform.country || 'N/A');
   if (platform.email) {
-    console.log(chalk.bold('  Email:'), platform.email);
+    log(chalk.bold('  Email:'), platform.email);
   }
-  console.log(chalk.bold('  Environment:'), project.environment);
-  console.log(chalk.bold('  Charges Enabled:'), platform.charges_enabled ? 'Yes' : 'No');
-  console.log(chalk.bold('  Payouts Enabled:'), platform.payouts_enabled ? 'Yes' : 'No');
-  console.log();
+  log(chalk.bold('  Environment:'), project.environment);
+  log(
+    chalk.bold('  Charges Enabled:'),
+    platform.charges_enabled ? 'Yes' : 'No'
+  );
+  log(
+    chalk.bold('  Payouts Enabled:'),
+    platform.payouts_enabled ? 'Yes' : 'No'
+  );
+  log();
+
+  const status = {
+    platform: {
+      id: platform.id,
+      business: businessName,
+      country: platform.country,
+    },
+    environment: project.environment,
+    ...(project.orgId && { org_id: project.orgId }),
+  };
 
   // Step 3: Check Connect readiness
   let connectReady = false;
@@ -333,72 +666,104 @@ async function startConnect(stripeClient: StripeClient, project: ProjectConfig,
   }
 
   if (!connectReady) {
-    console.log(chalk.bold.yellow('\n  Connect is not enabled yet. Follow these steps:\n'));
-    console.log(chalk.white('  1. Log in to your Stripe Dashboard:'));
-    console.log(chalk.cyan('     https://dashboard.stripe.com/settings/connect\n'));
-    console.log(chalk.white('  2. Click "Get started with Connect"'));
-    console.log(chalk.white('  3. Choose your platform type (most common: "marketplace" or "platform")'));
-    console.log(chalk.white('  4. Select the account types you want to support:'));
-    console.log(chalk.gray('     - Express (recommended) — Stripe handles onboarding UI'));
-    console.log(chalk.gray('     - Standard — merchants use their own Stripe Dashboard'));
-    console.log(chalk.gray('     - Custom — you build the entire onboarding flow\n'));
-    console.log(chalk.white('  5. Complete the platform profile (business details, branding)'));
-    console.log(chalk.white('  6. Once enabled, come back and run this command again.\n'));
-
-    const { openDashboard } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'openDashboard',
-        message: 'Would you like to see the Connect settings URL?',
-        default: true,
-      },
-    ]);
+    log(
+      chalk.bold.yellow('\n  Connect is not enabled yet. Follow these steps:\n')
+    );
+    log(chalk.white('  1. Log in to your Stripe Dashboard:'));
+    log(chalk.cyan('     https://dashboard.stripe.com/settings/connect\n'));
+    log(chalk.white('  2. Click "Get started with Connect"'));
+    log(
+      chalk.white(
+        '  3. Choose your platform type (most common: "marketplace" or "platform")'
+      )
+    );
+    log(chalk.white('  4. Select the account types you want to support:'));
+    log(
+      chalk.gray('     - Express (recommended) — Stripe handles onboarding UI')
+    );
+    log(
+      chalk.gray('     - Standard — merchants use their own Stripe Dashboard')
+    );
+    log(chalk.gray('     - Custom — you build the entire onboarding flow\n'));
+    log(
+      chalk.white(
+        '  5. Complete the platform profile (business details, branding)'
+      )
+    );
+    log(
+      chalk.white('  6. Once enabled, come back and run this command again.\n')
+    );
+
+    const { openDashboard } = interactive
+      ? await prompt([
+          {
+            type: 'confirm',
+            name: 'openDashboard',
+            message: 'Would you like to see the Connect settings URL?',
+            default: true,
+          },
+        ])
+      : { openDashboard: true };
 
     if (openDashboard) {
-      const url = project.environment === 'test'
-        ? 'https://dashboard.stripe.com/test/settings/connect'
-        : 'https://dashboard.stripe.com/settings/connect';
-      console.log(chalk.cyan(`\n  Open this URL in your browser:\n  ${url}\n`));
+      const url =
+        project.environment === 'test'
+          ? 'https://dashboard.stripe.com/test/settings/connect'
+          : 'https://dashboard.stripe.com/settings/connect';
+      log(chalk.cyan(`\n  Open this URL in your browser:\n  ${url}\n`));
     }
+
+    emit({ ...status, connect_enabled: false }, { columns: STATUS_COLUMNS });
     return;
   }
 
   // Step 4: Connect is enabled — show status summary
   const accountsSpinner = ora('Counting connected accounts...').start();
-  let accounts: Awaited<ReturnType<typeof stripeClient.listConnectAccounts>> = [];
+  let accounts: Awaited<
+    ReturnType<typeof stripeClient.listAllConnectAccounts>
+  > = [];
   try {
-    accounts = await stripeClient.listConnectAccounts({ limit: 100 });
+    accounts = await stripeClient.listAllConnectAccounts();
     accountsSpinner.stop();
   } catch {
     accountsSpinner.stop();
   }
 
-  console.log(chalk.bold.green('\n  Connect is ready!\n'));
-  console.log(chalk.bold('  Platform:'), businessName);
-  console.log(chalk.bold('  Account ID:'), platform.id);
+  log(chalk.bold.green('\n  Connect is ready!\n'));
+  log(chalk.bold('  Platform:'), businessName);
+  log(chalk.bold('  Account ID:'), platform.id);
   if (project.orgId) {
-    console.log(chalk.bold('  Org ID:'), project.orgId);
+    log(chalk.bold('  Org ID:'), project.orgId);
   }
-  console.log(chalk.bold('  Connected Accounts:'), accounts.length);
-  console.log();
+  log(chalk.bold('  Connected Accounts:'), accounts.length);
+  log();
 
   if (accounts.length === 0) {
-    console.log(chalk.gray('  No connected accounts yet. You can create one with:'));
-    console.log(chalk.cyan('  stripeconf connect → Create connected account\n'));
+    log(chalk.gray('  No connected accounts yet. You can create one with:'));
+    log(chalk.cyan('  stripeconf connect accounts create --country US\n'));
   } else {
-    console.log(chalk.gray('  Recent connected accounts:'));
+    log(chalk.gray('  Recent connected accounts:'));
     accounts.slice(0, 5).forEach((a) => {
-      const status = a.charges_enabled ? chalk.green('active') : chalk.yellow('pending');
-      console.log(chalk.gray(`    ${a.id} (${a.type || 'unknown'}) — ${status}`));
+      const status = a.charges_enabled
+        ? chalk.green('active')
+        : chalk.yellow('pending');
+      log(chalk.gray(`    ${a.id} (${a.type || 'unknown'}) — ${status}`));
     });
     if (accounts.length > 5) {
-      console.log(chalk.gray(`    ... and ${accounts.length - 5} more`));
+      log(chalk.gray(`    ... and ${accounts.length - 5} more`));
     }
-    console.log();
+    log();
   }
 
+  emit(
+    { ...status, connect_enabled: true, connected_accounts: accounts.length },
+    { columns: [...STATUS_COLUMNS, 'connected_accounts'] }
+  );
+
+  if (!interactive || isStructuredOutput()) return;
+
   // Step 5: Offer next action
-  const { nextAction } = await inquirer.prompt([
+  const { nextAction } = await prompt([
     {
       type: 'list',
       name: 'nextAction',
@@ -413,36 +778,58 @@ async function startConnect(stripeClient: StripeClient, project: ProjectConfig,
 
   switch (nextAction) {
     case 'create':
-      await createAccount(stripeClient);
+      await createAccount(stripeClient, {}, true);
       break;
     case 'list':
-      await listAccounts(stripeClient);
+      await listAccounts(stripeClient, {}, true);
       break;
   }
 }
 
-async function fullSetup(stripeClient: StripeClient, project: ProjectConfig, configManager: ConfigManager): Promise<void> {
-  console.log(chalk.bold('\n--- Stripe Connect Platform Setup ---\n'));
-  console.log(chalk.gray('  This wizard configures your Stripe account as a Connect platform.'));
-  console.log(chalk.gray('  Your platform account (e.g., CoinPay) is the hub that manages'));
-  console.log(chalk.gray('  merchant Express accounts created via your web app.\n'));
-  console.log(chalk.gray('  Prerequisites (manual, in Stripe Dashboard):'));
-  console.log(chalk.gray('    1. Create a Stripe account for your platform'));
-  console.log(chalk.gray('    2. Get API keys (Developers → API keys) — already done'));
-  console.log(chalk.gray('    3. Enable Connect (Connect → Get started)\n'));
-  console.log(chalk.gray('  This wizard handles everything else: org ID, verification,'));
-  console.log(chalk.gray('  branding checklist, webhook creation, and env var output.\n'));
+async function fullSetup(
+  stripeClient: StripeClient,
+  project: ProjectConfig,
+  configManager: ConfigManager,
+  options: ConnectSetupOptions
+): Promise<void> {
+  const interactive = shouldPrompt(options.webhookUrl ? [] : ['--webhook-url']);
+
+  log(chalk.bold('\n--- Stripe Connect Platform Setup ---\n'));
+  log(
+    chalk.gray(
+      '  This wizard configures your Stripe account as a Connect platform.'
+    )
+  );
+  log(
+    chalk.gray(
+      '  Your platform account (e.g., CoinPay) is the hub that manages'
+    )
+  );
+  log(chalk.gray('  merchant Express accounts created via your web app.\n'));
+  log(chalk.gray('  Prerequisites (manual, in Stripe Dashboard):'));
+  log(chalk.gray('    1. Create a Stripe account for your platform'));
+  log(chalk.gray('    2. Get API keys (Developers → API keys) — already done'));
+  log(chalk.gray('    3. Enable Connect (Connect → Get started)\n'));
+  log(
+    chalk.gray('  This wizard handles everything else: org ID, verification,')
+  );
+  log(
+    chalk.gray('  branding checklist, webhook creation, and env var output.\n')
+  );
 
   // Step 1: Org ID
-  console.log(chalk.bold('  Step 1: Organization ID\n'));
-
-  if (project.orgId) {
-    console.log(chalk.green(`  ✓ Org ID: ${project.orgId}\n`));
-  } else {
-    console.log(chalk.white('  Find your org ID at: Settings → Organization'));
-    console.log(chalk.cyan('  https://dashboard.stripe.com/settings/organization\n'));
-
-    const { orgId } = await inquirer.prompt([
+  log(chalk.bold('  Step 1: Organization ID\n'));
+
+  if (options.orgId && options.orgId !== project.orgId) {
+    await saveOrgId(configManager, project, options.orgId);
+    log(chalk.green(`  ✓ Org ID saved\n`));
+  } else if (project.orgId) {
+    log(chalk.green(`  ✓ Org ID: ${project.orgId}\n`));
+  } else if (interactive) {
+    log(chalk.white('  Find your org ID at: Settings → Organization'));
+    log(chalk.cyan('  https://dashboard.stripe.com/settings/organization\n'));
+
+    const { orgId } = await prompt([
       {
         type: 'input',
         name: 'orgId',
@@ -456,14 +843,13 @@ async function fullSetup(stripeClient: StripeClient, project: ProjectConfig, con
     ]);
 
     if (orgId.trim()) {
-      await configManager.updateProject(project.name, { orgId: orgId.trim() });
-      project.orgId = orgId.trim();
-      console.log(chalk.green(`  ✓ Org ID saved\n`));
+      await saveOrgId(configManager, project, orgId.trim());
+      log(chalk.green(`  ✓ Org ID saved\n`));
     }
   }
 
   // Step 2: Verify platform account + Connect status
-  console.log(chalk.bold('  Step 2: Verify Platform Account\n'));
+  log(chalk.bold('  Step 2: Verify Platform Account\n'));
 
   const platformSpinner = ora('Checking platform account...').start();
   let platform;
@@ -472,17 +858,18 @@ async function fullSetup(stripeClient: StripeClient, project: ProjectConfig, con
     platformSpinner.succeed('Platform account verified');
   } catch (error: any) {
     platformSpinner.fail('Failed to access platform account');
-    console.log(chalk.red('\n  Check your API keys in the project config.\n'));
+    log(chalk.red('\n  Check your API keys in the project config.\n'));
     throw error;
   }
 
-  const businessName = platform.business_profile?.name
-    || platform.settings?.dashboard?.display_name
-    || 'Not set';
+  const businessName =
+    platform.business_profile?.name ||
+    platform.settings?.dashboard?.display_name ||
+    'Not set';
 
-  console.log(chalk.gray(`    Account: ${platform.id}`));
-  console.log(chalk.gray(`    Business: ${businessName}`));
-  console.log(chalk.gray(`    Country: ${platform.country || 'N/A'}`));
+  log(chalk.gray(`    Account: ${platform.id}`));
+  log(chalk.gray(`    Business: ${businessName}`));
+  log(chalk.gray(`    Country: ${platform.country || 'N/A'}`));
 
   // Check Connect is enabled
   const connectSpinner = ora('Checking Connect access...').start();
@@ -496,107 +883,108 @@ async function fullSetup(stripeClient: StripeClient, project: ProjectConfig, con
   }
 
   if (!connectReady) {
-    console.log(chalk.bold.yellow('\n  Connect must be enabled before continuing:\n'));
-    console.log(chalk.white('  1. Go to Stripe Dashboard → Connect (left sidebar)'));
-    console.log(chalk.white('  2. Click "Get started with Connect"'));
-    console.log(chalk.white('  3. Choose platform type (marketplace or platform)'));
-    console.log(chalk.white('  4. Select Express accounts (recommended)'));
-    console.log(chalk.white('  5. Complete platform profile\n'));
-
-    const dashUrl = project.environment === 'test'
-      ? 'https://dashboard.stripe.com/test/settings/connect'
-      : 'https://dashboard.stripe.com/settings/connect';
-    console.log(chalk.cyan(`  Open: ${dashUrl}\n`));
-    console.log(chalk.gray('  Run this command again after enabling Connect.\n'));
+    log(chalk.bold.yellow('\n  Connect must be enabled before continuing:\n'));
+    log(chalk.white('  1. Go to Stripe Dashboard → Connect (left sidebar)'));
+    log(chalk.white('  2. Click "Get started with Connect"'));
+    log(chalk.white('  3. Choose platform type (marketplace or platform)'));
+    log(chalk.white('  4. Select Express accounts (recommended)'));
+    log(chalk.white('  5. Complete platform profile\n'));
+
+    const dashUrl =
+      project.environment === 'test'
+        ? 'https://dashboard.stripe.com/test/settings/connect'
+        : 'https://dashboard.stripe.com/settings/connect';
+    log(chalk.cyan(`  Open: ${dashUrl}\n`));
+    log(chalk.gray('  Run this command again after enabling Connect.\n'));
     return;
   }
 
   // Step 3: Platform branding guidance
-  console.log(chalk.bold('\n  Step 3: Platform Branding (Dashboard)\n'));
-  console.log(chalk.gray('  Configure your platform branding in the Stripe Dashboard.'));
-  console.log(chalk.gray('  This is what merchants see during onboarding.\n'));
-
-  const connectSettingsUrl = project.environment === 'test'
-    ? 'https://dashboard.stripe.com/test/settings/connect'
-    : 'https://dashboard.stripe.com/settings/connect';
-
-  console.log(chalk.white('  Checklist:'));
-  console.log(chalk.white('  [ ] Set platform display name (e.g., CoinPay)'));
-  console.log(chalk.white('  [ ] Upload platform logo'));
-  console.log(chalk.white('  [ ] Set brand color'));
-  console.log(chalk.white('  [ ] Enable Express accounts'));
-  console.log(chalk.white('  [ ] Set capabilities: card_payments + transfers'));
-  console.log(chalk.white('  [ ] Configure payout schedule (e.g., daily, 2-day rolling)\n'));
-  console.log(chalk.cyan(`  Dashboard: ${connectSettingsUrl}\n`));
-
-  const { brandingDone } = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'brandingDone',
-      message: 'Have you configured platform branding? (you can do this later)',
-      default: true,
-    },
-  ]);
+  log(chalk.bold('\n  Step 3: Platform Branding (Dashboard)\n'));
+  log(
+    chalk.gray('  Configure your platform branding in the Stripe Dashboard.')
+  );
+  log(chalk.gray('  This is what merchants see during onboarding.\n'));
+
+  const connectSettingsUrl =
+    project.environment === 'test'
+      ? 'https://dashboard.stripe.com/test/settings/connect'
+      : 'https://dashboard.stripe.com/settings/connect';
 
-  if (!brandingDone) {
-    console.log(chalk.yellow('  No problem — you can configure branding anytime.\n'));
+  log(chalk.white('  Checklist:'));
+  log(chalk.white('  [ ] Set platform display name (e.g., CoinPay)'));
+  log(chalk.white('  [ ] Upload platform logo'));
+  log(chalk.white('  [ ] Set brand color'));
+  log(chalk.white('  [ ] Enable Express accounts'));
+  log(chalk.white('  [ ] Set capabilities: card_payments + transfers'));
+  log(
+    chalk.white(
+      '  [ ] Configure payout schedule (e.g., daily, 2-day rolling)\n'
+    )
+  );
+  log(chalk.cyan(`  Dashboard: ${connectSettingsUrl}\n`));
+
+  if (interactive) {
+    const { brandingDone } = await prompt([
+      {
+        type: 'confirm',
+        name: 'brandingDone',
+        message:
+          'Have you configured platform branding? (you can do this later)',
+        default: true,
+      },
+    ]);
+
+    if (!brandingDone) {
+      log(chalk.yellow('  No problem — you can configure branding anytime.\n'));
+    }
   }
 
   // Step 4: Create webhook endpoint
-  console.log(chalk.bold('\n  Step 4: Create Webhook Endpoint\n'));
+  log(chalk.bold('\n  Step 4: Create Webhook Endpoint\n'));
 
-  const { webhookUrl } = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'webhookUrl',
-      message: 'Webhook URL (e.g., https://yourapp.com/api/stripe/webhooks):',
-      validate: (input: string) => {
-        if (!input.trim()) return 'URL is required';
-        try {
-          new URL(input);
-          return true;
-        } catch {
-          return 'Must be a valid URL';
-        }
-      },
-    },
-  ]);
+  let webhookUrl = options.webhookUrl as string;
+  let selectedEvents = options.event?.length
+    ? options.event
+    : DEFAULT_WEBHOOK_EVENTS;
 
-  const { events } = await inquirer.prompt([
-    {
-      type: 'checkbox',
-      name: 'events',
-      message: 'Events to listen for:',
-      choices: [
-        new inquirer.Separator('--- Payments ---'),
-        { name: 'payment_intent.succeeded', checked: true },
-        { name: 'payment_intent.payment_failed', checked: true },
-        { name: 'checkout.session.completed', checked: true },
-        new inquirer.Separator('--- Connect ---'),
-        { name: 'account.updated', checked: true },
-        new inquirer.Separator('--- Disputes & Refunds ---'),
-        { name: 'charge.dispute.created', checked: true },
-        { name: 'charge.dispute.closed', checked: true },
-        { name: 'charge.refunded', checked: true },
-        new inquirer.Separator('--- Payouts ---'),
-        { name: 'payout.paid', checked: true },
-        { name: 'payout.failed', checked: true },
-        new inquirer.Separator('--- Subscriptions ---'),
-        { name: 'customer.subscription.created', checked: false },
-        { name: 'customer.subscription.updated', checked: false },
-        { name: 'customer.subscription.deleted', checked: false },
-        { name: 'invoice.paid', checked: false },
-        { name: 'invoice.payment_failed', checked: false },
-        new inquirer.Separator('---'),
-        { name: 'All events (*)', value: '*' },
+  if (interactive) {
+    const answers = await prompt(
+      [
+        {
+          type: 'input',
+          name: 'webhookUrl',
+          message:
+            'Webhook URL (e.g., https://yourapp.com/api/stripe/webhooks):',
+          validate: (input: string) => {
+            if (!input.trim()) return 'URL is required';
+            try {
+              new URL(input);
+              return true;
+            } catch {
+              return 'Must be a valid URL';
+            }
+          },
+        },
+        {
+          type: 'checkbox',
+          name: 'events',
+          message: 'Events to listen for:',
+          choices: webhookEventChoices(),
+        },
       ],
-    },
-  ]);
+      {
+        ...(options.webhookUrl && { webhookUrl: options.webhookUrl }),
+        ...(options.event?.length && { events: options.event }),
+      }
+    );
 
-  const selectedEvents = events.includes('*') ? ['*'] : events;
+    webhookUrl = answers.webhookUrl;
+    selectedEvents = answers.events.includes('*') ? ['*'] : answers.events;
+  }
 
   if (selectedEvents.length === 0) {
-    console.log(chalk.yellow('  No events selected — skipping webhook creation.\n'));
+    log(chalk.yellow('  No events selected — skipping webhook creation.\n'));
   }
 
   let webhook;
@@ -621,332 +1009,428 @@ async function fullSetup(stripeClient: StripeClient, project: ProjectConfig, con
   }
 
   // Step 5: Output env vars
-  console.log(chalk.bold.green('\n  ✓ Platform Setup Complete!\n'));
+  log(chalk.bold.green('\n  ✓ Platform Setup Complete!\n'));
 
-  console.log(chalk.bold('  Platform Account:'));
-  console.log(chalk.gray(`    Account ID: ${platform.id}`));
-  console.log(chalk.gray(`    Business: ${businessName}`));
+  log(chalk.bold('  Platform Account:'));
+  log(chalk.gray(`    Account ID: ${platform.id}`));
+  log(chalk.gray(`    Business: ${businessName}`));
   if (project.orgId) {
-    console.log(chalk.gray(`    Org ID: ${project.orgId}`));
+    log(chalk.gray(`    Org ID: ${project.orgId}`));
   }
 
   if (webhook) {
-    console.log(chalk.bold('\n  Webhook Endpoint:'));
-    console.log(chalk.gray(`    ID: ${webhook.id}`));
-    console.log(chalk.gray(`    URL: ${webhook.url}`));
+    log(chalk.bold('\n  Webhook Endpoint:'));
+    log(chalk.gray(`    ID: ${webhook.id}`));
+    log(chalk.gray(`    URL: ${webhook.url}`));
   }
 
-  console.log(chalk.bold.yellow('\n  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
-  console.log(chalk.bold.yellow('  Add these to your production .env file:'));
-  console.log(chalk.bold.yellow('  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
-  console.log(`  STRIPE_SECRET_KEY=${project.secretKey}`);
-  console.log(`  STRIPE_PUBLISHABLE_KEY=${project.publishableKey}`);
-  console.log(`  NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY=${project.publishableKey}`);
+  const secretKey = resolveSecretKey(project);
+
+  log(chalk.bold.yellow('\n  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━'));
+  log(chalk.bold.yellow('  Add these to your production .env file:'));
+  log(chalk.bold.yellow('  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
+  log(`  STRIPE_SECRET_KEY=${secretKey}`);
+  log(`  STRIPE_PUBLISHABLE_KEY=${project.publishableKey}`);
+  log(`  NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY=${project.publishableKey}`);
   if (webhook) {
-    console.log(`  STRIPE_WEBHOOK_SECRET=${webhook.secret}`);
+    log(`  STRIPE_WEBHOOK_SECRET=${webhook.secret}`);
   }
   if (project.orgId) {
-    console.log(`  STRIPE_ORG_ID=${project.orgId}`);
+    log(`  STRIPE_ORG_ID=${project.orgId}`);
   }
 
-  console.log(chalk.bold.yellow('\n  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
+  log(chalk.bold.yellow('\n  ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n'));
 
-  console.log(chalk.bold('  Next steps:'));
-  console.log(chalk.white('  1. Add the env vars above to your production .env'));
+  log(chalk.bold('  Next steps:'));
+  log(chalk.white('  1. Add the env vars above to your production .env'));
   if (webhook) {
-    console.log(chalk.white(`  2. Configure your app to handle webhooks at ${webhookUrl}`));
+    log(
+      chalk.white(`  2. Configure your app to handle webhooks at ${webhookUrl}`)
+    );
   }
-  console.log(chalk.white(`  ${webhook ? '3' : '2'}. Create your first merchant account:`));
-  console.log(chalk.cyan('     stripeconf connect → Create merchant account'));
-  console.log(chalk.white(`  ${webhook ? '4' : '3'}. Generate an onboarding link for the merchant:`));
-  console.log(chalk.cyan('     stripeconf connect → Generate onboarding link\n'));
+  log(
+    chalk.white(`  ${webhook ? '3' : '2'}. Create your first merchant account:`)
+  );
+  log(chalk.cyan('     stripeconf connect accounts create --country US'));
+  log(
+    chalk.white(
+      `  ${webhook ? '4' : '3'}. Generate an onboarding link for the merchant:`
+    )
+  );
+  log(
+    chalk.cyan(
+      '     stripeconf connect accounts link <acct_id> --refresh-url <url> --return-url <url>\n'
+    )
+  );
 
   // Offer to create first merchant now
-  const { createMerchant } = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'createMerchant',
-      message: 'Create your first merchant account now?',
-      default: true,
-    },
-  ]);
+  if (interactive && !isStructuredOutput()) {
+    const { createMerchant } = await prompt([
+      {
+        type: 'confirm',
+        name: 'createMerchant',
+        message: 'Create your first merchant account now?',
+        default: true,
+      },
+    ]);
 
-  if (createMerchant) {
-    await createAccount(stripeClient);
+    if (createMerchant) {
+      await createAccount(stripeClient, {}, true);
+    }
   }
 
-  // Output JSON for scripting
-  console.log(chalk.bold('\n  JSON:'));
-  console.log(JSON.stringify({
-    platform: {
-      id: platform.id,
-      business: businessName,
-      country: platform.country,
-      ...(project.orgId && { org_id: project.orgId }),
-    },
-    ...(webhook && {
-      webhook: {
-        id: webhook.id,
-        url: webhook.url,
-        secret: webhook.secret,
-        events: selectedEvents,
+  emit(
+    {
+      platform: {
+        id: platform.id,
+        business: businessName,
+        country: platform.country,
+        ...(project.orgId && { org_id: project.orgId }),
+      },
+      ...(webhook && {
+        webhook: {
+          id: webhook.id,
+          url: webhook.url,
+          secret: webhook.secret,
+          events: selectedEvents,
+        },
+      }),
+      env: {
+        STRIPE_SECRET_KEY: secretKey,
+        STRIPE_PUBLISHABLE_KEY: project.publishableKey,
+        NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: project.publishableKey,
+        ...(webhook && { STRIPE_WEBHOOK_SECRET: webhook.secret }),
+        ...(project.orgId && { STRIPE_ORG_ID: project.orgId }),
       },
-    }),
-    env: {
-      STRIPE_SECRET_KEY: project.secretKey,
-      STRIPE_PUBLISHABLE_KEY: project.publishableKey,
-      NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: project.publishableKey,
-      ...(webhook && { STRIPE_WEBHOOK_SECRET: webhook.secret }),
-      ...(project.orgId && { STRIPE_ORG_ID: project.orgId }),
     },
-  }, null, 2));
-  console.log();
+    {
+      columns: [
+        'platform.id',
+        'platform.business',
+        'webhook.id',
+        'webhook.url',
+      ],
+    }
+  );
 }
 
-async function createWebhook(stripeClient: StripeClient): Promise<void> {
-  console.log(chalk.bold('\nCreate Webhook Endpoint\n'));
+async function createWebhook(
+  stripeClient: StripeClient,
+  options: CreateWebhookOptions
+): Promise<void> {
+  let url = options.url as string;
+  let events = options.event?.length ? options.event : DEFAULT_WEBHOOK_EVENTS;
+  let description = options.description;
 
-  const answers = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'url',
-      message: 'Webhook URL:',
-      validate: (input: string) => {
-        if (!input.trim()) return 'URL is required';
-        try {
-          new URL(input);
-          return true;
-        } catch {
-          return 'Must be a valid URL';
-        }
-      },
-    },
-    {
-      type: 'checkbox',
-      name: 'events',
-      message: 'Events to listen for:',
-      choices: [
-        new inquirer.Separator('--- Payments ---'),
-        { name: 'payment_intent.succeeded', checked: true },
-        { name: 'payment_intent.payment_failed', checked: true },
-        { name: 'checkout.session.completed', checked: true },
-        new inquirer.Separator('--- Connect ---'),
-        { name: 'account.updated', checked: true },
-        new inquirer.Separator('--- Disputes & Refunds ---'),
-        { name: 'charge.dispute.created', checked: true },
-        { name: 'charge.dispute.closed', checked: true },
-        { name: 'charge.refunded', checked: true },
-        new inquirer.Separator('--- Payouts ---'),
-        { name: 'payout.paid', checked: true },
-        { name: 'payout.failed', checked: true },
-        new inquirer.Separator('--- Subscriptions ---'),
-        { name: 'customer.subscription.created', checked: false },
-        { name: 'customer.subscription.updated', checked: false },
-        { name: 'customer.subscription.deleted', checked: false },
-        { name: 'invoice.paid', checked: false },
-        { name: 'invoice.payment_failed', checked: false },
-        new inquirer.Separator('---'),
-        { name: 'All events (*)', value: '*' },
+  if (shouldPrompt(options.url ? [] : ['--url'])) {
+    log(chalk.bold('\nCreate Webhook Endpoint\n'));
+
+    const answers = await prompt(
+      [
+        {
+          type: 'input',
+          name: 'url',
+          message: 'Webhook URL:',
+          validate: (input: string) => {
+            if (!input.trim()) return 'URL is required';
+            try {
+              new URL(input);
+              return true;
+            } catch {
+              return 'Must be a valid URL';
+            }
+          },
+        },
+        {
+          type: 'checkbox',
+          name: 'events',
+          message: 'Events to listen for:',
+          choices: webhookEventChoices(),
+        },
+        {
+          type: 'input',
+          name: 'description',
+          message: 'Description (optional):',
+        },
       ],
-    },
-    {
-      type: 'input',
-      name: 'description',
-      message: 'Description (optional):',
-    },
-  ]);
+      {
+        ...(options.event?.length && { events: options.event }),
+        ...(options.description && { description: options.description }),
+      }
+    );
 
-  const events = answers.events.includes('*')
-    ? ['*']
-    : answers.events;
+    url = answers.url;
+    events = answers.events.includes('*') ? ['*'] : answers.events;
+    description = answers.description;
+  }
 
   const spinner = ora('Creating webhook endpoint...').start();
 
   try {
     const webhook = await stripeClient.createWebhookEndpoint({
-      url: answers.url,
+      url,
       enabled_events: events,
-      ...(answers.description && { description: answers.description }),
+      ...(description && { description }),
+      ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
     });
     spinner.succeed('Webhook endpoint created');
 
-    console.log(chalk.green('\n✓ Webhook endpoint created!'));
-    console.log(chalk.bold.yellow(`\n  STRIPE_WEBHOOK_SECRET=${webhook.secret}\n`));
-    console.log(JSON.stringify({
-      id: webhook.id,
-      url: webhook.url,
-      secret: webhook.secret,
-      enabled_events: events,
-    }, null, 2));
-    console.log();
+    emit(webhook, {
+      columns: WEBHOOK_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Webhook endpoint created!'));
+        log(chalk.gray(`  ID: ${webhook.id}`));
+        log(chalk.gray(`  URL: ${webhook.url}`));
+        log(chalk.gray(`  Events: ${webhook.enabled_events.join(', ')}`));
+        log(chalk.gray(`  Idempotency key: ${webhook.idempotencyKey}`));
+        log(chalk.bold.yellow(`\n  STRIPE_WEBHOOK_SECRET=${webhook.secret}\n`));
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to create webhook endpoint');
     throw error;
   }
 }
 
-async function createAccount(stripeClient: StripeClient): Promise<void> {
-  console.log(chalk.bold('\nCreate Connected Account\n'));
-
-  const answers = await inquirer.prompt([
-    {
-      type: 'list',
-      name: 'type',
-      message: 'Account type:',
-      choices: [
-        { name: 'Express (recommended)', value: 'express' },
-        { name: 'Standard', value: 'standard' },
-        { name: 'Custom', value: 'custom' },
-      ],
-    },
-    {
-      type: 'input',
-      name: 'country',
-      message: 'Country (2-letter code):',
-      default: 'US',
-      validate: (input: string) => {
-        if (!input.trim()) return 'Country is required';
-        if (input.trim().length !== 2) return 'Must be a 2-letter country code';
-        return true;
-      },
-    },
-    {
-      type: 'input',
-      name: 'email',
-      message: 'Email (optional):',
-    },
-    {
-      type: 'list',
-      name: 'business_type',
-      message: 'Business type:',
-      choices: [
-        { name: 'Individual', value: 'individual' },
-        { name: 'Company', value: 'company' },
-        { name: 'Non-profit', value: 'non_profit' },
-        { name: 'Government entity', value: 'government_entity' },
-      ],
-      default: 'individual',
-    },
-    {
-      type: 'checkbox',
-      name: 'capabilities',
-      message: 'Capabilities:',
-      choices: [
-        { name: 'Card payments', value: 'card_payments', checked: true },
-        { name: 'Transfers', value: 'transfers', checked: true },
-      ],
-    },
-    {
-      type: 'input',
-      name: 'metadata',
-      message: 'Metadata (JSON format, optional):',
-    },
-  ]);
+async function createAccount(
+  stripeClient: StripeClient,
+  options: CreateAccountOptions,
+  interactive: boolean
+): Promise<void> {
+  const capabilities = options.capability || ['card_payments', 'transfers'];
+  for (const cap of capabilities) {
+    if (cap !== 'card_payments' && cap !== 'transfers') {
+      throw new Error(
+        `Unsupported capability "${cap}" (use card_payments or transfers)`
+      );
+    }
+  }
 
-  const spinner = ora('Creating connected account...').start();
+  const accountData: CreateConnectAccountInput = {
+    type: options.type || 'express',
+    country: (options.country || 'US').toUpperCase(),
+    business_type: options.businessType || 'individual',
+    ...(options.email && { email: options.email }),
+    ...(options.metadata?.length && {
+      metadata: parseKeyValuePairs(options.metadata),
+    }),
+    ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+  };
 
-  try {
-    const accountData: any = {
-      type: answers.type,
-      country: answers.country.toUpperCase(),
-    };
+  if (interactive) {
+    log(chalk.bold('\nCreate Connected Account\n'));
 
-    if (answers.email) {
-      accountData.email = answers.email;
-    }
+    const answers = await prompt(
+      [
+        {
+          type: 'list',
+          name: 'type',
+          message: 'Account type:',
+          choices: [
+            { name: 'Express (recommended)', value: 'express' },
+            { name: 'Standard', value: 'standard' },
+            { name: 'Custom', value: 'custom' },
+          ],
+        },
+        {
+          type: 'input',
+          name: 'country',
+          message: 'Country (2-letter code):',
+          default: 'US',
+          validate: (input: string) => {
+            if (!input.trim()) return 'Country is required';
+            if (input.trim().length !== 2)
+              return 'Must be a 2-letter country code';
+            return true;
+          },
+        },
+        {
+          type: 'input',
+          name: 'email',
+          message: 'Email (optional):',
+        },
+        {
+          type: 'list',
+          name: 'business_type',
+          message: 'Business type:',
+          choices: [
+            { name: 'Individual', value: 'individual' },
+            { name: 'Company', value: 'company' },
+            { name: 'Non-profit', value: 'non_profit' },
+            { name: 'Government entity', value: 'government_entity' },
+          ],
+          default: 'individual',
+        },
+        {
+          type: 'checkbox',
+          name: 'capabilities',
+          message: 'Capabilities:',
+          choices: [
+            { name: 'Card payments', value: 'card_payments', checked: true },
+            { name: 'Transfers', value: 'transfers', checked: true },
+          ],
+        },
+        {
+          type: 'input',
+          name: 'metadata',
+          message: 'Metadata (JSON format, optional):',
+        },
+      ],
+      {
+        ...(options.type && { type: options.type }),
+        ...(options.country && { country: options.country }),
+        ...(options.email && { email: options.email }),
+        ...(options.businessType && { business_type: options.businessType }),
+        ...(options.capability && { capabilities: options.capability }),
+        ...(options.metadata?.length && {
+          metadata: JSON.stringify(accountData.metadata),
+        }),
+      }
+    );
 
+    accountData.type = answers.type;
+    accountData.country = answers.country.toUpperCase();
     accountData.business_type = answers.business_type;
+    capabilities.splice(0, capabilities.length, ...answers.capabilities);
 
-    if (answers.capabilities && answers.capabilities.length > 0) {
-      accountData.capabilities = {};
-      for (const cap of answers.capabilities) {
-        accountData.capabilities[cap] = { requested: true };
-      }
+    if (answers.email) {
+      accountData.email = answers.email;
     }
 
     if (answers.metadata) {
       try {
         accountData.metadata = JSON.parse(answers.metadata);
       } catch {
-        spinner.fail('Invalid metadata JSON format');
-        return;
+        throw new Error('Invalid metadata JSON format');
       }
     }
+  }
+
+  if (capabilities.length > 0) {
+    accountData.capabilities = {};
+    for (const cap of capabilities as ('card_payments' | 'transfers')[]) {
+      accountData.capabilities[cap] = { requested: true };
+    }
+  }
+
+  const spinner = ora('Creating connected account...').start();
 
+  try {
     const account = await stripeClient.createConnectAccount(accountData);
     spinner.succeed('Connected account created successfully');
 
-    console.log(chalk.green('\n✓ Connected account created!'));
-    console.log(JSON.stringify({
-      id: account.id,
-      type: account.type,
-      country: account.country,
-      charges_enabled: account.charges_enabled,
-      payouts_enabled: account.payouts_enabled,
-      details_submitted: account.details_submitted,
-    }, null, 2));
-    console.log();
+    emit(account, {
+      columns: ACCOUNT_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Connected account created!'));
+        log(chalk.gray(`  ID: ${account.id}`));
+        log(chalk.gray(`  Type: ${account.type}`));
+        log(chalk.gray(`  Country: ${account.country}`));
+        log(chalk.gray(`  Idempotency key: ${account.idempotencyKey}\n`));
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to create connected account');
     throw error;
   }
 }
 
-async function createLink(stripeClient: StripeClient): Promise<void> {
-  console.log(chalk.bold('\nGenerate Onboarding Link\n'));
-
-  const accountId = await pickAccount(stripeClient, 'generate link for');
-  if (!accountId) return;
-
-  const answers = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'refresh_url',
-      message: 'Refresh URL (redirect if link expires):',
-      validate: (input: string) => input.trim() ? true : 'Refresh URL is required',
-    },
-    {
-      type: 'input',
-      name: 'return_url',
-      message: 'Return URL (redirect after onboarding):',
-      validate: (input: string) => input.trim() ? true : 'Return URL is required',
-    },
-    {
-      type: 'list',
-      name: 'type',
-      message: 'Link type:',
-      choices: [
-        { name: 'Account onboarding', value: 'account_onboarding' },
-        { name: 'Account update', value: 'account_update' },
+async function createLink(
+  stripeClient: StripeClient,
+  id: string | undefined,
+  options: CreateLinkOptions
+): Promise<void> {
+  const missing = [
+    ...(id ? [] : ['<account>']),
+    ...(options.refreshUrl ? [] : ['--refresh-url']),
+    ...(options.returnUrl ? [] : ['--return-url']),
+  ];
+
+  const linkData: CreateAccountLinkInput = {
+    account: id as string,
+    refresh_url: options.refreshUrl as string,
+    return_url: options.returnUrl as string,
+    type: options.type || 'account_onboarding',
+    ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+  };
+
+  if (shouldPrompt(missing)) {
+    log(chalk.bold('\nGenerate Onboarding Link\n'));
+
+    const accountId =
+      id || (await pickAccount(stripeClient, 'generate link for'));
+    if (!accountId) return;
+    linkData.account = accountId;
+
+    const answers = await prompt(
+      [
+        {
+          type: 'input',
+          name: 'refresh_url',
+          message: 'Refresh URL (redirect if link expires):',
+          validate: (input: string) =>
+            input.trim() ? true : 'Refresh URL is required',
+        },
+        {
+          type: 'input',
+          name: 'return_url',
+          message: 'Return URL (redirect after onboarding):',
+          validate: (input: string) =>
+            input.trim() ? true : 'Return URL is required',
+        },
+        {
+          type: 'list',
+          name: 'type',
+          message: 'Link type:',
+          choices: [
+            { name: 'Account onboarding', value: 'account_onboarding' },
+            { name: 'Account update', value: 'account_update' },
+          ],
+        },
       ],
-    },
-  ]);
+      {
+        ...(options.refreshUrl && { refresh_url: options.refreshUrl }),
+        ...(options.returnUrl && { return_url: options.returnUrl }),
+        ...(options.type && { type: options.type }),
+      }
+    );
+
+    linkData.refresh_url = answers.refresh_url;
+    linkData.return_url = answers.return_url;
+    linkData.type = answers.type;
+  }
 
   const spinner = ora('Generating onboarding link...').start();
 
   try {
-    const link = await stripeClient.createAccountLink({
-      account: accountId,
-      refresh_url: answers.refresh_url,
-      return_url: answers.return_url,
-      type: answers.type,
-    });
+    const link = await stripeClient.createAccountLink(linkData);
     spinner.succeed('Onboarding link generated');
 
-    console.log(chalk.green('\n✓ Onboarding link created!'));
-    console.log(JSON.stringify({
-      url: link.url,
-      expires_at: link.expires_at,
-    }, null, 2));
-    console.log();
+    emit(link, {
+      columns: ['url', 'expires_at'],
+      text: () => {
+        log(chalk.green('\n✓ Onboarding link created!'));
+        log(chalk.cyan(`  ${link.url}`));
+        log(
+          chalk.gray(
+            `  Expires: ${new Date(link.expires_at * 1000).toLocaleString()}\n`
+          )
+        );
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to generate onboarding link');
     throw error;
   }
 }
 
-async function getAccount(stripeClient: StripeClient): Promise<void> {
-  const accountId = await pickAccount(stripeClient, 'view');
+async function getAccount(
+  stripeClient: StripeClient,
+  id?: string
+): Promise<void> {
+  shouldPrompt(id ? [] : ['<account>']);
+
+  const accountId = id || (await pickAccount(stripeClient, 'view'));
   if (!accountId) return;
 
   const spinner = ora('Fetching account...').start();
@@ -955,90 +1439,99 @@ async function getAccount(stripeClient: StripeClient): Promise<void> {
     const account = await stripeClient.getConnectAccount(accountId);
     spinner.stop();
 
-    console.log(chalk.bold('\nAccount Details:\n'));
-    console.log(chalk.bold('  ID:'), account.id);
-    if (account.type) {
-      console.log(chalk.bold('  Type:'), account.type);
-    }
-    console.log(chalk.bold('  Country:'), account.country || 'N/A');
-    if (account.email) {
-      console.log(chalk.bold('  Email:'), account.email);
-    }
-    console.log(chalk.bold('  Charges Enabled:'), account.charges_enabled ? 'Yes' : 'No');
-    console.log(chalk.bold('  Payouts Enabled:'), account.payouts_enabled ? 'Yes' : 'No');
-    console.log(chalk.bold('  Details Submitted:'), account.details_submitted ? 'Yes' : 'No');
-
-    if (account.capabilities) {
-      const caps = Object.entries(account.capabilities)
-        .map(([key, val]) => `${key}: ${val}`)
-        .join(', ');
-      console.log(chalk.bold('  Capabilities:'), caps);
-    }
-
-    console.log(chalk.bold('\n  JSON:'));
-    console.log(JSON.stringify({
-      id: account.id,
-      type: account.type,
-      country: account.country,
-      email: account.email,
-      charges_enabled: account.charges_enabled,
-      payouts_enabled: account.payouts_enabled,
-      details_submitted: account.details_submitted,
-      capabilities: account.capabilities,
-    }, null, 2));
-    console.log();
+    emit(account, {
+      columns: ACCOUNT_COLUMNS,
+      text: () => {
+        log(chalk.bold('\nAccount Details:\n'));
+        log(chalk.bold('  ID:'), account.id);
+        if (account.type) {
+          log(chalk.bold('  Type:'), account.type);
+        }
+        log(chalk.bold('  Country:'), account.country || 'N/A');
+        if (account.email) {
+          log(chalk.bold('  Email:'), account.email);
+        }
+        log(
+          chalk.bold('  Charges Enabled:'),
+          account.charges_enabled ? 'Yes' : 'No'
+        );
+        log(
+          chalk.bold('  Payouts Enabled:'),
+          account.payouts_enabled ? 'Yes' : 'No'
+        );
+        log(
+          chalk.bold('  Details Submitted:'),
+          account.details_submitted ? 'Yes' : 'No'
+        );
+
+        if (account.capabilities) {
+          const caps = Object.entries(account.capabilities)
+            .map(([key, val]) => `${key}: ${val}`)
+            .join(', ');
+          log(chalk.bold('  Capabilities:'), caps);
+        }
+        log();
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to fetch account');
     throw error;
   }
 }
 
-async function listAccounts(stripeClient: StripeClient): Promise<void> {
-  const { limit } = await inquirer.prompt([
-    {
-      type: 'number',
-      name: 'limit',
-      message: 'Number of accounts to list:',
-      default: 20,
-      validate: (input: number) => input > 0 && input <= 100 ? true : 'Must be between 1 and 100',
-    },
-  ]);
+async function listAccounts(
+  stripeClient: StripeClient,
+  options: { limit?: number },
+  interactive: boolean
+): Promise<void> {
+  let limit = options.limit;
+
+  if (interactive && !limit) {
+    const answers = await prompt([
+      {
+        type: 'number',
+        name: 'limit',
+        message: 'Number of accounts to list:',
+        default: 20,
+        validate: (input: number) => (input > 0 ? true : 'Must be at least 1'),
+      },
+    ]);
+    limit = answers.limit;
+  }
 
   const spinner = ora('Fetching connected accounts...').start();
 
   try {
-    const accounts = await stripeClient.listConnectAccounts({ limit });
+    const accounts = await stripeClient.listAllConnectAccounts(
+      limit ? { maxItems: limit } : undefined
+    );
     spinner.stop();
 
-    if (accounts.length === 0) {
-      console.log(chalk.yellow('\nNo connected accounts found.'));
-      return;
-    }
+    emit(accounts, {
+      columns: ACCOUNT_COLUMNS,
+      text: () => {
+        if (accounts.length === 0) {
+          log(chalk.yellow('\nNo connected accounts found.'));
+          return;
+        }
 
-    console.log(chalk.bold(`\nFound ${accounts.length} connected account(s):\n`));
-    accounts.forEach((account) => {
-      console.log(
-        chalk.bold(`  ${account.id}`) +
-        chalk.gray(` (${account.type || 'unknown'})`)
-      );
-      console.log(chalk.gray(`    Country: ${account.country || 'N/A'}`));
-      console.log(chalk.gray(`    Charges: ${account.charges_enabled ? 'Yes' : 'No'}`));
-      console.log(chalk.gray(`    Payouts: ${account.payouts_enabled ? 'Yes' : 'No'}`));
-      console.log();
+        log(chalk.bold(`\nFound ${accounts.length} connected account(s):\n`));
+        accounts.forEach((account) => {
+          log(
+            chalk.bold(`  ${account.id}`) +
+              chalk.gray(` (${account.type || 'unknown'})`)
+          );
+          log(chalk.gray(`    Country: ${account.country || 'N/A'}`));
+          log(
+            chalk.gray(`    Charges: ${account.charges_enabled ? 'Yes' : 'No'}`)
+          );
+          log(
+            chalk.gray(`    Payouts: ${account.payouts_enabled ? 'Yes' : 'No'}`)
+          );
+          log();
+        });
+      },
     });
-
-    console.log(JSON.stringify(
-      accounts.map((a) => ({
-        id: a.id,
-        type: a.type,
-        country: a.country,
-        charges_enabled: a.charges_enabled,
-        payouts_enabled: a.payouts_enabled,
-      })),
-      null,
-      2,
-    ));
-    console.log();
   } catch (error: any) {
     spinner.fail('Failed to fetch connected accounts');
     throw error;
@@ -2,24 +2,92 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../../core/config-manager.js';
-import { StripeClient } from '../../core/stripe-client.js';
-import type { ProjectConfig } from '../../core/types.js';
+import type { StripeClient } from '../../core/stripe-client.js';
+import type {
+  CreatePriceInput,
+  ProjectConfig,
+  RecurringConfig,
+  UpdatePriceInput,
+} from '../../core/types.js';
 import type Stripe from 'stripe';
+import {
+  confirmAction,
+  createStripeClient,
+  menuChoices,
+  parseKeyValuePairs,
+  selectProject,
+  shouldPrompt,
+} from '../utils.js';
+import { emit, log, prompt } from '../output.js';
 
 const MANUAL_ENTRY = '__manual__';
+const PRICE_COLUMNS = [
+  'id',
+  'product',
+  'currency',
+  'unit_amount',
+  'recurring.interval',
+  'active',
+  'nickname',
+  'lookup_key',
+];
 
-async function pickProduct(stripeClient: StripeClient, action: string): Promise<string | null> {
+/**
+ * Flags for `prices list`
+ */
+export interface ListPricesOptions {
+  product?: string;
+  active?: boolean;
+  limit?: number;
+}
+
+/**
+ * Flags for `prices create`
+ */
+export interface CreatePriceOptions {
+  product?: string;
+  currency?: string;
+  amount?: number;
+  interval?: RecurringConfig['interval'];
+  intervalCount?: number;
+  usageType?: RecurringConfig['usage_type'];
+  nickname?: string;
+  lookupKey?: string;
+  inactive?: boolean;
+  metadata?: string[];
+  idempotencyKey?: string;
+}
+
+/**
+ * Flags for `prices update`
+ */
+export interface UpdatePriceOptions {
+  active?: boolean;
+  inactive?: boolean;
+  nickname?: string;
+  lookupKey?: string;
+  metadata?: string[];
+}
+
+async function pickProduct(
+  stripeClient: StripeClient,
+  action: string
+): Promise<string | null> {
   const spinner = ora('Fetching products...').start();
   try {
-    const products = await stripeClient.listProducts({ limit: 100 });
+    const products = await stripeClient.listAllProducts();
     spinner.stop();
 
     if (products.length === 0) {
-      console.log(chalk.yellow('\nNo products found. Create a product first with "stripeconf products".'));
+      log(
+        chalk.yellow(
+          '\nNo products found. Create a product first with "stripeconf products".'
+        )
+      );
       return null;
     }
 
-    const { productId } = await inquirer.prompt([
+    const { productId } = await prompt([
       {
         type: 'list',
         name: 'productId',
@@ -36,12 +104,13 @@ async function pickProduct(stripeClient: StripeClient, action: string): Promise<
     ]);
 
     if (productId === MANUAL_ENTRY) {
-      const { manualId } = await inquirer.prompt([
+      const { manualId } = await prompt([
         {
           type: 'input',
           name: 'manualId',
           message: 'Product ID:',
-          validate: (input: string) => input.trim() ? true : 'Product ID is required',
+          validate: (input: string) =>
+            input.trim() ? true : 'Product ID is required',
         },
       ]);
       return manualId;
@@ -65,18 +134,21 @@ function formatPrice(price: Stripe.Price): string {
   return `${amount}${recurring}${nickname}`;
 }
 
-async function pickPrice(stripeClient: StripeClient, action: string): Promise<string | null> {
+async function pickPrice(
+  stripeClient: StripeClient,
+  action: string
+): Promise<string | null> {
   const spinner = ora('Fetching prices...').start();
   try {
-    const prices = await stripeClient.listPrices({ limit: 100 });
+    const prices = await stripeClient.listAllPrices();
     spinner.stop();
 
     if (prices.length === 0) {
-      console.log(chalk.yellow('\nNo prices found.'));
+      log(chalk.yellow('\nNo prices found.'));
       return null;
     }
 
-    const { priceId } = await inquirer.prompt([
+    const { priceId } = await prompt([
       {
         type: 'list',
         name: 'priceId',
@@ -93,12 +165,13 @@ async function pickPrice(stripeClient: StripeClient, action: string): Promise<st
     ]);
 
     if (priceId === MANUAL_ENTRY) {
-      const { manualId } = await inquirer.prompt([
+      const { manualId } = await prompt([
         {
           type: 'input',
           name: 'manualId',
           message: 'Price ID:',
-          validate: (input: string) => input.trim() ? true : 'Price ID is required',
+          validate: (input: string) =>
+            input.trim() ? true : 'Price ID is required',
         },
       ]);
       return manualId;
@@ -112,130 +185,171 @@ async function pickPrice(stripeClient: StripeClient, action: string): Promise<st
 }
 
 /**
- * Prices command - Manage Stripe prices
+ * Prices command - Interactive menu for managing Stripe prices
  */
 export async function pricesCommand(): Promise<void> {
-  console.log(chalk.bold.blue('\n💰 Stripe Prices Management\n'));
+  log(chalk.bold.blue('\n💰 Stripe Prices Management\n'));
 
   const configManager = new ConfigManager();
-  const config = await configManager.loadConfig();
-
-  if (config.projects.length === 0) {
-    console.log(chalk.yellow('No projects configured. Run "stripeconf setup" first.'));
-    return;
-  }
-
-  // Select project
-  let project: ProjectConfig;
-  if (config.projects.length === 1) {
-    project = config.projects[0];
-    console.log(chalk.gray(`Using project: ${project.name}\n`));
-  } else {
-    const { selectedProject } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedProject',
-        message: 'Select a project:',
-        choices: config.projects.map((p: ProjectConfig) => ({
-          name: `${p.name} (${p.environment})`,
-          value: p.name,
-        })),
-      },
-    ]);
-    project = await configManager.getProject(selectedProject);
-  }
+  const project = await selectProject(configManager);
+  if (!project) return;
 
-  const stripeClient = new StripeClient(project);
+  const stripeClient = createStripeClient(project);
 
   // Select operation
-  const { operation } = await inquirer.prompt([
+  const { operation } = await prompt([
     {
       type: 'list',
       name: 'operation',
       message: 'What would you like to do?',
-      choices: [
-        { name: 'List all prices', value: 'list' },
-        { name: 'View price details', value: 'get' },
-        { name: 'Create new price', value: 'create' },
-        { name: 'Update price', value: 'update' },
-        { name: 'Archive price', value: 'archive' },
-      ],
+      choices: menuChoices(project, [
+        { name: 'List all prices', value: 'list', requires: ['prices'] },
+        { name: 'View price details', value: 'get', requires: ['prices'] },
+        { name: 'Create new price', value: 'create', requires: ['prices'] },
+        { name: 'Update price', value: 'update', requires: ['prices'] },
+        { name: 'Archive price', value: 'archive', requires: ['prices'] },
+      ]),
     },
   ]);
 
   switch (operation) {
     case 'list':
-      await listPrices(stripeClient);
+      await listPrices(stripeClient, {}, true);
       break;
     case 'get':
       await getPrice(stripeClient);
       break;
     case 'create':
-      await createPrice(stripeClient, project);
+      await createPrice(stripeClient, project, {});
       break;
     case 'update':
-      await updatePrice(stripeClient);
+      await updatePrice(stripeClient, undefined, {});
       break;
     case 'archive':
-      await archivePrice(stripeClient);
+      await archivePrice(stripeClient, undefined, {});
       break;
   }
 }
 
-async function listPrices(stripeClient: StripeClient): Promise<void> {
-  const { filterByProduct } = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'filterByProduct',
-      message: 'Filter by product?',
-      default: false,
-    },
-  ]);
+/**
+ * prices list - List prices without prompting
+ */
+export async function listPricesCommand(
+  options: ListPricesOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await listPrices(createStripeClient(project), options, false);
+}
+
+/**
+ * prices get - Show a price, picking it interactively when no ID is given
+ */
+export async function getPriceCommand(priceId?: string): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await getPrice(createStripeClient(project), priceId);
+}
+
+/**
+ * prices create - Create a price from flags, prompting for missing values
+ */
+export async function createPriceCommand(
+  options: CreatePriceOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await createPrice(createStripeClient(project), project, options);
+}
 
-  let productId: string | undefined;
-  if (filterByProduct) {
-    const picked = await pickProduct(stripeClient, 'to filter by');
-    if (!picked) return;
-    productId = picked;
+/**
+ * prices update - Update a price from flags, prompting when none are given
+ */
+export async function updatePriceCommand(
+  priceId: string | undefined,
+  options: UpdatePriceOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await updatePrice(createStripeClient(project), priceId, options);
+}
+
+/**
+ * prices archive - Archive a price (requires --yes when not interactive)
+ */
+export async function archivePriceCommand(
+  priceId: string | undefined,
+  options: { yes?: boolean }
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project)
+    await archivePrice(createStripeClient(project), priceId, options);
+}
+
+async function listPrices(
+  stripeClient: StripeClient,
+  options: ListPricesOptions,
+  interactive: boolean
+): Promise<void> {
+  let productId = options.product;
+
+  if (interactive && !productId) {
+    const { filterByProduct } = await prompt([
+      {
+        type: 'confirm',
+        name: 'filterByProduct',
+        message: 'Filter by product?',
+        default: false,
+      },
+    ]);
+
+    if (filterByProduct) {
+      const picked = await pickProduct(stripeClient, 'to filter by');
+      if (!picked) return;
+      productId = picked;
+    }
   }
 
   const spinner = ora('Fetching prices...').start();
 
   try {
-    const prices = await stripeClient.listPrices(
-      productId ? { product: productId, limit: 100 } : { limit: 100 }
-    );
+    const prices = await stripeClient.listAllPrices({
+      ...(productId && { product: productId }),
+      ...(options.active !== undefined && { active: options.active }),
+      ...(options.limit && { maxItems: options.limit }),
+    });
     spinner.stop();
 
-    if (prices.length === 0) {
-      console.log(chalk.yellow('\nNo prices found.'));
-      return;
-    }
-
-    console.log(chalk.bold(`\nFound ${prices.length} price(s):\n`));
-    prices.forEach((price) => {
-      const amount = price.unit_amount
-        ? `${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
-        : 'Metered';
-
-      console.log(chalk.bold(`  ${amount}`) + chalk.gray(` (${price.id})`));
-      console.log(chalk.gray(`    Product: ${price.product}`));
-      console.log(chalk.gray(`    Active: ${price.active ? 'Yes' : 'No'}`));
-
-      if (price.recurring) {
-        console.log(
-          chalk.gray(
-            `    Recurring: ${price.recurring.interval_count || 1} ${price.recurring.interval}(s)`
-          )
-        );
-      } else {
-        console.log(chalk.gray(`    Type: One-time`));
-      }
-
-      if (price.nickname) {
-        console.log(chalk.gray(`    Nickname: ${price.nickname}`));
-      }
-      console.log();
+    emit(prices, {
+      columns: PRICE_COLUMNS,
+      text: () => {
+        if (prices.length === 0) {
+          log(chalk.yellow('\nNo prices found.'));
+          return;
+        }
+
+        log(chalk.bold(`\nFound ${prices.length} price(s):\n`));
+        prices.forEach((price) => {
+          const amount = price.unit_amount
+            ? `${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
+            : 'Metered';
+
+          log(chalk.bold(`  ${amount}`) + chalk.gray(` (${price.id})`));
+          log(chalk.gray(`    Product: ${price.product}`));
+          log(chalk.gray(`    Active: ${price.active ? 'Yes' : 'No'}`));
+
+          if (price.recurring) {
+            log(
+              chalk.gray(
+                `    Recurring: ${price.recurring.interval_count || 1} ${price.recurring.interval}(s)`
+              )
+            );
+          } else {
+            log(chalk.gray(`    Type: One-time`));
+          }
+
+          if (price.nickname) {
+            log(chalk.gray(`    Nickname: ${price.nickname}`));
+          }
+          log();
+        });
+      },
     });
   } catch (error: any) {
     spinner.fail('Failed to fetch prices');
@@ -243,8 +357,13 @@ async function listPrices(stripeClient: StripeClient): Promise<void> {
   }
 }
 
-async function getPrice(stripeClient: StripeClient): Promise<void> {
-  const priceId = await pickPrice(stripeClient, 'view');
+async function getPrice(
+  stripeClient: StripeClient,
+  id?: string
+): Promise<void> {
+  shouldPrompt(id ? [] : ['<id>']);
+
+  const priceId = id || (await pickPrice(stripeClient, 'view'));
   if (!priceId) return;
 
   const spinner = ora('Fetching price...').start();
@@ -253,45 +372,53 @@ async function getPrice(stripeClient: StripeClient): Promise<void> {
     const price = await stripeClient.getPrice(priceId);
     spinner.stop();
 
-    console.log(chalk.bold('\nPrice Details:\n'));
-    console.log(chalk.bold('  ID:'), price.id);
-    console.log(chalk.bold('  Product:'), price.product);
-    console.log(chalk.bold('  Currency:'), price.currency.toUpperCase());
-
-    if (price.unit_amount) {
-      console.log(
-        chalk.bold('  Amount:'),
-        `${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
-      );
-    }
-
-    console.log(chalk.bold('  Active:'), price.active ? 'Yes' : 'No');
-
-    if (price.recurring) {
-      console.log(chalk.bold('  Type:'), 'Recurring');
-      console.log(
-        chalk.bold('  Interval:'),
-        `${price.recurring.interval_count || 1} ${price.recurring.interval}(s)`
-      );
-      if (price.recurring.usage_type) {
-        console.log(chalk.bold('  Usage Type:'), price.recurring.usage_type);
-      }
-    } else {
-      console.log(chalk.bold('  Type:'), 'One-time');
-    }
-
-    if (price.nickname) {
-      console.log(chalk.bold('  Nickname:'), price.nickname);
-    }
-
-    if (price.lookup_key) {
-      console.log(chalk.bold('  Lookup Key:'), price.lookup_key);
-    }
-
-    if (price.metadata && Object.keys(price.metadata).length > 0) {
-      console.log(chalk.bold('  Metadata:'), JSON.stringify(price.metadata, null, 2));
-    }
-    console.log();
+    emit(price, {
+      columns: PRICE_COLUMNS,
+      text: () => {
+        log(chalk.bold('\nPrice Details:\n'));
+        log(chalk.bold('  ID:'), price.id);
+        log(chalk.bold('  Product:'), price.product);
+        log(chalk.bold('  Currency:'), price.currency.toUpperCase());
+
+        if (price.unit_amount) {
+          log(
+            chalk.bold('  Amount:'),
+            `${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
+          );
+        }
+
+        log(chalk.bold('  Active:'), price.active ? 'Yes' : 'No');
+
+        if (price.recurring) {
+          log(chalk.bold('  Type:'), 'Recurring');
+          log(
+            chalk.bold('  Interval:'),
+            `${price.recurring.interval_count || 1} ${price.recurring.interval}(s)`
+          );
+          if (price.recurring.usage_type) {
+            log(chalk.bold('  Usage Type:'), price.recurring.usage_type);
+          }
+        } else {
+          log(chalk.bold('  Type:'), 'One-time');
+        }
+
+        if (price.nickname) {
+          log(chalk.bold('  Nickname:'), price.nickname);
+        }
+
+        if (price.lookup_key) {
+          log(chalk.bold('  Lookup Key:'), price.lookup_key);
+        }
+
+        if (price.metadata && Object.keys(price.metadata).length > 0) {
+          log(
+            chalk.bold('  Metadata:'),
+            JSON.stringify(price.metadata, null, 2)
+          );
+        }
+        log();
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to fetch price');
     throw error;
@@ -300,98 +427,153 @@ async function getPrice(stripeClient: StripeClient): Promise<void> {
 
 async function createPrice(
   stripeClient: StripeClient,
-  project: ProjectConfig
+  project: ProjectConfig,
+  options: CreatePriceOptions
 ): Promise<void> {
-  console.log(chalk.bold('\nCreate New Price\n'));
+  const metered = options.usageType === 'metered';
+  const missing = [
+    ...(options.product ? [] : ['--product']),
+    ...(options.amount !== undefined || metered ? [] : ['--amount']),
+  ];
+
+  const priceData: CreatePriceInput = {
+    product: options.product || '',
+    currency: (options.currency || project.defaultCurrency).toLowerCase(),
+    active: !options.inactive,
+    ...(options.amount !== undefined && { unit_amount: options.amount }),
+    ...(options.nickname && { nickname: options.nickname }),
+    ...(options.lookupKey && { lookup_key: options.lookupKey }),
+    ...(options.metadata?.length && {
+      metadata: parseKeyValuePairs(options.metadata),
+    }),
+    ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+    ...(options.interval && {
+      recurring: {
+        interval: options.interval,
+        interval_count: options.intervalCount || 1,
+        usage_type: options.usageType || 'licensed',
+      },
+    }),
+  };
 
-  // Pick product from list instead of typing ID
-  const productId = await pickProduct(stripeClient, 'to add a price to');
-  if (!productId) return;
+  if (options.usageType && !options.interval) {
+    throw new Error('--usage-type requires --interval');
+  }
 
-  const answers = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'currency',
-      message: 'Currency:',
-      default: project.defaultCurrency,
-      validate: (input: string) => {
-        if (!input.trim()) return 'Currency is required';
-        if (input.length !== 3) return 'Currency must be a 3-letter ISO code';
-        return true;
-      },
-    },
-    {
-      type: 'list',
-      name: 'type',
-      message: 'Price type:',
-      choices: [
-        { name: 'One-time', value: 'one_time' },
-        { name: 'Recurring', value: 'recurring' },
-      ],
-    },
-  ]);
+  // Prompt only for what the flags did not provide
+  if (shouldPrompt(missing)) {
+    log(chalk.bold('\nCreate New Price\n'));
 
-  let recurringConfig: any = undefined;
-  if (answers.type === 'recurring') {
-    recurringConfig = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'interval',
-        message: 'Billing interval:',
-        choices: ['day', 'week', 'month', 'year'],
-      },
-      {
-        type: 'number',
-        name: 'interval_count',
-        message: 'Interval count (e.g., 1=every interval, 3=every 3 intervals):',
-        default: 1,
-        validate: (input: number) => input > 0 ? true : 'Must be greater than 0',
-      },
+    // Pick product from list instead of typing ID
+    const productId =
+      options.product || (await pickProduct(stripeClient, 'to add a price to'));
+    if (!productId) return;
+    priceData.product = productId;
+
+    const answers = await prompt(
+      [
+        {
+          type: 'input',
+          name: 'currency',
+          message: 'Currency:',
+          default: project.defaultCurrency,
+          validate: (input: string) => {
+            if (!input.trim()) return 'Currency is required';
+            if (input.length !== 3)
+              return 'Currency must be a 3-letter ISO code';
+            return true;
+          },
+        },
+        {
+          type: 'list',
+          name: 'type',
+          message: 'Price type:',
+          choices: [
+            { name: 'One-time', value: 'one_time' },
+            { name: 'Recurring', value: 'recurring' },
+          ],
+        },
+      ],
       {
-        type: 'list',
-        name: 'usage_type',
-        message: 'Usage type:',
-        choices: [
-          { name: 'Licensed (fixed quantity)', value: 'licensed' },
-          { name: 'Metered (usage-based)', value: 'metered' },
-        ],
-        default: 'licensed',
-      },
-    ]);
-  }
+        ...(options.currency && { currency: options.currency }),
+        ...(options.interval && { type: 'recurring' }),
+      }
+    );
 
-  const amountAnswer = await inquirer.prompt([
-    {
-      type: 'number',
-      name: 'amount',
-      message: 'Amount (in cents):',
-      validate: (input: number) => {
-        if (recurringConfig?.usage_type === 'metered') return true;
-        return input >= 0 ? true : 'Amount must be 0 or greater';
-      },
-      when: () => !recurringConfig || recurringConfig.usage_type !== 'metered',
-    },
-    {
-      type: 'input',
-      name: 'nickname',
-      message: 'Nickname (optional):',
-    },
-    {
-      type: 'confirm',
-      name: 'active',
-      message: 'Active?',
-      default: true,
-    },
-  ]);
+    let recurringConfig: any = undefined;
+    if (answers.type === 'recurring') {
+      recurringConfig = await prompt(
+        [
+          {
+            type: 'list',
+            name: 'interval',
+            message: 'Billing interval:',
+            choices: ['day', 'week', 'month', 'year'],
+          },
+          {
+            type: 'number',
+            name: 'interval_count',
+            message:
+              'Interval count (e.g., 1=every interval, 3=every 3 intervals):',
+            default: 1,
+            validate: (input: number) =>
+              input > 0 ? true : 'Must be greater than 0',
+          },
+          {
+            type: 'list',
+            name: 'usage_type',
+            message: 'Usage type:',
+            choices: [
+              { name: 'Licensed (fixed quantity)', value: 'licensed' },
+              { name: 'Metered (usage-based)', value: 'metered' },
+            ],
+            default: 'licensed',
+          },
+        ],
+        {
+          ...(options.interval && { interval: options.interval }),
+          ...(options.intervalCount && {
+            interval_count: options.intervalCount,
+          }),
+          ...(options.usageType && { usage_type: options.usageType }),
+        }
+      );
+    }
 
-  const spinner = ora('Creating price...').start();
+    const amountAnswer = await prompt(
+      [
+        {
+          type: 'number',
+          name: 'amount',
+          message: 'Amount (in cents):',
+          validate: (input: number) => {
+            if (recurringConfig?.usage_type === 'metered') return true;
+            return input >= 0 ? true : 'Amount must be 0 or greater';
+          },
+          when: () =>
+            !recurringConfig || recurringConfig.usage_type !== 'metered',
+        },
+        {
+          type: 'input',
+          name: 'nickname',
+          message: 'Nickname (optional):',
+        },
+        {
+          type: 'confirm',
+          name: 'active',
+          message: 'Active?',
+          default: true,
+        },
+      ],
+      {
+        ...(options.amount !== undefined && { amount: options.amount }),
+        ...(options.nickname && { nickname: options.nickname }),
+        ...(options.inactive && { active: false }),
+      }
+    );
 
-  try {
-    const priceData: any = {
-      product: productId,
-      currency: answers.currency.toLowerCase(),
-      active: amountAnswer.active,
-    };
+    priceData.currency = answers.currency.toLowerCase();
+    priceData.active = amountAnswer.active;
 
     if (amountAnswer.amount !== undefined) {
       priceData.unit_amount = amountAnswer.amount;
@@ -408,70 +590,104 @@ async function createPrice(
         usage_type: recurringConfig.usage_type,
       };
     }
+  }
+
+  const spinner = ora('Creating price...').start();
 
+  try {
     const price = await stripeClient.createPrice(priceData);
     spinner.succeed('Price created successfully');
 
-    console.log(chalk.green('\n✓ Price created!'));
-    console.log(chalk.gray(`  ID: ${price.id}`));
-    if (price.unit_amount) {
-      console.log(
-        chalk.gray(
-          `  Amount: ${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
-        )
-      );
-    }
-    console.log();
+    emit(price, {
+      columns: PRICE_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Price created!'));
+        log(chalk.gray(`  ID: ${price.id}`));
+        if (price.unit_amount) {
+          log(
+            chalk.gray(
+              `  Amount: ${(price.unit_amount / 100).toFixed(2)} ${price.currency.toUpperCase()}`
+            )
+          );
+        }
+        log(chalk.gray(`  Idempotency key: ${price.idempotencyKey}\n`));
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to create price');
     throw error;
   }
 }
 
-async function updatePrice(stripeClient: StripeClient): Promise<void> {
-  const priceId = await pickPrice(stripeClient, 'update');
+async function updatePrice(
+  stripeClient: StripeClient,
+  id: string | undefined,
+  options: UpdatePriceOptions
+): Promise<void> {
+  const updates: UpdatePriceInput = {
+    ...(options.active && { active: true }),
+    ...(options.inactive && { active: false }),
+    ...(options.nickname && { nickname: options.nickname }),
+    ...(options.lookupKey && { lookup_key: options.lookupKey }),
+    ...(options.metadata?.length && {
+      metadata: parseKeyValuePairs(options.metadata),
+    }),
+  };
+
+  const missing = [
+    ...(id ? [] : ['<id>']),
+    ...(Object.keys(updates).length > 0
+      ? []
+      : ['--active, --inactive, --nickname, --lookup-key or --metadata']),
+  ];
+  const interactive = shouldPrompt(missing);
+
+  const priceId = id || (await pickPrice(stripeClient, 'update'));
   if (!priceId) return;
 
-  // Fetch current price
-  const spinner = ora('Fetching price...').start();
-  let currentPrice;
-  try {
-    currentPrice = await stripeClient.getPrice(priceId);
-    spinner.stop();
-  } catch (error: any) {
-    spinner.fail('Failed to fetch price');
-    throw error;
-  }
+  if (interactive && Object.keys(updates).length === 0) {
+    // Fetch current price
+    const spinner = ora('Fetching price...').start();
+    let currentPrice;
+    try {
+      currentPrice = await stripeClient.getPrice(priceId);
+      spinner.stop();
+    } catch (error: any) {
+      spinner.fail('Failed to fetch price');
+      throw error;
+    }
 
-  console.log(chalk.bold('\nCurrent values:\n'));
-  console.log(chalk.gray(`  Active: ${currentPrice.active}`));
-  console.log(chalk.gray(`  Nickname: ${currentPrice.nickname || 'None'}\n`));
-  console.log(chalk.yellow('Note: Most price fields are immutable after creation.\n'));
+    log(chalk.bold('\nCurrent values:\n'));
+    log(chalk.gray(`  Active: ${currentPrice.active}`));
+    log(chalk.gray(`  Nickname: ${currentPrice.nickname || 'None'}\n`));
+    log(
+      chalk.yellow('Note: Most price fields are immutable after creation.\n')
+    );
 
-  const answers = await inquirer.prompt([
-    {
-      type: 'list',
-      name: 'active',
-      message: 'Active status:',
-      choices: [
-        { name: 'Keep current', value: null },
-        { name: 'Active', value: true },
-        { name: 'Inactive', value: false },
-      ],
-    },
-    {
-      type: 'input',
-      name: 'nickname',
-      message: 'New nickname (leave empty to keep current):',
-    },
-  ]);
+    const answers = await prompt([
+      {
+        type: 'list',
+        name: 'active',
+        message: 'Active status:',
+        choices: [
+          { name: 'Keep current', value: null },
+          { name: 'Active', value: true },
+          { name: 'Inactive', value: false },
+        ],
+      },
+      {
+        type: 'input',
+        name: 'nickname',
+        message: 'New nickname (leave empty to keep current):',
+      },
+    ]);
 
-  const updates: any = {};
-  if (answers.active !== null) updates.active = answers.active;
-  if (answers.nickname) updates.nickname = answers.nickname;
+    if (answers.active !== null) updates.active = answers.active;
+    if (answers.nickname) updates.nickname = answers.nickname;
+  }
 
   if (Object.keys(updates).length === 0) {
-    console.log(chalk.yellow('\nNo changes made.'));
+    log(chalk.yellow('\nNo changes made.'));
     return;
   }
 
@@ -481,16 +697,27 @@ async function updatePrice(stripeClient: StripeClient): Promise<void> {
     const price = await stripeClient.updatePrice(priceId, updates);
     updateSpinner.succeed('Price updated successfully');
 
-    console.log(chalk.green('\n✓ Price updated!'));
-    console.log(chalk.gray(`  ID: ${price.id}\n`));
+    emit(price, {
+      columns: PRICE_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Price updated!'));
+        log(chalk.gray(`  ID: ${price.id}\n`));
+      },
+    });
   } catch (error: any) {
     updateSpinner.fail('Failed to update price');
     throw error;
   }
 }
 
-async function archivePrice(stripeClient: StripeClient): Promise<void> {
-  const priceId = await pickPrice(stripeClient, 'archive');
+async function archivePrice(
+  stripeClient: StripeClient,
+  id: string | undefined,
+  options: { yes?: boolean }
+): Promise<void> {
+  shouldPrompt(id ? [] : ['<id>']);
+
+  const priceId = id || (await pickPrice(stripeClient, 'archive'));
   if (!priceId) return;
 
   // Fetch price to show details
@@ -504,32 +731,34 @@ async function archivePrice(stripeClient: StripeClient): Promise<void> {
     throw error;
   }
 
-  console.log(chalk.bold('\nPrice to archive:\n'));
-  console.log(chalk.gray(`  ID: ${price.id}`));
-  console.log(chalk.gray(`  Product: ${price.product}\n`));
-  console.log(chalk.yellow('Note: Prices cannot be deleted, only archived (set to inactive).\n'));
+  log(chalk.bold('\nPrice to archive:\n'));
+  log(chalk.gray(`  ID: ${price.id}`));
+  log(chalk.gray(`  Product: ${price.product}\n`));
+  log(
+    chalk.yellow(
+      'Note: Prices cannot be deleted, only archived (set to inactive).\n'
+    )
+  );
 
-  const { confirm } = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'confirm',
-      message: 'Archive this price?',
-      default: false,
-    },
-  ]);
+  const confirm = await confirmAction('Archive this price?', options.yes);
 
   if (!confirm) {
-    console.log(chalk.yellow('\nArchival cancelled.'));
+    log(chalk.yellow('\nArchival cancelled.'));
     return;
   }
 
   const archiveSpinner = ora('Archiving price...').start();
 
   try {
-    await stripeClient.archivePrice(priceId);
+    const archived = await stripeClient.archivePrice(priceId);
     archiveSpinner.succeed('Price archived successfully');
 
-    console.log(chalk.green('\n✓ Price archived!\n'));
+    emit(archived, {
+      columns: PRICE_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Price archived!\n'));
+      },
+    });
   } catch (error: any) {
     archiveSpinner.fail('Failed to archive price');
     throw error;
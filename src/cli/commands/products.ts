@@ -2,23 +2,70 @@ import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../../core/config-manager.js';
-import { StripeClient } from '../../core/stripe-client.js';
-import type { ProjectConfig } from '../../core/types.js';
+import type { StripeClient } from '../../core/stripe-client.js';
+import type {
+  CreateProductInput,
+  UpdateProductInput,
+} from '../../core/types.js';
+import {
+  confirmAction,
+  createStripeClient,
+  menuChoices,
+  parseKeyValuePairs,
+  selectProject,
+  shouldPrompt,
+} from '../utils.js';
+import { emit, log, prompt } from '../output.js';
 
 const MANUAL_ENTRY = '__manual__';
+const PRODUCT_COLUMNS = ['id', 'name', 'active', 'description'];
 
-async function pickProduct(stripeClient: StripeClient, action: string): Promise<string | null> {
+/**
+ * Flags for `products list`
+ */
+export interface ListProductsOptions {
+  active?: boolean;
+  limit?: number;
+}
+
+/**
+ * Flags for `products create`
+ */
+export interface CreateProductOptions {
+  name?: string;
+  description?: string;
+  inactive?: boolean;
+  image?: string[];
+  metadata?: string[];
+  idempotencyKey?: string;
+}
+
+/**
+ * Flags for `products update`
+ */
+export interface UpdateProductOptions {
+  name?: string;
+  description?: string;
+  active?: boolean;
+  inactive?: boolean;
+  metadata?: string[];
+}
+
+async function pickProduct(
+  stripeClient: StripeClient,
+  action: string
+): Promise<string | null> {
   const spinner = ora('Fetching products...').start();
   try {
-    const products = await stripeClient.listProducts({ limit: 100 });
+    const products = await stripeClient.listAllProducts();
     spinner.stop();
 
     if (products.length === 0) {
-      console.log(chalk.yellow('\nNo products found.'));
+      log(chalk.yellow('\nNo products found.'));
       return null;
     }
 
-    const { productId } = await inquirer.prompt([
+    const { productId } = await prompt([
       {
         type: 'list',
         name: 'productId',
@@ -35,12 +82,13 @@ async function pickProduct(stripeClient: StripeClient, action: string): Promise<
     ]);
 
     if (productId === MANUAL_ENTRY) {
-      const { manualId } = await inquirer.prompt([
+      const { manualId } = await prompt([
         {
           type: 'input',
           name: 'manualId',
           message: 'Product ID:',
-          validate: (input: string) => input.trim() ? true : 'Product ID is required',
+          validate: (input: string) =>
+            input.trim() ? true : 'Product ID is required',
         },
       ]);
       return manualId;
@@ -54,96 +102,135 @@ async function pickProduct(stripeClient: StripeClient, action: string): Promise<
 }
 
 /**
- * Products command - Manage Stripe products
+ * Products command - Interactive menu for managing Stripe products
  */
 export async function productsCommand(): Promise<void> {
-  console.log(chalk.bold.blue('\n📦 Stripe Products Management\n'));
+  log(chalk.bold.blue('\n📦 Stripe Products Management\n'));
 
   const configManager = new ConfigManager();
-  const config = await configManager.loadConfig();
-
-  if (config.projects.length === 0) {
-    console.log(chalk.yellow('No projects configured. Run "stripeconf setup" first.'));
-    return;
-  }
-
-  // Select project
-  let project: ProjectConfig;
-  if (config.projects.length === 1) {
-    project = config.projects[0];
-    console.log(chalk.gray(`Using project: ${project.name}\n`));
-  } else {
-    const { selectedProject } = await inquirer.prompt([
-      {
-        type: 'list',
-        name: 'selectedProject',
-        message: 'Select a project:',
-        choices: config.projects.map((p: ProjectConfig) => ({
-          name: `${p.name} (${p.environment})`,
-          value: p.name,
-        })),
-      },
-    ]);
-    project = await configManager.getProject(selectedProject);
-  }
+  const project = await selectProject(configManager);
+  if (!project) return;
 
-  const stripeClient = new StripeClient(project);
+  const stripeClient = createStripeClient(project);
 
   // Select operation
-  const { operation } = await inquirer.prompt([
+  const { operation } = await prompt([
     {
       type: 'list',
       name: 'operation',
       message: 'What would you like to do?',
-      choices: [
-        { name: 'List all products', value: 'list' },
-        { name: 'View product details', value: 'get' },
-        { name: 'Create new product', value: 'create' },
-        { name: 'Update product', value: 'update' },
-        { name: 'Delete product', value: 'delete' },
-      ],
+      choices: menuChoices(project, [
+        { name: 'List all products', value: 'list', requires: ['products'] },
+        { name: 'View product details', value: 'get', requires: ['products'] },
+        { name: 'Create new product', value: 'create', requires: ['products'] },
+        { name: 'Update product', value: 'update', requires: ['products'] },
+        { name: 'Delete product', value: 'delete', requires: ['products'] },
+      ]),
     },
   ]);
 
   switch (operation) {
     case 'list':
-      await listProducts(stripeClient);
+      await listProducts(stripeClient, {});
       break;
     case 'get':
       await getProduct(stripeClient);
       break;
     case 'create':
-      await createProduct(stripeClient);
+      await createProduct(stripeClient, {});
       break;
     case 'update':
-      await updateProduct(stripeClient);
+      await updateProduct(stripeClient, undefined, {});
       break;
     case 'delete':
-      await deleteProduct(stripeClient);
+      await deleteProduct(stripeClient, undefined, {});
       break;
   }
 }
 
-async function listProducts(stripeClient: StripeClient): Promise<void> {
+/**
+ * products list - List products without prompting
+ */
+export async function listProductsCommand(
+  options: ListProductsOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await listProducts(createStripeClient(project), options);
+}
+
+/**
+ * products get - Show a product, picking it interactively when no ID is given
+ */
+export async function getProductCommand(productId?: string): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await getProduct(createStripeClient(project), productId);
+}
+
+/**
+ * products create - Create a product from flags, prompting for missing values
+ */
+export async function createProductCommand(
+  options: CreateProductOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project) await createProduct(createStripeClient(project), options);
+}
+
+/**
+ * products update - Update a product from flags, prompting when none are given
+ */
+export async function updateProductCommand(
+  productId: string | undefined,
+  options: UpdateProductOptions
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project)
+    await updateProduct(createStripeClient(project), productId, options);
+}
+
+/**
+ * products delete - Delete a product (requires --yes when not interactive)
+ */
+export async function deleteProductCommand(
+  productId: string | undefined,
+  options: { yes?: boolean }
+): Promise<void> {
+  const project = await selectProject(new ConfigManager());
+  if (project)
+    await deleteProduct(createStripeClient(project), productId, options);
+}
+
+async function listProducts(
+  stripeClient: StripeClient,
+  options: ListProductsOptions
+): Promise<void> {
   const spinner = ora('Fetching products...').start();
 
   try {
-    const products = await stripeClient.listProducts({ limit: 100 });
+    const products = await stripeClient.listAllProducts({
+      ...(options.active !== undefined && { active: options.active }),
+      ...(options.limit && { maxItems: options.limit }),
+    });
     spinner.stop();
 
-    if (products.length === 0) {
-      console.log(chalk.yellow('\nNo products found.'));
-      return;
-    }
-
-    console.log(chalk.bold(`\nFound ${products.length} product(s):\n`));
-    products.forEach((product) => {
-      console.log(chalk.bold(`  ${product.name}`) + chalk.gray(` (${product.id})`));
-      if (product.description) {
-        console.log(chalk.gray(`    ${product.description}`));
-      }
-      console.log(chalk.gray(`    Active: ${product.active ? 'Yes' : 'No'}`));
-      console.log();
+    emit(products, {
+      columns: PRODUCT_COLUMNS,
+      text: () => {
+        if (products.length === 0) {
+          log(chalk.yellow('\nNo products found.'));
+          return;
+        }
+
+        log(chalk.bold(`\nFound ${products.length} product(s):\n`));
+        products.forEach((product) => {
+          log(chalk.bold(`  ${product.name}`) + chalk.gray(` (${product.id})`));
+          if (product.description) {
+            log(chalk.gray(`    ${product.description}`));
+          }
+          log(chalk.gray(`    Active: ${product.active ? 'Yes' : 'No'}`));
+          log();
+        });
+      },
     });
   } catch (error: any) {
     spinner.fail('Failed to fetch products');
@@ -151,8 +238,13 @@ async function listProducts(stripeClient: StripeClient): Promise<void> {
   }
 }
 
-async function getProduct(stripeClient: StripeClient): Promise<void> {
-  const productId = await pickProduct(stripeClient, 'view');
+async function getProduct(
+  stripeClient: StripeClient,
+  id?: string
+): Promise<void> {
+  shouldPrompt(id ? [] : ['<id>']);
+
+  const productId = id || (await pickProduct(stripeClient, 'view'));
   if (!productId) return;
 
   const spinner = ora('Fetching product...').start();
@@ -161,146 +253,210 @@ async function getProduct(stripeClient: StripeClient): Promise<void> {
     const product = await stripeClient.getProduct(productId);
     spinner.stop();
 
-    console.log(chalk.bold('\nProduct Details:\n'));
-    console.log(chalk.bold('  Name:'), product.name);
-    console.log(chalk.bold('  ID:'), product.id);
-    console.log(chalk.bold('  Active:'), product.active ? 'Yes' : 'No');
-    if (product.description) {
-      console.log(chalk.bold('  Description:'), product.description);
-    }
-    if (product.images && product.images.length > 0) {
-      console.log(chalk.bold('  Images:'), product.images.length);
-    }
-    if (product.metadata && Object.keys(product.metadata).length > 0) {
-      console.log(chalk.bold('  Metadata:'), JSON.stringify(product.metadata, null, 2));
-    }
-    console.log();
+    emit(product, {
+      columns: PRODUCT_COLUMNS,
+      text: () => {
+        log(chalk.bold('\nProduct Details:\n'));
+        log(chalk.bold('  Name:'), product.name);
+        log(chalk.bold('  ID:'), product.id);
+        log(chalk.bold('  Active:'), product.active ? 'Yes' : 'No');
+        if (product.description) {
+          log(chalk.bold('  Description:'), product.description);
+        }
+        if (product.images && product.images.length > 0) {
+          log(chalk.bold('  Images:'), product.images.length);
+        }
+        if (product.metadata && Object.keys(product.metadata).length > 0) {
+          log(
+            chalk.bold('  Metadata:'),
+            JSON.stringify(product.metadata, null, 2)
+          );
+        }
+        log();
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to fetch product');
     throw error;
   }
 }
 
-async function createProduct(stripeClient: StripeClient): Promise<void> {
-  console.log(chalk.bold('\nCreate New Product\n'));
-
-  const answers = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'name',
-      message: 'Product name:',
-      validate: (input: string) => input.trim() ? true : 'Name is required',
-    },
-    {
-      type: 'input',
-      name: 'description',
-      message: 'Description (optional):',
-    },
-    {
-      type: 'confirm',
-      name: 'active',
-      message: 'Active?',
-      default: true,
-    },
-    {
-      type: 'input',
-      name: 'images',
-      message: 'Image URLs (comma-separated, optional):',
-    },
-    {
-      type: 'input',
-      name: 'metadata',
-      message: 'Metadata (JSON format, optional):',
-    },
-  ]);
-
-  const spinner = ora('Creating product...').start();
+async function createProduct(
+  stripeClient: StripeClient,
+  options: CreateProductOptions
+): Promise<void> {
+  const productData: CreateProductInput = {
+    name: options.name || '',
+    active: !options.inactive,
+    ...(options.description && { description: options.description }),
+    ...(options.image?.length && { images: options.image }),
+    ...(options.metadata?.length && {
+      metadata: parseKeyValuePairs(options.metadata),
+    }),
+    ...(options.idempotencyKey && { idempotencyKey: options.idempotencyKey }),
+  };
+
+  // Prompt only for what the flags did not provide
+  if (shouldPrompt(options.name ? [] : ['--name'])) {
+    log(chalk.bold('\nCreate New Product\n'));
+
+    const answers = await prompt(
+      [
+        {
+          type: 'input',
+          name: 'name',
+          message: 'Product name:',
+          validate: (input: string) =>
+            input.trim() ? true : 'Name is required',
+        },
+        {
+          type: 'input',
+          name: 'description',
+          message: 'Description (optional):',
+        },
+        {
+          type: 'confirm',
+          name: 'active',
+          message: 'Active?',
+          default: true,
+        },
+        {
+          type: 'input',
+          name: 'images',
+          message: 'Image URLs (comma-separated, optional):',
+        },
+        {
+          type: 'input',
+          name: 'metadata',
+          message: 'Metadata (JSON format, optional):',
+        },
+      ],
+      {
+        ...(options.description && { description: options.description }),
+        ...(options.inactive && { active: false }),
+        ...(options.image?.length && { images: options.image.join(',') }),
+        ...(options.metadata?.length && {
+          metadata: JSON.stringify(productData.metadata),
+        }),
+      }
+    );
 
-  try {
-    const productData: any = {
-      name: answers.name,
-      active: answers.active,
-    };
+    productData.name = answers.name;
+    productData.active = answers.active;
 
     if (answers.description) {
       productData.description = answers.description;
     }
 
     if (answers.images) {
-      productData.images = answers.images.split(',').map((url: string) => url.trim());
+      productData.images = answers.images
+        .split(',')
+        .map((url: string) => url.trim());
     }
 
     if (answers.metadata) {
       try {
         productData.metadata = JSON.parse(answers.metadata);
       } catch {
-        spinner.fail('Invalid metadata JSON format');
-        return;
+        throw new Error('Invalid metadata JSON format');
       }
     }
+  }
+
+  const spinner = ora('Creating product...').start();
 
+  try {
     const product = await stripeClient.createProduct(productData);
     spinner.succeed('Product created successfully');
 
-    console.log(chalk.green('\n✓ Product created!'));
-    console.log(chalk.gray(`  ID: ${product.id}`));
-    console.log(chalk.gray(`  Name: ${product.name}\n`));
+    emit(product, {
+      columns: PRODUCT_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Product created!'));
+        log(chalk.gray(`  ID: ${product.id}`));
+        log(chalk.gray(`  Name: ${product.name}`));
+        log(chalk.gray(`  Idempotency key: ${product.idempotencyKey}\n`));
+      },
+    });
   } catch (error: any) {
     spinner.fail('Failed to create product');
     throw error;
   }
 }
 
-async function updateProduct(stripeClient: StripeClient): Promise<void> {
-  const productId = await pickProduct(stripeClient, 'update');
+async function updateProduct(
+  stripeClient: StripeClient,
+  id: string | undefined,
+  options: UpdateProductOptions
+): Promise<void> {
+  const updates: UpdateProductInput = {
+    ...(options.name && { name: options.name }),
+    ...(options.description && { description: options.description }),
+    ...(options.active && { active: true }),
+    ...(options.inactive && { active: false }),
+    ...(options.metadata?.length && {
+      metadata: parseKeyValuePairs(options.metadata),
+    }),
+  };
+
+  const missing = [
+    ...(id ? [] : ['<id>']),
+    ...(Object.keys(updates).length > 0
+      ? []
+      : ['--name, --description, --active, --inactive or --metadata']),
+  ];
+  const interactive = shouldPrompt(missing);
+
+  const productId = id || (await pickProduct(stripeClient, 'update'));
   if (!productId) return;
 
-  // Fetch current product
-  const spinner = ora('Fetching product...').start();
-  let currentProduct;
-  try {
-    currentProduct = await stripeClient.getProduct(productId);
-    spinner.stop();
-  } catch (error: any) {
-    spinner.fail('Failed to fetch product');
-    throw error;
-  }
+  if (interactive && Object.keys(updates).length === 0) {
+    // Fetch current product
+    const spinner = ora('Fetching product...').start();
+    let currentProduct;
+    try {
+      currentProduct = await stripeClient.getProduct(productId);
+      spinner.stop();
+    } catch (error: any) {
+      spinner.fail('Failed to fetch product');
+      throw error;
+    }
 
-  console.log(chalk.bold('\nCurrent values:\n'));
-  console.log(chalk.gray(`  Name: ${currentProduct.name}`));
-  console.log(chalk.gray(`  Description: ${currentProduct.description || 'None'}`));
-  console.log(chalk.gray(`  Active: ${currentProduct.active}\n`));
+    log(chalk.bold('\nCurrent values:\n'));
+    log(chalk.gray(`  Name: ${currentProduct.name}`));
+    log(chalk.gray(`  Description: ${currentProduct.description || 'None'}`));
+    log(chalk.gray(`  Active: ${currentProduct.active}\n`));
 
-  const answers = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'name',
-      message: 'New name (leave empty to keep current):',
-    },
-    {
-      type: 'input',
-      name: 'description',
-      message: 'New description (leave empty to keep current):',
-    },
-    {
-      type: 'list',
-      name: 'active',
-      message: 'Active status:',
-      choices: [
-        { name: 'Keep current', value: null },
-        { name: 'Active', value: true },
-        { name: 'Inactive', value: false },
-      ],
-    },
-  ]);
+    const answers = await prompt([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'New name (leave empty to keep current):',
+      },
+      {
+        type: 'input',
+        name: 'description',
+        message: 'New description (leave empty to keep current):',
+      },
+      {
+        type: 'list',
+        name: 'active',
+        message: 'Active status:',
+        choices: [
+          { name: 'Keep current', value: null },
+          { name: 'Active', value: true },
+          { name: 'Inactive', value: false },
+        ],
+      },
+    ]);
 
-  const updates: any = {};
-  if (answers.name) updates.name = answers.name;
-  if (answers.description) updates.description = answers.description;
-  if (answers.active !== null) updates.active = answers.active;
+    if (answers.name) updates.name = answers.name;
+    if (answers.description) updates.description = answers.description;
+    if (answers.active !== null) updates.active = answers.active;
+  }
 
   if (Object.keys(updates).length === 0) {
-    console.log(chalk.yellow('\nNo changes made.'));
+    log(chalk.yellow('\nNo changes made.'));
     return;
   }
 
@@ -310,17 +466,28 @@ async function updateProduct(stripeClient: StripeClient): Promise<void> {
     const product = await stripeClient.updateProduct(productId, updates);
     updateSpinner.succeed('Product updated successfully');
 
-    console.log(chalk.green('\n✓ Product updated!'));
-    console.log(chalk.gray(`  ID: ${product.id}`));
-    console.log(chalk.gray(`  Name: ${product.name}\n`));
+    emit(product, {
+      columns: PRODUCT_COLUMNS,
+      text: () => {
+        log(chalk.green('\n✓ Product updated!'));
+        log(chalk.gray(`  ID: ${product.id}`));
+        log(chalk.gray(`  Name: ${product.name}\n`));
+      },
+    });
   } catch (error: any) {
     updateSpinner.fail('Failed to update product');
     throw error;
   }
 }
 
-async function deleteProduct(stripeClient: StripeClient): Promise<void> {
-  const productId = await pickProduct(stripeClient, 'delete');
+async function deleteProduct(
+  stripeClient: StripeClient,
+  id: string | undefined,
+  options: { yes?: boolean }
+): Promise<void> {
+  shouldPrompt(id ? [] : ['<id>']);
+
+  const productId = id || (await pickProduct(stripeClient, 'delete'));
   if (!productId) return;
 
   // Fetch product to show details
@@ -334,21 +501,17 @@ async function deleteProduct(stripeClient: StripeClient): Promise<void> {
     throw error;
   }
 
-  console.log(chalk.bold('\nProduct to delete:\n'));
-  console.log(chalk.gray(`  Name: ${product.name}`));
-  console.log(chalk.gray(`  ID: ${product.id}\n`));
+  log(chalk.bold('\nProduct to delete:\n'));
+  log(chalk.gray(`  Name: ${product.name}`));
+  log(chalk.gray(`  ID: ${product.id}\n`));
 
-  const { confirm } = await inquirer.prompt([
-    {
-      type: 'confirm',
-      name: 'confirm',
-      message: chalk.red('Are you sure you want to delete this product?'),
-      default: false,
-    },
-  ]);
+  const confirm = await confirmAction(
+    chalk.red('Are you sure you want to delete this product?'),
+    options.yes
+  );
 
   if (!confirm) {
-    console.log(chalk.yellow('\nDeletion cancelled.'));
+    log(chalk.yellow('\nDeletion cancelled.'));
     return;
   }
 
@@ -358,7 +521,13 @@ async function deleteProduct(stripeClient: StripeClient): Promise<void> {
     await stripeClient.deleteProduct(productId);
     deleteSpinner.succeed('Product deleted successfully');
 
-    console.log(chalk.green('\n✓ Product deleted!\n'));
+    emit(
+      { id: productId, deleted: true },
+      {
+        columns: ['id', 'deleted'],
+        text: () => log(chalk.green('\n✓ Product deleted!\n')),
+      }
+    );
   } catch (error: any) {
     deleteSpinner.fail('Failed to delete product');
     throw error;
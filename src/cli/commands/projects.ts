@@ -0,0 +1,825 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../../core/config-manager.js';
+import {
+  checkKeyAccount,
+  checkProjectKeys,
+  usableResources,
+} from '../../core/keys.js';
+import { resolveSecretKey } from '../../core/secret-resolver.js';
+import {
+  apiVersionWarnings,
+  checkApiVersion,
+  effectiveApiVersion,
+} from '../../core/api-version.js';
+import type { KeyCapabilities, ProjectConfig } from '../../core/types.js';
+import { StripeClientError, ValidationError } from '../../core/types.js';
+import {
+  confirmAction,
+  createPlatformClient,
+  maskKey,
+  readStdin,
+  shouldPrompt,
+  warn,
+} from '../utils.js';
+import { emit, log, prompt } from '../output.js';
+import {
+  validateCurrency,
+  validateFlags,
+  validatePublishableKey,
+  validateSecretKey,
+  validateWebhookSecret,
+} from './setup.js';
+
+const PROJECT_COLUMNS = [
+  'name',
+  'environment',
+  'default',
+  'defaultCurrency',
+  'publishableKey',
+  'secretKey',
+  'apiVersion',
+  'access',
+];
+const VERIFY_COLUMNS = ['name', 'environment', 'valid', 'accountId', 'error'];
+
+/**
+ * Flags for `projects edit`
+ */
+export interface EditProjectOptions {
+  environment?: 'test' | 'live';
+  publishableKey?: string;
+  secretKey?: string;
+  secretKeyRef?: string;
+  webhookSecret?: string;
+  currency?: string;
+  /** Stripe API version to pin (--pin-api-version) */
+  pinApiVersion?: string;
+  verify?: boolean;
+}
+
+/**
+ * Flags for `projects rotate-key`
+ */
+export interface RotateKeyOptions {
+  secretKey?: string;
+  secretKeyStdin?: boolean;
+  /** Hours to keep the previous key for rolling back */
+  gracePeriod?: number;
+}
+
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+/**
+ * Result of checking a project's keys against Stripe
+ */
+interface VerifyResult {
+  name: string;
+  environment: string;
+  valid: boolean;
+  accountId?: string;
+  /** What a restricted key can read; undefined for full-access keys */
+  capabilities?: KeyCapabilities;
+  /** The account's default API version, checked for pinned projects */
+  accountApiVersion?: string;
+  error?: string;
+}
+
+/**
+ * Resources a project's key can use, for display
+ */
+function describeAccess(capabilities?: KeyCapabilities): string {
+  if (!capabilities) return 'full';
+  return usableResources(capabilities).join(', ') || 'none';
+}
+
+/**
+ * Project as shown to the user, with keys masked
+ * Secret key references are shown as-is since they hold no secret.
+ */
+function describeProject(
+  project: ProjectConfig,
+  defaultProject?: string
+): Record<string, unknown> {
+  return {
+    name: project.name,
+    environment: project.environment,
+    default: project.name === defaultProject,
+    defaultCurrency: project.defaultCurrency,
+    publishableKey: maskKey(project.publishableKey),
+    secretKey: project.secretKey
+      ? maskKey(project.secretKey)
+      : project.secretKeyRef,
+    ...(project.secretKeyRef && { secretKeyRef: project.secretKeyRef }),
+    ...(project.webhookSecret && {
+      webhookSecret: maskKey(project.webhookSecret),
+    }),
+    ...(project.previousSecretKey && {
+      previousSecretKey: maskKey(project.previousSecretKey),
+      previousSecretKeyExpiresAt: project.previousSecretKeyExpiresAt,
+    }),
+    ...(project.orgId && { orgId: project.orgId }),
+    apiVersion: effectiveApiVersion(project),
+    pinnedApiVersion: Boolean(project.apiVersion),
+    access: describeAccess(project.capabilities),
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
+
+async function pickProject(
+  configManager: ConfigManager,
+  action: string
+): Promise<string> {
+  const projects = await configManager.listProjects();
+  if (projects.length === 0) {
+    throw new Error('No projects configured. Run "stripeconf setup" first.');
+  }
+
+  const { name } = await prompt([
+    {
+      type: 'list',
+      name: 'name',
+      message: `Select project to ${action}:`,
+      choices: projects.map((p: ProjectConfig) => ({
+        name: `${p.name} ${chalk.gray(`(${p.environment})`)}`,
+        value: p.name,
+      })),
+    },
+  ]);
+  return name;
+}
+
+/**
+ * Use the given project name or pick one interactively
+ */
+async function resolveName(
+  configManager: ConfigManager,
+  name: string | undefined,
+  action: string
+): Promise<string> {
+  shouldPrompt(name ? [] : ['<name>']);
+  return name || pickProject(configManager, action);
+}
+
+/**
+ * Check a project's keys against its environment and its Stripe account
+ * Restricted keys are also probed for the resources they can read.
+ */
+async function verifyProject(project: ProjectConfig): Promise<VerifyResult> {
+  const result = { name: project.name, environment: project.environment };
+
+  try {
+    const client = createPlatformClient(project);
+    const capabilities = client.hasRestrictedKey()
+      ? await client.probeCapabilities()
+      : undefined;
+    const account = await client.verifyKeys();
+    // Only pinned versions are compared; the check is best effort
+    const accountApiVersion = project.apiVersion
+      ? await client.getAccountApiVersion().catch(() => undefined)
+      : undefined;
+    return {
+      ...result,
+      valid: true,
+      accountId: account?.id,
+      capabilities,
+      accountApiVersion,
+    };
+  } catch (error) {
+    return { ...result, valid: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Projects command - Interactive menu for managing configured projects
+ */
+export async function projectsCommand(): Promise<void> {
+  log(chalk.bold.blue('\n🗂  Project Management\n'));
+
+  const { operation } = await prompt([
+    {
+      type: 'list',
+      name: 'operation',
+      message: 'What would you like to do?',
+      choices: [
+        { name: 'List projects', value: 'list' },
+        { name: 'View project details', value: 'show' },
+        { name: 'Edit project', value: 'edit' },
+        { name: 'Rename project', value: 'rename' },
+        { name: 'Set default project', value: 'set-default' },
+        { name: 'Verify API keys', value: 'verify' },
+        { name: 'Rotate secret key', value: 'rotate-key' },
+        { name: 'Delete project', value: 'delete' },
+      ],
+    },
+  ]);
+
+  switch (operation) {
+    case 'list':
+      await listProjectsCommand();
+      break;
+    case 'show':
+      await showProjectCommand();
+      break;
+    case 'edit':
+      await editProjectCommand(undefined, {});
+      break;
+    case 'rename':
+      await renameProjectCommand();
+      break;
+    case 'set-default':
+      await setDefaultProjectCommand();
+      break;
+    case 'verify':
+      await verifyProjectsCommand(
+        await pickProject(new ConfigManager(), 'verify')
+      );
+      break;
+    case 'rotate-key':
+      await rotateKeyCommand(undefined, {});
+      break;
+    case 'delete':
+      await deleteProjectCommand(undefined, {});
+      break;
+  }
+}
+
+/**
+ * projects list - List configured projects with masked keys
+ */
+export async function listProjectsCommand(): Promise<void> {
+  const config = await new ConfigManager().loadConfig();
+  const projects = config.projects.map((project: ProjectConfig) =>
+    describeProject(project, config.defaultProject)
+  );
+
+  emit(projects, {
+    columns: PROJECT_COLUMNS,
+    text: () => {
+      if (projects.length === 0) {
+        log(
+          chalk.yellow('No projects configured. Run "stripeconf setup" first.')
+        );
+        return;
+      }
+
+      log(chalk.bold(`\nFound ${projects.length} project(s):\n`));
+      projects.forEach((project) => {
+        const marker = project.default ? chalk.green(' (default)') : '';
+        log(
+          chalk.bold(`  ${project.name}`) +
+            chalk.gray(` [${project.environment}]`) +
+            marker
+        );
+        log(chalk.gray(`    Publishable key: ${project.publishableKey}`));
+        log(chalk.gray(`    Secret key: ${project.secretKey}`));
+        log(chalk.gray(`    Currency: ${project.defaultCurrency}`));
+        log();
+      });
+    },
+  });
+}
+
+/**
+ * projects show - Show one project with masked keys
+ */
+export async function showProjectCommand(name?: string): Promise<void> {
+  const configManager = new ConfigManager();
+  const projectName = await resolveName(configManager, name, 'view');
+
+  const config = await configManager.loadConfig();
+  const project = await configManager.getProject(projectName);
+  const details = describeProject(project, config.defaultProject);
+
+  emit(details, {
+    columns: PROJECT_COLUMNS,
+    text: () => {
+      log(chalk.bold('\nProject Details:\n'));
+      log(chalk.bold('  Name:'), details.name);
+      log(chalk.bold('  Environment:'), details.environment);
+      log(chalk.bold('  Default:'), details.default ? 'Yes' : 'No');
+      log(chalk.bold('  Currency:'), details.defaultCurrency);
+      log(
+        chalk.bold('  API version:'),
+        details.pinnedApiVersion
+          ? details.apiVersion
+          : `${details.apiVersion} ${chalk.gray('(default)')}`
+      );
+      log(chalk.bold('  Publishable key:'), details.publishableKey);
+      log(
+        chalk.bold(
+          project.secretKeyRef ? '  Secret key ref:' : '  Secret key:'
+        ),
+        details.secretKey
+      );
+      if (details.webhookSecret) {
+        log(chalk.bold('  Webhook secret:'), details.webhookSecret);
+      }
+      if (details.previousSecretKey) {
+        log(
+          chalk.bold('  Previous secret key:'),
+          `${details.previousSecretKey} ${chalk.gray(`(kept until ${details.previousSecretKeyExpiresAt})`)}`
+        );
+      }
+      if (details.orgId) {
+        log(chalk.bold('  Organization ID:'), details.orgId);
+      }
+      log(chalk.bold('  Created:'), details.createdAt);
+      log(chalk.bold('  Updated:'), details.updatedAt);
+      log();
+    },
+  });
+}
+
+/**
+ * projects edit - Change keys, environment or currency of a project
+ * Prompts for new values when no flags are given. Changed keys are checked
+ * against Stripe before saving unless --no-verify is given.
+ */
+export async function editProjectCommand(
+  name: string | undefined,
+  options: EditProjectOptions
+): Promise<void> {
+  validateFlags(options);
+  if (options.secretKey && options.secretKeyRef) {
+    throw new Error('Use either --secret-key or --secret-key-ref, not both');
+  }
+  // The global --api-version only applies to this run; pins are explicit
+  const apiVersion = options.pinApiVersion;
+  if (apiVersion) checkApiVersion(apiVersion);
+
+  const updates: Partial<ProjectConfig> = {
+    ...(options.environment && { environment: options.environment }),
+    ...(options.publishableKey && { publishableKey: options.publishableKey }),
+    ...(options.secretKey && {
+      secretKey: options.secretKey,
+      secretKeyRef: undefined,
+    }),
+    ...(options.secretKeyRef && {
+      secretKeyRef: options.secretKeyRef,
+      secretKey: undefined,
+    }),
+    ...(options.webhookSecret && { webhookSecret: options.webhookSecret }),
+    ...(options.currency && {
+      defaultCurrency: options.currency.toLowerCase(),
+    }),
+    ...(apiVersion && { apiVersion }),
+  };
+
+  const configManager = new ConfigManager();
+  const missing = [
+    ...(name ? [] : ['<name>']),
+    ...(Object.keys(updates).length > 0
+      ? []
+      : [
+          '--environment, --publishable-key, --secret-key, --secret-key-ref, --webhook-secret, --currency or --pin-api-version',
+        ]),
+  ];
+  const interactive = shouldPrompt(missing);
+
+  const projectName = name || (await pickProject(configManager, 'edit'));
+  const project = await configManager.getProject(projectName);
+
+  if (interactive && Object.keys(updates).length === 0) {
+    const keep =
+      (validate: (input: string) => true | string) => (input: string) =>
+        input ? validate(input) : true;
+
+    const answers = await prompt([
+      {
+        type: 'list',
+        name: 'environment',
+        message: 'Environment:',
+        choices: [
+          { name: 'Test', value: 'test' },
+          { name: 'Live', value: 'live' },
+        ],
+        default: project.environment,
+      },
+      {
+        type: 'password',
+        name: 'publishableKey',
+        message: 'New publishable key (leave empty to keep current):',
+        validate: keep(validatePublishableKey),
+      },
+      {
+        type: 'password',
+        name: 'secretKey',
+        message: 'New secret key (leave empty to keep current):',
+        validate: keep(validateSecretKey),
+        when: () => !project.secretKeyRef,
+      },
+      {
+        type: 'password',
+        name: 'webhookSecret',
+        message: 'New webhook secret (leave empty to keep current):',
+        validate: keep(validateWebhookSecret),
+      },
+      {
+        type: 'input',
+        name: 'defaultCurrency',
+        message: 'Default currency:',
+        default: project.defaultCurrency,
+        validate: validateCurrency,
+      },
+      {
+        type: 'input',
+        name: 'apiVersion',
+        message: 'API version (leave empty for the default):',
+        default: project.apiVersion,
+        validate: (input: string) => {
+          if (!input) return true;
+          try {
+            checkApiVersion(input);
+            return true;
+          } catch (error) {
+            return (error as Error).message;
+          }
+        },
+      },
+    ]);
+
+    if (answers.environment !== project.environment) {
+      updates.environment = answers.environment;
+    }
+    if (answers.publishableKey) updates.publishableKey = answers.publishableKey;
+    if (answers.secretKey) updates.secretKey = answers.secretKey;
+    if (answers.webhookSecret) updates.webhookSecret = answers.webhookSecret;
+    if (answers.defaultCurrency.toLowerCase() !== project.defaultCurrency) {
+      updates.defaultCurrency = answers.defaultCurrency.toLowerCase();
+    }
+    if ((answers.apiVersion || undefined) !== project.apiVersion) {
+      updates.apiVersion = answers.apiVersion || undefined;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      log(chalk.yellow('\nNo changes made.'));
+      return;
+    }
+  }
+
+  const keysChanged = [
+    'environment',
+    'publishableKey',
+    'secretKey',
+    'secretKeyRef',
+  ].some((field) => field in updates);
+  const edited = { ...project, ...updates };
+
+  // Test/live mix-ups are rejected even with --no-verify
+  if (keysChanged) {
+    checkProjectKeys(edited, resolveSecretKey(edited));
+  }
+
+  if (keysChanged && options.verify !== false) {
+    const spinner = ora('Validating API keys...').start();
+    const result = await verifyProject(edited);
+    if (!result.valid) {
+      spinner.fail('Failed to validate API keys');
+      throw new Error(
+        `Invalid API keys or network error: ${result.error} (use --no-verify to save anyway)`
+      );
+    }
+    spinner.succeed('API keys validated successfully');
+    if (result.capabilities || project.capabilities) {
+      updates.capabilities = result.capabilities;
+    }
+  } else if (keysChanged && project.capabilities) {
+    // Capabilities of the old key say nothing about the new one
+    updates.capabilities = undefined;
+  }
+
+  const config = await configManager.loadConfig();
+  const updated = await configManager.updateProject(projectName, updates);
+  apiVersionWarnings(updated, config.projects).forEach(warn);
+
+  emit(describeProject(updated, config.defaultProject), {
+    columns: PROJECT_COLUMNS,
+    text: () => {
+      log(chalk.green(`\n✓ Project "${updated.name}" updated!`));
+      log(chalk.gray(`  Changed: ${Object.keys(updates).join(', ')}\n`));
+    },
+  });
+}
+
+/**
+ * projects rename - Rename a project
+ */
+export async function renameProjectCommand(
+  name?: string,
+  newName?: string
+): Promise<void> {
+  const configManager = new ConfigManager();
+  const missing = [
+    ...(name ? [] : ['<name>']),
+    ...(newName ? [] : ['<new-name>']),
+  ];
+  const interactive = shouldPrompt(missing);
+
+  const projectName = name || (await pickProject(configManager, 'rename'));
+  let targetName = newName;
+
+  if (interactive && !targetName) {
+    const answers = await prompt([
+      {
+        type: 'input',
+        name: 'newName',
+        message: 'New project name:',
+        validate: (input: string) =>
+          input.trim() ? true : 'Project name is required',
+      },
+    ]);
+    targetName = answers.newName.trim();
+  }
+
+  const project = await configManager.renameProject(
+    projectName,
+    targetName as string
+  );
+  const local = await configManager.findLocalConfig();
+
+  emit(
+    { name: project.name, previousName: projectName },
+    {
+      columns: ['name', 'previousName'],
+      text: () => {
+        log(
+          chalk.green(
+            `\n✓ Project "${projectName}" renamed to "${project.name}"`
+          )
+        );
+        if (local?.project === projectName) {
+          log(chalk.yellow(`  Update "project" in ${local.path} to match.`));
+        }
+        log();
+      },
+    }
+  );
+}
+
+/**
+ * projects delete - Remove a project (requires --yes when not interactive)
+ */
+export async function deleteProjectCommand(
+  name: string | undefined,
+  options: { yes?: boolean }
+): Promise<void> {
+  const configManager = new ConfigManager();
+  const projectName = await resolveName(configManager, name, 'delete');
+  const project = await configManager.getProject(projectName);
+
+  const confirm = await confirmAction(
+    `Delete project "${project.name}" (${project.environment}) from the config? Its keys will be removed.`,
+    options.yes
+  );
+
+  if (!confirm) {
+    log(chalk.yellow('\nDeletion cancelled.'));
+    return;
+  }
+
+  await configManager.deleteProject(project.name);
+
+  emit(
+    { name: project.name, deleted: true },
+    {
+      columns: ['name', 'deleted'],
+      text: () => log(chalk.green(`\n✓ Project "${project.name}" deleted\n`)),
+    }
+  );
+}
+
+/**
+ * projects set-default - Choose the project used when none is selected
+ */
+export async function setDefaultProjectCommand(name?: string): Promise<void> {
+  const configManager = new ConfigManager();
+  const projectName = await resolveName(configManager, name, 'use by default');
+
+  await configManager.setDefaultProject(projectName);
+  const local = await configManager.findLocalConfig();
+
+  emit(
+    { name: projectName, default: true },
+    {
+      columns: ['name', 'default'],
+      text: () => {
+        log(chalk.green(`\n✓ Default project set to "${projectName}"`));
+        if (local?.project && local.project !== projectName) {
+          log(
+            chalk.yellow(
+              `  ${local.path} pins "${local.project}" for this directory.`
+            )
+          );
+        }
+        log();
+      },
+    }
+  );
+}
+
+/**
+ * projects verify - Check API keys against Stripe
+ * Verifies the named project, or every project when no name is given.
+ * Fails when any project's keys are rejected.
+ */
+export async function verifyProjectsCommand(name?: string): Promise<void> {
+  const configManager = new ConfigManager();
+  const projects = name
+    ? [await configManager.getProject(name)]
+    : await configManager.listProjects();
+
+  if (projects.length === 0) {
+    throw new Error('No projects configured. Run "stripeconf setup" first.');
+  }
+
+  const allProjects = name ? await configManager.listProjects() : projects;
+  const results: VerifyResult[] = [];
+  for (const project of projects) {
+    const spinner = ora(`Verifying ${project.name}...`).start();
+    const result = await verifyProject(project);
+    if (result.valid) {
+      const access = result.capabilities
+        ? ` [${describeAccess(result.capabilities)}]`
+        : '';
+      spinner.succeed(
+        `${project.name} (${project.environment}) ${chalk.gray(`${result.accountId ?? ''}${access}`)}`
+      );
+      // Keep recorded capabilities in step with the key
+      if (
+        JSON.stringify(result.capabilities) !==
+        JSON.stringify(project.capabilities)
+      ) {
+        await configManager.updateProject(project.name, {
+          capabilities: result.capabilities,
+        });
+      }
+      apiVersionWarnings(
+        project,
+        allProjects,
+        result.accountApiVersion
+      ).forEach(warn);
+    } else {
+      spinner.fail(`${project.name} (${project.environment}): ${result.error}`);
+    }
+    results.push(result);
+  }
+
+  emit(results, { columns: VERIFY_COLUMNS });
+
+  const failed = results.filter((result) => !result.valid).length;
+  if (failed > 0) {
+    throw new Error(
+      `${failed} of ${results.length} project(s) failed verification`
+    );
+  }
+}
+
+/**
+ * Check that a new secret key belongs to the same account as the current one
+ * When the current key has already been revoked, the publishable key's
+ * account is checked instead. Returns the account ID.
+ */
+async function checkSameAccount(
+  project: ProjectConfig,
+  rotated: ProjectConfig
+): Promise<string> {
+  let account;
+  try {
+    account = await createPlatformClient(rotated).getPlatformAccount();
+  } catch (error) {
+    if (error instanceof StripeClientError && error.statusCode === 403) {
+      throw new ValidationError(
+        'The new key cannot read the account, so it cannot be compared with the current one. Grant it read access to Account, or replace the key with "stripeconf projects edit --secret-key".',
+        'secretKey'
+      );
+    }
+    throw error;
+  }
+
+  try {
+    const current = await createPlatformClient(project).getPlatformAccount();
+    if (current.id !== account.id) {
+      throw new ValidationError(
+        `The new secret key belongs to account ${account.id}, but the current one belongs to ${current.id}`,
+        'secretKey'
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof StripeClientError && error.statusCode === 401)) {
+      throw error;
+    }
+    checkKeyAccount(project.publishableKey, account.id);
+  }
+  return account.id;
+}
+
+/**
+ * projects rotate-key - Replace a project's secret key
+ * The new key must belong to the same Stripe account. The replaced key is
+ * kept as previousSecretKey for the grace period, then dropped.
+ */
+export async function rotateKeyCommand(
+  name: string | undefined,
+  options: RotateKeyOptions
+): Promise<void> {
+  if (options.secretKey && options.secretKeyStdin) {
+    throw new Error('Use either --secret-key or --secret-key-stdin, not both');
+  }
+
+  const configManager = new ConfigManager();
+  const missing = [
+    ...(name ? [] : ['<name>']),
+    ...(options.secretKey || options.secretKeyStdin ? [] : ['--secret-key']),
+  ];
+  const interactive = shouldPrompt(missing);
+
+  const projectName =
+    name || (await pickProject(configManager, 'rotate the key of'));
+  const project = await configManager.getProject(projectName);
+  if (project.secretKeyRef) {
+    throw new Error(
+      `Project "${project.name}" reads its secret key from ${project.secretKeyRef}. Update the referenced secret, then run "stripeconf projects verify ${project.name}".`
+    );
+  }
+
+  let secretKey = options.secretKeyStdin
+    ? await readStdin('--secret-key-stdin')
+    : options.secretKey;
+  if (interactive && !secretKey) {
+    const answers = await prompt([
+      {
+        type: 'password',
+        name: 'secretKey',
+        message: 'New secret key:',
+        mask: '*',
+        validate: validateSecretKey,
+      },
+    ]);
+    secretKey = answers.secretKey as string;
+  }
+
+  const valid = validateSecretKey(secretKey as string);
+  if (valid !== true) throw new ValidationError(valid, 'secretKey');
+  if (secretKey === project.secretKey) {
+    throw new Error('The new secret key is the same as the current one');
+  }
+
+  const rotated = { ...project, secretKey };
+  checkProjectKeys(rotated, secretKey);
+
+  const spinner = ora('Checking the new key...').start();
+  let accountId: string;
+  let capabilities: KeyCapabilities | undefined;
+  try {
+    accountId = await checkSameAccount(project, rotated);
+    const client = createPlatformClient(rotated);
+    capabilities = client.hasRestrictedKey()
+      ? await client.probeCapabilities()
+      : undefined;
+    spinner.succeed(`New key belongs to ${accountId}`);
+  } catch (error) {
+    spinner.fail('Failed to validate the new key');
+    throw error;
+  }
+
+  const gracePeriod = options.gracePeriod ?? DEFAULT_GRACE_PERIOD_HOURS;
+  const expiresAt = new Date(
+    Date.now() + gracePeriod * 60 * 60 * 1000
+  ).toISOString();
+  const updated = await configManager.updateProject(project.name, {
+    secretKey,
+    previousSecretKey: project.secretKey,
+    previousSecretKeyExpiresAt: expiresAt,
+    capabilities,
+  });
+
+  const env = { STRIPE_SECRET_KEY: secretKey as string };
+  emit(
+    {
+      name: updated.name,
+      accountId,
+      previousSecretKeyExpiresAt: expiresAt,
+      env,
+    },
+    {
+      columns: ['name', 'accountId', 'previousSecretKeyExpiresAt'],
+      text: () => {
+        log(chalk.green(`\n✓ Secret key of "${updated.name}" rotated!`));
+        log(
+          chalk.gray(`  Previous key kept until ${expiresAt} for rolling back`)
+        );
+        log(chalk.bold('\nUpdate these environment variables:\n'));
+        for (const [variable, value] of Object.entries(env)) {
+          log(`  ${variable}=${value}`);
+        }
+        log(
+          chalk.gray(
+            '\nRevoke the old key in the Stripe Dashboard once every deployment uses the new one.\n'
+          )
+        );
+      },
+    }
+  );
+}
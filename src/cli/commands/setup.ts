@@ -1,132 +1,360 @@
-import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../../core/config-manager.js';
-import { StripeClient } from '../../core/stripe-client.js';
 import type { ProjectConfig } from '../../core/types.js';
+import { ValidationError } from '../../core/types.js';
+import {
+  checkProjectKeys,
+  inferEnvironment,
+  usableResources,
+} from '../../core/keys.js';
+import { resolveSecretKey } from '../../core/secret-resolver.js';
+import { apiVersionWarnings, checkApiVersion } from '../../core/api-version.js';
+import {
+  createPlatformClient,
+  getProjectSelection,
+  readStdin,
+  shouldPrompt,
+  warn,
+} from '../utils.js';
+import { emit, log, prompt } from '../output.js';
+
+/**
+ * Flags for `setup`
+ */
+export interface SetupOptions {
+  name?: string;
+  environment?: 'test' | 'live';
+  publishableKey?: string;
+  secretKey?: string;
+  secretKeyRef?: string;
+  secretKeyStdin?: boolean;
+  webhookSecret?: string;
+  currency?: string;
+  /** Stripe API version to pin (--pin-api-version) */
+  pinApiVersion?: string;
+}
+
+export function validatePublishableKey(input: string): true | string {
+  if (!input.trim()) {
+    return 'Publishable key is required';
+  }
+  if (!input.startsWith('pk_')) {
+    return 'Invalid publishable key format (should start with pk_)';
+  }
+  return true;
+}
+
+export function validateSecretKey(input: string): true | string {
+  if (!input.trim()) {
+    return 'Secret key is required';
+  }
+  if (!input.startsWith('sk_') && !input.startsWith('rk_')) {
+    return 'Invalid secret key format (should start with sk_ or rk_)';
+  }
+  return true;
+}
+
+export function validateWebhookSecret(input: string): true | string {
+  if (input && !input.startsWith('whsec_')) {
+    return 'Invalid webhook secret format (should start with whsec_)';
+  }
+  return true;
+}
+
+export function validateCurrency(input: string): true | string {
+  if (!input.trim()) {
+    return 'Currency is required';
+  }
+  if (input.length !== 3) {
+    return 'Currency must be a 3-letter ISO code (e.g., usd, eur)';
+  }
+  return true;
+}
+
+/**
+ * Check flag values with the same rules as the prompts
+ */
+export function validateFlags(options: SetupOptions): void {
+  const checks: [
+    string,
+    string | undefined,
+    (input: string) => true | string,
+  ][] = [
+    ['--publishable-key', options.publishableKey, validatePublishableKey],
+    ['--secret-key', options.secretKey, validateSecretKey],
+    ['--webhook-secret', options.webhookSecret, validateWebhookSecret],
+    ['--currency', options.currency, validateCurrency],
+  ];
+
+  for (const [flag, value, validate] of checks) {
+    if (value === undefined) continue;
+    const result = validate(value);
+    if (result !== true) {
+      throw new Error(`${flag}: ${result}`);
+    }
+  }
+}
+
+/**
+ * Read a value from an environment variable, checked like the matching flag
+ */
+function fromEnvironment(
+  name: string,
+  validate: (input: string) => true | string
+): string | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+
+  const result = validate(value);
+  if (result !== true) {
+    throw new Error(`${name}: ${result}`);
+  }
+  return value;
+}
+
+/**
+ * Fill in values not given as flags from stdin and environment variables
+ * Flags win over --secret-key-stdin, which wins over STRIPE_SECRET_KEY,
+ * STRIPE_PUBLISHABLE_KEY and STRIPE_WEBHOOK_SECRET. The global --env
+ * stands in for --environment.
+ */
+async function resolveOptions(options: SetupOptions): Promise<SetupOptions> {
+  validateFlags(options);
+  if (options.pinApiVersion) checkApiVersion(options.pinApiVersion);
+
+  const secretKeySources = [
+    options.secretKey && '--secret-key',
+    options.secretKeyRef && '--secret-key-ref',
+    options.secretKeyStdin && '--secret-key-stdin',
+  ].filter(Boolean);
+  if (secretKeySources.length > 1) {
+    throw new Error(`Use only one of ${secretKeySources.join(', ')}`);
+  }
+
+  let secretKey = options.secretKey;
+  if (options.secretKeyStdin) {
+    secretKey = await readStdin('--secret-key-stdin');
+    const result = validateSecretKey(secretKey);
+    if (result !== true) {
+      throw new Error(`--secret-key-stdin: ${result}`);
+    }
+  } else if (!secretKey && !options.secretKeyRef) {
+    secretKey = fromEnvironment('STRIPE_SECRET_KEY', validateSecretKey);
+  }
+
+  return {
+    ...options,
+    environment: options.environment || getProjectSelection().environment,
+    secretKey,
+    publishableKey:
+      options.publishableKey ||
+      fromEnvironment('STRIPE_PUBLISHABLE_KEY', validatePublishableKey),
+    webhookSecret:
+      options.webhookSecret ||
+      fromEnvironment('STRIPE_WEBHOOK_SECRET', validateWebhookSecret),
+  };
+}
+
+/**
+ * Project details given as flags or answered at the setup prompts
+ */
+interface SetupAnswers {
+  name: string;
+  environment: 'test' | 'live';
+  publishableKey: string;
+  /** Not asked for when the key is given as --secret-key-ref */
+  secretKey?: string;
+  webhookSecret: string;
+  defaultCurrency: string;
+}
 
 /**
  * Setup command - Configure a new Stripe project
+ * Prompts for any required value not given as a flag, on stdin or in the
+ * environment
  */
-export async function setupCommand(): Promise<void> {
-  console.log(chalk.bold.blue('\n🔧 Stripe Project Setup\n'));
+export async function setupCommand(
+  setupOptions: SetupOptions = {}
+): Promise<void> {
+  log(chalk.bold.blue('\n🔧 Stripe Project Setup\n'));
 
   const configManager = new ConfigManager();
+  const options = await resolveOptions(setupOptions);
 
-  // Prompt for project details
-  const answers = await inquirer.prompt([
-    {
-      type: 'input',
-      name: 'name',
-      message: 'Project name:',
-      validate: (input: string) => {
-        if (!input.trim()) {
-          return 'Project name is required';
-        }
-        return true;
-      },
-    },
-    {
-      type: 'list',
-      name: 'environment',
-      message: 'Environment:',
-      choices: [
-        { name: 'Test', value: 'test' },
-        { name: 'Live', value: 'live' },
+  const provided = {
+    ...(options.name && { name: options.name }),
+    ...(options.environment && { environment: options.environment }),
+    ...(options.publishableKey && { publishableKey: options.publishableKey }),
+    ...(options.secretKey && { secretKey: options.secretKey }),
+    ...(options.webhookSecret && { webhookSecret: options.webhookSecret }),
+    ...(options.currency && { defaultCurrency: options.currency }),
+  };
+
+  const missing = [
+    ...(options.name ? [] : ['--name']),
+    ...(options.publishableKey ? [] : ['--publishable-key']),
+    ...(options.secretKey || options.secretKeyRef ? [] : ['--secret-key']),
+  ];
+
+  // Complete unless something is missing, in which case we prompt below
+  let answers = {
+    environment:
+      inferEnvironment(options.publishableKey, options.secretKey) || 'test',
+    webhookSecret: '',
+    defaultCurrency: 'usd',
+    ...provided,
+  } as SetupAnswers;
+
+  // Prompt for project details not given as flags
+  if (shouldPrompt(missing)) {
+    answers = await prompt<SetupAnswers>(
+      [
+        {
+          type: 'input',
+          name: 'name',
+          message: 'Project name:',
+          validate: (input: string) => {
+            if (!input.trim()) {
+              return 'Project name is required';
+            }
+            return true;
+          },
+        },
+        {
+          type: 'password',
+          name: 'publishableKey',
+          message: 'Publishable key:',
+          validate: validatePublishableKey,
+        },
+        {
+          type: 'password',
+          name: 'secretKey',
+          message: 'Secret key:',
+          validate: validateSecretKey,
+          when: () => !options.secretKeyRef,
+        },
+        {
+          type: 'list',
+          name: 'environment',
+          message: 'Environment:',
+          choices: [
+            { name: 'Test', value: 'test' },
+            { name: 'Live', value: 'live' },
+          ],
+          // Preselect what the key prefixes say
+          default: (current: Record<string, string>) =>
+            inferEnvironment(current.publishableKey, current.secretKey) ||
+            'test',
+        },
+        {
+          type: 'password',
+          name: 'webhookSecret',
+          message: 'Webhook secret (optional):',
+          validate: validateWebhookSecret,
+        },
+        {
+          type: 'input',
+          name: 'defaultCurrency',
+          message: 'Default currency:',
+          default: 'usd',
+          validate: validateCurrency,
+        },
       ],
-      default: 'test',
-    },
-    {
-      type: 'password',
-      name: 'publishableKey',
-      message: 'Publishable key:',
-      validate: (input: string) => {
-        if (!input.trim()) {
-          return 'Publishable key is required';
-        }
-        if (!input.startsWith('pk_')) {
-          return 'Invalid publishable key format (should start with pk_)';
-        }
-        return true;
-      },
-    },
-    {
-      type: 'password',
-      name: 'secretKey',
-      message: 'Secret key:',
-      validate: (input: string) => {
-        if (!input.trim()) {
-          return 'Secret key is required';
-        }
-        if (!input.startsWith('sk_')) {
-          return 'Invalid secret key format (should start with sk_)';
-        }
-        return true;
-      },
-    },
-    {
-      type: 'password',
-      name: 'webhookSecret',
-      message: 'Webhook secret (optional):',
-      validate: (input: string) => {
-        if (input && !input.startsWith('whsec_')) {
-          return 'Invalid webhook secret format (should start with whsec_)';
-        }
-        return true;
-      },
-    },
-    {
-      type: 'input',
-      name: 'defaultCurrency',
-      message: 'Default currency:',
-      default: 'usd',
-      validate: (input: string) => {
-        if (!input.trim()) {
-          return 'Currency is required';
-        }
-        if (input.length !== 3) {
-          return 'Currency must be a 3-letter ISO code (e.g., usd, eur)';
-        }
-        return true;
-      },
-    },
-  ]);
+      provided
+    );
+  }
+
+  const testProject: Omit<ProjectConfig, 'id' | 'createdAt' | 'updatedAt'> = {
+    name: answers.name,
+    environment: answers.environment,
+    publishableKey: answers.publishableKey,
+    ...(options.secretKeyRef
+      ? { secretKeyRef: options.secretKeyRef }
+      : { secretKey: answers.secretKey }),
+    webhookSecret: answers.webhookSecret || undefined,
+    defaultCurrency: answers.defaultCurrency.toLowerCase(),
+    ...(options.pinApiVersion && { apiVersion: options.pinApiVersion }),
+  };
+
+  // Catch test/live mix-ups before talking to Stripe
+  const secretKey = resolveSecretKey(testProject as ProjectConfig);
+  checkProjectKeys(testProject, secretKey);
 
   // Validate API keys by making a test request
   const spinner = ora('Validating API keys...').start();
+  let accountApiVersion: string | undefined;
 
   try {
-    const testProject: Omit<ProjectConfig, 'id' | 'createdAt' | 'updatedAt'> = {
-      name: answers.name,
-      environment: answers.environment,
-      publishableKey: answers.publishableKey,
-      secretKey: answers.secretKey,
-      webhookSecret: answers.webhookSecret || undefined,
-      defaultCurrency: answers.defaultCurrency.toLowerCase(),
-    };
-
-    // Test the API key by listing products (limit 1)
-    const stripeClient = new StripeClient(testProject as ProjectConfig);
-    await stripeClient.listProducts({ limit: 1 });
-
-    spinner.succeed('API keys validated successfully');
-
-    // Save the project configuration
-    const saveSpinner = ora('Saving configuration...').start();
-    const project = await configManager.addProject(testProject);
-    saveSpinner.succeed('Configuration saved');
-
-    console.log(chalk.green('\n✓ Project configured successfully!'));
-    console.log(chalk.gray(`  Project: ${project.name}`));
-    console.log(chalk.gray(`  Environment: ${project.environment}`));
-    console.log(chalk.gray(`  Currency: ${project.defaultCurrency}`));
-    console.log(
-      chalk.gray(`  Config: ${configManager.getConfigPath()}\n`)
+    // Test the API key by listing products (limit 1), then check that both
+    // keys belong to the same account. Restricted keys may not read
+    // products, so record which resources they can use instead.
+    const stripeClient = createPlatformClient(
+      testProject as ProjectConfig,
+      secretKey
     );
+    if (stripeClient.hasRestrictedKey()) {
+      testProject.capabilities = await stripeClient.probeCapabilities();
+      if (usableResources(testProject.capabilities).length === 0) {
+        throw new ValidationError(
+          'The restricted key cannot read products, prices, accounts or webhook endpoints',
+          'secretKey'
+        );
+      }
+    } else {
+      await stripeClient.listProducts({ limit: 1 });
+    }
+    await stripeClient.verifyKeys();
+    // Only pinned versions are compared; the check is best effort
+    accountApiVersion = testProject.apiVersion
+      ? await stripeClient.getAccountApiVersion().catch(() => undefined)
+      : undefined;
   } catch (error: any) {
     spinner.fail('Failed to validate API keys');
-    throw new Error(
-      `Invalid API keys or network error: ${error.message}`
-    );
+    if (error instanceof ValidationError) throw error;
+    throw new Error(`Invalid API keys or network error: ${error.message}`);
   }
+
+  spinner.succeed('API keys validated successfully');
+
+  // Save the project configuration
+  const saveSpinner = ora('Saving configuration...').start();
+  const project = await configManager.addProject(testProject);
+  saveSpinner.succeed('Configuration saved');
+  apiVersionWarnings(
+    project,
+    await configManager.listProjects(),
+    accountApiVersion
+  ).forEach(warn);
+
+  emit(
+    {
+      name: project.name,
+      environment: project.environment,
+      defaultCurrency: project.defaultCurrency,
+      ...(project.apiVersion && { apiVersion: project.apiVersion }),
+      ...(project.capabilities && { capabilities: project.capabilities }),
+      configPath: configManager.getConfigPath(),
+    },
+    {
+      columns: ['name', 'environment', 'defaultCurrency', 'configPath'],
+      text: () => {
+        log(chalk.green('\n✓ Project configured successfully!'));
+        log(chalk.gray(`  Project: ${project.name}`));
+        log(chalk.gray(`  Environment: ${project.environment}`));
+        log(chalk.gray(`  Currency: ${project.defaultCurrency}`));
+        if (project.apiVersion) {
+          log(chalk.gray(`  API version: ${project.apiVersion}`));
+        }
+        if (project.capabilities) {
+          log(
+            chalk.gray(
+              `  Access: ${usableResources(project.capabilities).join(', ')}`
+            )
+          );
+        }
+        log(chalk.gray(`  Config: ${configManager.getConfigPath()}\n`));
+      },
+    }
+  );
 }
@@ -1,77 +1,683 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { setupCommand } from './commands/setup.js';
-import { productsCommand } from './commands/products.js';
-import { pricesCommand } from './commands/prices.js';
-import { connectCommand } from './commands/connect.js';
+import type { SetupOptions } from './commands/setup.js';
+import {
+  projectsCommand,
+  listProjectsCommand,
+  showProjectCommand,
+  editProjectCommand,
+  renameProjectCommand,
+  deleteProjectCommand,
+  setDefaultProjectCommand,
+  verifyProjectsCommand,
+  rotateKeyCommand,
+} from './commands/projects.js';
+import type {
+  EditProjectOptions,
+  RotateKeyOptions,
+} from './commands/projects.js';
+import {
+  productsCommand,
+  listProductsCommand,
+  getProductCommand,
+  createProductCommand,
+  updateProductCommand,
+  deleteProductCommand,
+} from './commands/products.js';
+import type {
+  CreateProductOptions,
+  UpdateProductOptions,
+} from './commands/products.js';
+import {
+  pricesCommand,
+  listPricesCommand,
+  getPriceCommand,
+  createPriceCommand,
+  updatePriceCommand,
+  archivePriceCommand,
+} from './commands/prices.js';
+import type {
+  CreatePriceOptions,
+  UpdatePriceOptions,
+} from './commands/prices.js';
+import {
+  connectCommand,
+  connectStatusCommand,
+  connectSetupCommand,
+  listAccountsCommand,
+  getAccountCommand,
+  createAccountCommand,
+  createLinkCommand,
+  listWebhooksCommand,
+  createWebhookCommand,
+} from './commands/connect.js';
+import type {
+  ConnectStatusOptions,
+  ConnectSetupOptions,
+  CreateAccountOptions,
+  CreateLinkOptions,
+  CreateWebhookOptions,
+} from './commands/connect.js';
+import {
+  encryptConfigCommand,
+  decryptConfigCommand,
+} from './commands/config.js';
+import {
+  planCommand,
+  applyCommand,
+  exportCommand,
+  promoteCommand,
+} from './commands/catalog.js';
+import {
+  collect,
+  errorHint,
+  parseAmount,
+  parsePositiveInt,
+  requireMenu,
+  setApiVersion,
+  setConnectedAccount,
+  setDryRun,
+  setProjectSelection,
+  setVerbose,
+  warn,
+  unlockConfig,
+} from './utils.js';
+import type { ProjectSelection } from './utils.js';
+import { OUTPUT_FORMATS, setOutputFormat } from './output.js';
+import type { OutputFormat } from './output.js';
+import { StripeClientError } from '../core/types.js';
 
 // Read version from package.json
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
-const pkg = JSON.parse(readFileSync(join(__dirname, '../../package.json'), 'utf-8'));
+const pkg = JSON.parse(
+  readFileSync(join(__dirname, '../../package.json'), 'utf-8')
+);
+
+const IDEMPOTENCY_KEY_HELP =
+  'Idempotency key for the request (derived from the input and account by default)';
+
+/**
+ * Print an error and exit
+ */
+function fail(error: unknown): never {
+  console.error(chalk.red('Error:'), (error as Error).message);
+  if (error instanceof StripeClientError) {
+    const hint = errorHint(error);
+    if (hint) console.error(chalk.yellow(`Hint: ${hint}`));
+    if (error.docUrl) console.error(chalk.gray(`Docs: ${error.docUrl}`));
+    if (error.requestId) {
+      console.error(chalk.gray(`Stripe request ID: ${error.requestId}`));
+    }
+  }
+  process.exit(1);
+}
+
+/**
+ * Wrap a command action with the shared error handling
+ */
+function run<A extends unknown[]>(
+  action: (...args: A) => Promise<void>
+): (...args: A) => Promise<void> {
+  return async (...args: A) => {
+    try {
+      await action(...args);
+    } catch (error: any) {
+      fail(error);
+    }
+  };
+}
+
+/**
+ * Map --active / --inactive to an active filter
+ */
+function activeFilter(options: {
+  active?: boolean;
+  inactive?: boolean;
+}): boolean | undefined {
+  if (options.active && options.inactive) {
+    throw new Error('Use either --active or --inactive, not both');
+  }
+  if (options.active) return true;
+  if (options.inactive) return false;
+  return undefined;
+}
 
 const program = new Command();
 
 program
   .name('stripeconf')
-  .description('CLI tool for managing Stripe products, prices, and Connect accounts')
+  .description(
+    'CLI tool for managing Stripe products, prices, and Connect accounts'
+  )
   .version(pkg.version, '-v, --version');
 
+// Global options, applied before any command runs
+program
+  .option(
+    '-p, --project <name>',
+    'Project to use (defaults to $STRIPECONF_PROJECT, then the default project)'
+  )
+  .addOption(
+    new Option(
+      '--env <environment>',
+      'Only use projects of this environment'
+    ).choices(['test', 'live'])
+  )
+  .addOption(
+    new Option('-o, --output <format>', 'Output format')
+      .choices(OUTPUT_FORMATS)
+      .default('text')
+  )
+  .option('--json', 'Shorthand for --output json')
+  .option(
+    '--account <id>',
+    'Connected account (acct_...) for product, price, webhook and catalog commands (defaults to $STRIPECONF_ACCOUNT)'
+  )
+  .option(
+    '--api-version <version>',
+    "Stripe API version for this run, overriding the project's (e.g. 2024-06-20)"
+  )
+  .option(
+    '--verbose',
+    'Log Stripe requests, responses and errors to stderr (or set $STRIPECONF_DEBUG)'
+  )
+  .option(
+    '--dry-run',
+    'Validate and print Stripe creates, updates and deletes without sending them'
+  )
+  .hook('preAction', async () => {
+    const { project, env, output, json, account, apiVersion, verbose, dryRun } =
+      program.opts<{
+        project?: string;
+        env?: ProjectSelection['environment'];
+        output: OutputFormat;
+        json?: boolean;
+        account?: string;
+        apiVersion?: string;
+        verbose?: boolean;
+        dryRun?: boolean;
+      }>();
+    const debug = process.env.STRIPECONF_DEBUG;
+    setProjectSelection({ project, environment: env });
+    setConnectedAccount(
+      account ?? (process.env.STRIPECONF_ACCOUNT || undefined)
+    );
+    setApiVersion(apiVersion);
+    setVerbose(Boolean(verbose) || (Boolean(debug) && debug !== '0'));
+    setDryRun(Boolean(dryRun));
+    if (dryRun) warn('Dry run: no changes will be sent to Stripe');
+    setOutputFormat(json ? 'json' : output);
+    await unlockConfig();
+  });
+
 // Setup command
 program
   .command('setup')
   .description('Configure a new Stripe project')
-  .action(async () => {
-    try {
-      await setupCommand();
-    } catch (error: any) {
-      console.error(chalk.red('Error:'), error.message);
-      process.exit(1);
-    }
-  });
+  .option('--name <name>', 'Project name')
+  .addOption(
+    new Option(
+      '--environment <env>',
+      'Stripe environment (the global --env works too)'
+    ).choices(['test', 'live'])
+  )
+  .option(
+    '--publishable-key <key>',
+    'Publishable key (pk_..., defaults to $STRIPE_PUBLISHABLE_KEY)'
+  )
+  .option(
+    '--secret-key <key>',
+    'Secret key (sk_..., defaults to $STRIPE_SECRET_KEY)'
+  )
+  .option('--secret-key-stdin', 'Read the secret key from stdin')
+  .option(
+    '--secret-key-ref <ref>',
+    'Read the secret key from env:NAME, cmd:<command> or keychain:service[/account] instead of storing it'
+  )
+  .option(
+    '--webhook-secret <secret>',
+    'Webhook signing secret (whsec_..., defaults to $STRIPE_WEBHOOK_SECRET)'
+  )
+  .option('--currency <code>', 'Default currency (ISO 4217 code)')
+  .option(
+    '--pin-api-version <version>',
+    'Stripe API version the project pins (e.g. 2024-06-20)'
+  )
+  .action(run((options: SetupOptions) => setupCommand(options)));
 
-// Products command
-program
+// Projects commands
+const projects = program
+  .command('projects')
+  .description(
+    'Manage configured projects (interactive menu without a subcommand)'
+  )
+  .action(
+    run(async (_options: object, command: Command) => {
+      requireMenu('projects', command.args);
+      await projectsCommand();
+    })
+  );
+
+projects
+  .command('list')
+  .description('List projects with masked keys')
+  .action(run(() => listProjectsCommand()));
+
+projects
+  .command('show [name]')
+  .description('Show project details with masked keys')
+  .action(run((name?: string) => showProjectCommand(name)));
+
+projects
+  .command('edit [name]')
+  .description('Change keys, environment or currency of a project')
+  .addOption(
+    new Option('--environment <env>', 'Stripe environment').choices([
+      'test',
+      'live',
+    ])
+  )
+  .option('--publishable-key <key>', 'New publishable key (pk_...)')
+  .option('--secret-key <key>', 'New secret key (sk_...)')
+  .option(
+    '--secret-key-ref <ref>',
+    'Read the secret key from env:NAME, cmd:<command> or keychain:service[/account]'
+  )
+  .option('--webhook-secret <secret>', 'New webhook signing secret (whsec_...)')
+  .option('--currency <code>', 'New default currency (ISO 4217 code)')
+  .option(
+    '--pin-api-version <version>',
+    'Stripe API version the project pins (e.g. 2024-06-20)'
+  )
+  .option('--no-verify', 'Save without checking changed keys against Stripe')
+  .action(
+    run((name: string | undefined, options: EditProjectOptions) =>
+      editProjectCommand(name, options)
+    )
+  );
+
+projects
+  .command('rename [name] [new-name]')
+  .description('Rename a project')
+  .action(
+    run((name?: string, newName?: string) =>
+      renameProjectCommand(name, newName)
+    )
+  );
+
+projects
+  .command('delete [name]')
+  .description('Remove a project and its keys from the config')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(
+    run((name: string | undefined, options: { yes?: boolean }) =>
+      deleteProjectCommand(name, options)
+    )
+  );
+
+projects
+  .command('set-default [name]')
+  .description('Set the project used when none is selected')
+  .action(run((name?: string) => setDefaultProjectCommand(name)));
+
+projects
+  .command('verify [name]')
+  .description('Check API keys against Stripe (all projects without a name)')
+  .action(run((name?: string) => verifyProjectsCommand(name)));
+
+projects
+  .command('rotate-key [name]')
+  .description(
+    'Replace the secret key with a new one for the same Stripe account'
+  )
+  .option('--secret-key <key>', 'New secret key (sk_... or rk_...)')
+  .option('--secret-key-stdin', 'Read the new secret key from stdin')
+  .option(
+    '--grace-period <hours>',
+    'Hours to keep the previous key for rolling back (default: 24)',
+    parsePositiveInt
+  )
+  .action(
+    run((name: string | undefined, options: RotateKeyOptions) =>
+      rotateKeyCommand(name, options)
+    )
+  );
+
+// Products commands
+const products = program
   .command('products')
-  .description('Manage Stripe products')
-  .action(async () => {
-    try {
+  .description('Manage Stripe products (interactive menu without a subcommand)')
+  .action(
+    run(async (_options: object, command: Command) => {
+      requireMenu('products', command.args);
       await productsCommand();
-    } catch (error: any) {
-      console.error(chalk.red('Error:'), error.message);
-      process.exit(1);
-    }
-  });
+    })
+  );
 
-// Prices command
-program
+products
+  .command('list')
+  .description('List products')
+  .option('--active', 'Only active products')
+  .option('--inactive', 'Only inactive products')
+  .option('--limit <n>', 'Maximum number of products', parsePositiveInt)
+  .action(
+    run((options: { active?: boolean; inactive?: boolean; limit?: number }) =>
+      listProductsCommand({
+        active: activeFilter(options),
+        limit: options.limit,
+      })
+    )
+  );
+
+products
+  .command('get [id]')
+  .description('Show product details')
+  .action(run((id?: string) => getProductCommand(id)));
+
+products
+  .command('create')
+  .description('Create a product')
+  .option('--name <name>', 'Product name')
+  .option('--description <text>', 'Product description')
+  .option('--inactive', 'Create the product as inactive')
+  .option('--image <url>', 'Image URL (repeatable)', collect)
+  .option('--metadata <key=value>', 'Metadata entry (repeatable)', collect)
+  .option('--idempotency-key <key>', IDEMPOTENCY_KEY_HELP)
+  .action(
+    run((options: CreateProductOptions) => createProductCommand(options))
+  );
+
+products
+  .command('update [id]')
+  .description('Update a product')
+  .option('--name <name>', 'New name')
+  .option('--description <text>', 'New description')
+  .option('--active', 'Mark the product as active')
+  .option('--inactive', 'Mark the product as inactive')
+  .option('--metadata <key=value>', 'Metadata entry (repeatable)', collect)
+  .action(
+    run((id: string | undefined, options: UpdateProductOptions) =>
+      updateProductCommand(id, options)
+    )
+  );
+
+products
+  .command('delete [id]')
+  .description('Delete a product')
+  .option('-y, --yes', 'Delete without asking for confirmation')
+  .action(
+    run((id: string | undefined, options: { yes?: boolean }) =>
+      deleteProductCommand(id, options)
+    )
+  );
+
+// Prices commands
+const prices = program
   .command('prices')
-  .description('Manage Stripe prices')
-  .action(async () => {
-    try {
+  .description('Manage Stripe prices (interactive menu without a subcommand)')
+  .action(
+    run(async (_options: object, command: Command) => {
+      requireMenu('prices', command.args);
       await pricesCommand();
-    } catch (error: any) {
-      console.error(chalk.red('Error:'), error.message);
-      process.exit(1);
-    }
-  });
+    })
+  );
 
-// Connect command
-program
+prices
+  .command('list')
+  .description('List prices')
+  .option('--product <id>', 'Only prices of this product')
+  .option('--active', 'Only active prices')
+  .option('--inactive', 'Only inactive prices')
+  .option('--limit <n>', 'Maximum number of prices', parsePositiveInt)
+  .action(
+    run(
+      (options: {
+        product?: string;
+        active?: boolean;
+        inactive?: boolean;
+        limit?: number;
+      }) =>
+        listPricesCommand({
+          product: options.product,
+          active: activeFilter(options),
+          limit: options.limit,
+        })
+    )
+  );
+
+prices
+  .command('get [id]')
+  .description('Show price details')
+  .action(run((id?: string) => getPriceCommand(id)));
+
+prices
+  .command('create')
+  .description('Create a price')
+  .option('--product <id>', 'Product the price belongs to')
+  .option('--currency <code>', 'Currency (defaults to the project currency)')
+  .option('--amount <cents>', 'Unit amount in cents', parseAmount)
+  .addOption(
+    new Option(
+      '--interval <interval>',
+      'Billing interval (recurring prices)'
+    ).choices(['day', 'week', 'month', 'year'])
+  )
+  .option(
+    '--interval-count <n>',
+    'Intervals between billings',
+    parsePositiveInt
+  )
+  .addOption(
+    new Option('--usage-type <type>', 'Usage type (recurring prices)').choices([
+      'licensed',
+      'metered',
+    ])
+  )
+  .option('--nickname <text>', 'Price nickname')
+  .option('--lookup-key <key>', 'Lookup key')
+  .option('--inactive', 'Create the price as inactive')
+  .option('--metadata <key=value>', 'Metadata entry (repeatable)', collect)
+  .option('--idempotency-key <key>', IDEMPOTENCY_KEY_HELP)
+  .action(run((options: CreatePriceOptions) => createPriceCommand(options)));
+
+prices
+  .command('update [id]')
+  .description('Update a price')
+  .option('--active', 'Mark the price as active')
+  .option('--inactive', 'Mark the price as inactive')
+  .option('--nickname <text>', 'New nickname')
+  .option('--lookup-key <key>', 'New lookup key')
+  .option('--metadata <key=value>', 'Metadata entry (repeatable)', collect)
+  .action(
+    run((id: string | undefined, options: UpdatePriceOptions) =>
+      updatePriceCommand(id, options)
+    )
+  );
+
+prices
+  .command('archive [id]')
+  .description('Archive a price')
+  .option('-y, --yes', 'Archive without asking for confirmation')
+  .action(
+    run((id: string | undefined, options: { yes?: boolean }) =>
+      archivePriceCommand(id, options)
+    )
+  );
+
+// Connect commands
+const connect = program
   .command('connect')
-  .description('Manage Stripe Connect accounts')
-  .action(async () => {
-    try {
+  .description(
+    'Manage Stripe Connect accounts (interactive menu without a subcommand)'
+  )
+  .action(
+    run(async (_options: object, command: Command) => {
+      requireMenu('connect', command.args);
       await connectCommand();
-    } catch (error: any) {
-      console.error(chalk.red('Error:'), error.message);
-      process.exit(1);
-    }
-  });
+    })
+  );
+
+connect
+  .command('status')
+  .description('Check the platform account and Connect readiness')
+  .option('--org-id <id>', 'Save this Stripe organization ID (org_...)')
+  .action(
+    run((options: ConnectStatusOptions) => connectStatusCommand(options))
+  );
+
+connect
+  .command('setup')
+  .description('Set up the platform: org ID, webhook endpoint and env vars')
+  .option('--org-id <id>', 'Stripe organization ID (org_...)')
+  .option('--webhook-url <url>', 'Webhook endpoint URL')
+  .option('--event <event>', 'Webhook event (repeatable)', collect)
+  .action(run((options: ConnectSetupOptions) => connectSetupCommand(options)));
+
+const accounts = connect
+  .command('accounts')
+  .description('Manage connected accounts');
+
+accounts
+  .command('list')
+  .description('List connected accounts')
+  .option('--limit <n>', 'Maximum number of accounts', parsePositiveInt)
+  .action(run((options: { limit?: number }) => listAccountsCommand(options)));
+
+accounts
+  .command('get [account]')
+  .description('Show connected account details')
+  .action(run((account?: string) => getAccountCommand(account)));
+
+accounts
+  .command('create')
+  .description('Create a connected account')
+  .addOption(
+    new Option('--type <type>', 'Account type')
+      .choices(['express', 'standard', 'custom'])
+      .default('express')
+  )
+  .option('--country <code>', 'Two-letter country code', 'US')
+  .option('--email <email>', 'Account email')
+  .addOption(
+    new Option('--business-type <type>', 'Business type')
+      .choices(['individual', 'company', 'non_profit', 'government_entity'])
+      .default('individual')
+  )
+  .option(
+    '--capability <name>',
+    'Requested capability, card_payments or transfers (repeatable, default both)',
+    collect
+  )
+  .option('--metadata <key=value>', 'Metadata entry (repeatable)', collect)
+  .option('--idempotency-key <key>', IDEMPOTENCY_KEY_HELP)
+  .action(
+    run((options: CreateAccountOptions) => createAccountCommand(options))
+  );
+
+accounts
+  .command('link [account]')
+  .description('Generate an onboarding or update link')
+  .option('--refresh-url <url>', 'Redirect URL if the link expires')
+  .option('--return-url <url>', 'Redirect URL after onboarding')
+  .addOption(
+    new Option('--type <type>', 'Link type').choices([
+      'account_onboarding',
+      'account_update',
+    ])
+  )
+  .option('--idempotency-key <key>', IDEMPOTENCY_KEY_HELP)
+  .action(
+    run((account: string | undefined, options: CreateLinkOptions) =>
+      createLinkCommand(account, options)
+    )
+  );
+
+const webhooks = connect
+  .command('webhooks')
+  .description('Manage webhook endpoints');
+
+webhooks
+  .command('list')
+  .description('List webhook endpoints')
+  .action(run(() => listWebhooksCommand()));
+
+webhooks
+  .command('create')
+  .description('Create a webhook endpoint')
+  .option('--url <url>', 'Endpoint URL')
+  .option('--event <event>', 'Event to send (repeatable)', collect)
+  .option('--description <text>', 'Endpoint description')
+  .option('--idempotency-key <key>', IDEMPOTENCY_KEY_HELP)
+  .action(
+    run((options: CreateWebhookOptions) => createWebhookCommand(options))
+  );
+
+// Plan command
+program
+  .command('plan [file]')
+  .description('Show changes needed to make Stripe match a catalog file')
+  .action(run((file?: string) => planCommand(file)));
+
+// Apply command
+program
+  .command('apply [file]')
+  .description('Create, update or archive objects to match a catalog file')
+  .option('-y, --yes', 'Apply without asking for confirmation')
+  .action(
+    run((file: string | undefined, options: { yes?: boolean }) =>
+      applyCommand(file, options)
+    )
+  );
+
+// Export command
+program
+  .command('export [file]')
+  .description('Export products and prices to a catalog file')
+  .option('-f, --format <format>', 'Output format (json or yaml)')
+  .option('--include-inactive', 'Include archived products and prices')
+  .action(
+    run(
+      (
+        file: string | undefined,
+        options: { format?: string; includeInactive?: boolean }
+      ) => exportCommand(file, options)
+    )
+  );
+
+// Promote command
+program
+  .command('promote')
+  .description('Copy products and prices from one project to another')
+  .requiredOption('--from <project>', 'Source project (usually test)')
+  .requiredOption('--to <project>', 'Target project (usually live)')
+  .option('-y, --yes', 'Apply without asking for confirmation')
+  .action(
+    run((options: { from: string; to: string; yes?: boolean }) =>
+      promoteCommand(options)
+    )
+  );
+
+// Config commands
+const config = program.command('config').description('Manage the config file');
+
+config
+  .command('encrypt')
+  .description(
+    'Encrypt secret keys with a passphrase (uses $STRIPECONF_PASSPHRASE if set)'
+  )
+  .action(run(() => encryptConfigCommand()));
+
+config
+  .command('decrypt')
+  .description('Store secret keys as plaintext again')
+  .option('-y, --yes', 'Decrypt without asking for confirmation')
+  .action(run((options: { yes?: boolean }) => decryptConfigCommand(options)));
 
-program.parse();
\ No newline at end of file
+program.parseAsync().catch(fail);
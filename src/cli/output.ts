@@ -0,0 +1,142 @@
+import inquirer from 'inquirer';
+import type { PromptFunction, PromptModule } from 'inquirer';
+import { stringify } from 'yaml';
+
+/**
+ * Output formats accepted by --output
+ * `text` is the default coloured, human-readable output.
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'yaml', 'table', 'csv'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+let currentFormat: OutputFormat = 'text';
+
+/**
+ * Select the output format for the rest of the process
+ * Structured formats reserve stdout for the result: messages printed with
+ * log() and prompts shown with prompt() go to stderr instead.
+ */
+export function setOutputFormat(format: OutputFormat): void {
+  currentFormat = format;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return currentFormat;
+}
+
+/**
+ * Whether results are written as data rather than text
+ */
+export function isStructuredOutput(): boolean {
+  return currentFormat !== 'text';
+}
+
+/**
+ * Print a human-readable message: to stdout for text output, to stderr
+ * when stdout carries a structured result
+ */
+export function log(...args: unknown[]): void {
+  if (isStructuredOutput()) console.error(...args);
+  else console.log(...args);
+}
+
+let stderrPrompt: PromptModule | undefined;
+
+/**
+ * Ask questions with inquirer; drawn on stderr when stdout carries a
+ * structured result
+ */
+export const prompt: PromptFunction = (questions, initialAnswers) => {
+  if (!isStructuredOutput()) return inquirer.prompt(questions, initialAnswers);
+  stderrPrompt ??= inquirer.createPromptModule({ output: process.stderr });
+  return stderrPrompt(questions, initialAnswers);
+};
+
+/**
+ * Options for {@link emit}
+ */
+export interface EmitOptions {
+  /** Fields (dot paths) shown as columns in table and csv output */
+  columns: string[];
+  /** Items listed in table and csv output when `data` is not itself a list */
+  rows?: unknown[];
+  /** Prints the human-readable output; omit when it was already printed */
+  text?: () => void;
+}
+
+/**
+ * Write a command result in the selected format
+ * JSON and YAML include the full objects; table and csv show `columns`.
+ */
+export function emit(data: unknown, options: EmitOptions): void {
+  switch (currentFormat) {
+    case 'text':
+      options.text?.();
+      return;
+    case 'json':
+      process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+      return;
+    case 'yaml':
+      process.stdout.write(stringify(data));
+      return;
+    case 'table':
+      process.stdout.write(
+        formatTable(toRows(options.rows ?? data, options.columns))
+      );
+      return;
+    case 'csv':
+      process.stdout.write(
+        formatCsv(toRows(options.rows ?? data, options.columns))
+      );
+      return;
+  }
+}
+
+function getPath(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>(
+      (current, key) =>
+        current && typeof current === 'object'
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function toRows(data: unknown, columns: string[]): string[][] {
+  const items = Array.isArray(data) ? data : [data];
+  return [
+    columns,
+    ...items.map((item) => columns.map((c) => formatCell(getPath(item, c)))),
+  ];
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, i) =>
+    Math.max(...rows.map((row) => row[i].length))
+  );
+  return rows
+    .map((row) =>
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join('  ')
+        .trimEnd()
+    )
+    .map((line, i) => (i === 0 ? line.toUpperCase() : line))
+    .join('\n')
+    .concat('\n');
+}
+
+function formatCsv(rows: string[][]): string {
+  const escape = (cell: string) =>
+    /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return rows.map((row) => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
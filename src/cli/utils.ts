@@ -0,0 +1,466 @@
+import chalk from 'chalk';
+import { InvalidArgumentError } from 'commander';
+import { ConfigManager } from '../core/config-manager.js';
+import { StripeClient } from '../core/stripe-client.js';
+import { canUse } from '../core/keys.js';
+import { checkApiVersion } from '../core/api-version.js';
+import { createConsoleLogger } from '../core/logger.js';
+import type {
+  KeyResource,
+  ProjectConfig,
+  RetryEvent,
+  StripeClientEvent,
+  StripeClientOptions,
+  StripeErrorKind,
+} from '../core/types.js';
+import type { StripeClientError } from '../core/types.js';
+import { log, prompt } from './output.js';
+
+/**
+ * Whether prompts can be shown (stdin is a terminal)
+ */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY);
+}
+
+/**
+ * Decide whether to fall back to prompts for missing required flags
+ * Returns false when nothing is missing and throws when stdin is not a
+ * terminal, so scripts fail fast instead of hanging on a prompt.
+ */
+export function shouldPrompt(missing: string[]): boolean {
+  if (missing.length === 0) return false;
+  if (isInteractive()) return true;
+
+  throw new Error(`Missing required option(s): ${missing.join(', ')}`);
+}
+
+/**
+ * Ask for confirmation unless --yes was given
+ */
+export async function confirmAction(
+  message: string,
+  yes?: boolean
+): Promise<boolean> {
+  if (yes) return true;
+  if (!isInteractive()) {
+    throw new Error(
+      'Confirmation required: pass --yes to run non-interactively'
+    );
+  }
+
+  const { confirm } = await prompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message,
+      default: false,
+    },
+  ]);
+  return confirm;
+}
+
+/**
+ * Commander parser for repeatable options (e.g. --metadata a=1 --metadata b=2)
+ */
+export function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Commander parser for positive integer options
+ */
+export function parsePositiveInt(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+/**
+ * Commander parser for non-negative integer options (amounts in cents)
+ */
+export function parseAmount(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError(
+      'Must be a whole number of cents (0 or greater).'
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Parse key=value pairs into a metadata object
+ */
+export function parseKeyValuePairs(pairs: string[]): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const pair of pairs) {
+    const index = pair.indexOf('=');
+    if (index <= 0) {
+      throw new Error(`Invalid key=value pair: "${pair}"`);
+    }
+    result[pair.slice(0, index).trim()] = pair.slice(index + 1);
+  }
+
+  return result;
+}
+
+/**
+ * Read a value piped to stdin, such as a secret key
+ * @param flag Flag that asked for stdin, named in errors
+ */
+export async function readStdin(
+  flag: string,
+  stream: NodeJS.ReadStream | NodeJS.ReadableStream = process.stdin
+): Promise<string> {
+  if ((stream as NodeJS.ReadStream).isTTY) {
+    throw new Error(
+      `${flag} reads from stdin; pipe the value in (e.g. printenv KEY | stripeconf ...)`
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+
+  const value = Buffer.concat(chunks).toString('utf-8').trim();
+  if (!value) {
+    throw new Error(`${flag}: nothing was read from stdin`);
+  }
+  return value;
+}
+
+/**
+ * Mask a key for display, keeping its prefix and last four characters
+ * (e.g. sk_test_…4242)
+ */
+export function maskKey(key: string): string {
+  const prefix = /^[a-z]+_(?:test_|live_)?/.exec(key)?.[0] || '';
+  if (key.length - prefix.length <= 8) return `${prefix}****`;
+  return `${prefix}…${key.slice(-4)}`;
+}
+
+const ERROR_HINTS: Record<StripeErrorKind, string | undefined> = {
+  card: 'The card was declined or its details are invalid; try another card or a test card number.',
+  invalid_request:
+    'Check the IDs and options given; the object may not exist in this project (or under --account).',
+  authentication:
+    'The API key was rejected. Check it with "stripeconf projects verify" or replace it with "stripeconf projects rotate-key".',
+  permission:
+    'The key may not do this. Grant the restricted key access in the Stripe dashboard, or use a full secret key.',
+  rate_limit:
+    'Stripe is rate limiting this account. Wait a moment and try again.',
+  idempotency:
+    'This idempotency key was already used with different parameters. Pass a new --idempotency-key.',
+  connection:
+    'Stripe could not be reached. Check your network connection and proxy settings.',
+  api: 'Stripe had a problem handling the request. Try again later, and check https://status.stripe.com.',
+  unknown: undefined,
+};
+
+/**
+ * Remediation hint for a failed Stripe request, if there is one
+ */
+export function errorHint(error: StripeClientError): string | undefined {
+  if (error.kind === 'invalid_request' && error.param) {
+    return `Check the value given for "${error.param}".`;
+  }
+  return ERROR_HINTS[error.kind];
+}
+
+/**
+ * Print a warning to stderr, keeping stdout for results
+ */
+export function warn(message: string): void {
+  console.error(chalk.yellow(`⚠ ${message}`));
+}
+
+/**
+ * Warn that a Stripe request failed and is about to be retried
+ */
+function logRetry(event: RetryEvent): void {
+  const seconds = (event.delayMs / 1000).toFixed(1);
+  const key = event.idempotencyKey
+    ? `, idempotency key ${event.idempotencyKey}`
+    : '';
+  warn(
+    `${event.operation} failed (${event.error.message}), retrying in ${seconds}s (attempt ${event.attempt + 1}/${event.maxAttempts}${key})`
+  );
+}
+
+const debugLog = createConsoleLogger((line) => console.error(chalk.gray(line)));
+const dryRunLog = createConsoleLogger((line) =>
+  console.error(chalk.cyan(line))
+);
+
+let verbose = false;
+
+/**
+ * Show the requests a dry run skips and, with --verbose, trace requests,
+ * responses and failures; retries are already warned about by logRetry
+ */
+function logEvent(event: StripeClientEvent): void {
+  if (event.type === 'dry_run') dryRunLog(event);
+  else if (verbose && event.type !== 'retry') debugLog(event);
+}
+
+let clientOptions: StripeClientOptions = {
+  onRetry: logRetry,
+  onEvent: logEvent,
+};
+
+/**
+ * Turn request tracing (--verbose / STRIPECONF_DEBUG) on or off
+ */
+export function setVerbose(enabled: boolean): void {
+  verbose = enabled;
+}
+
+/**
+ * Turn dry-run mode (--dry-run) on or off: creates, updates and deletes
+ * are validated and printed instead of sent to Stripe
+ */
+export function setDryRun(enabled: boolean): void {
+  clientOptions = { ...clientOptions, dryRun: enabled };
+}
+
+/**
+ * Whether --dry-run is on
+ */
+export function isDryRun(): boolean {
+  return clientOptions.dryRun === true;
+}
+
+/**
+ * Set the API version (--api-version) every client uses, overriding the
+ * projects' own
+ */
+export function setApiVersion(version: string | undefined): void {
+  if (version) checkApiVersion(version);
+  clientOptions = { ...clientOptions, apiVersion: version };
+}
+
+let connectedAccount: string | undefined;
+
+/**
+ * Set the connected account (--account) that product, price, webhook and
+ * catalog commands act on
+ */
+export function setConnectedAccount(accountId: string | undefined): void {
+  connectedAccount = accountId;
+}
+
+/**
+ * Create a StripeClient for a project with the CLI's client options
+ * Acts on the connected account given with --account, if any.
+ */
+export function createStripeClient(project: ProjectConfig): StripeClient {
+  const client = createPlatformClient(project);
+  return connectedAccount ? client.forAccount(connectedAccount) : client;
+}
+
+/**
+ * Create a StripeClient that always acts on the project's own account
+ * For key checks and Connect account management, which --account does not
+ * apply to.
+ * @param secretKey Secret key already resolved from the project's
+ * secretKeyRef, so the reference is not resolved a second time
+ */
+export function createPlatformClient(
+  project: ProjectConfig,
+  secretKey?: string
+): StripeClient {
+  return new StripeClient(
+    project,
+    secretKey
+      ? { ...clientOptions, secretResolver: { resolve: () => secretKey } }
+      : clientOptions
+  );
+}
+
+/**
+ * Project selection given on the command line (--project / --env)
+ */
+export interface ProjectSelection {
+  project?: string;
+  environment?: 'test' | 'live';
+}
+
+let projectSelection: ProjectSelection = {};
+
+/**
+ * Set the project selection used by {@link selectProject}
+ */
+export function setProjectSelection(selection: ProjectSelection): void {
+  projectSelection = selection;
+}
+
+/**
+ * Get the project selection given on the command line
+ */
+export function getProjectSelection(): ProjectSelection {
+  return projectSelection;
+}
+
+/**
+ * Pick the project to run against
+ * Resolution order: --project, STRIPECONF_PROJECT, the project pinned in
+ * .stripeconf.json, the default project, the only configured project, and
+ * finally a prompt when interactive.
+ * --env restricts every step to projects of that environment.
+ */
+export async function selectProject(
+  configManager: ConfigManager,
+  quiet = false
+): Promise<ProjectConfig | null> {
+  const { environment } = projectSelection;
+  const use = (project: ProjectConfig): ProjectConfig => {
+    if (environment && project.environment !== environment) {
+      throw new Error(
+        `Project "${project.name}" uses the ${project.environment} environment, not ${environment}`
+      );
+    }
+    if (!quiet) log(chalk.gray(`Using project: ${project.name}\n`));
+    return project;
+  };
+
+  const name = projectSelection.project || process.env.STRIPECONF_PROJECT;
+  if (name) {
+    return use(await configManager.getProject(name));
+  }
+
+  const config = await configManager.loadConfig();
+
+  if (config.projects.length === 0) {
+    if (!isInteractive()) {
+      throw new Error('No projects configured. Run "stripeconf setup" first.');
+    }
+    log(chalk.yellow('No projects configured. Run "stripeconf setup" first.'));
+    return null;
+  }
+
+  const local = await configManager.findLocalConfig();
+  if (local?.project) {
+    const pinned = config.projects.find(
+      (p: ProjectConfig) => p.name === local.project
+    );
+    if (!pinned) {
+      throw new Error(
+        `Project "${local.project}" from ${local.path} is not configured`
+      );
+    }
+    return use(pinned);
+  }
+
+  const candidates = environment
+    ? config.projects.filter(
+        (p: ProjectConfig) => p.environment === environment
+      )
+    : config.projects;
+
+  if (candidates.length === 0) {
+    throw new Error(`No ${environment} projects configured`);
+  }
+
+  if (
+    config.defaultProject &&
+    candidates.some((p: ProjectConfig) => p.name === config.defaultProject)
+  ) {
+    return use(await configManager.getDefaultProject());
+  }
+
+  if (candidates.length === 1) {
+    return use(candidates[0]);
+  }
+
+  if (!isInteractive()) {
+    throw new Error(
+      'Multiple projects match and none is the default. Pass --project or set STRIPECONF_PROJECT.'
+    );
+  }
+
+  const { selectedProject } = await prompt([
+    {
+      type: 'list',
+      name: 'selectedProject',
+      message: 'Select a project:',
+      choices: candidates.map((p: ProjectConfig) => ({
+        name: `${p.name} (${p.environment})`,
+        value: p.name,
+      })),
+    },
+  ]);
+  return configManager.getProject(selectedProject);
+}
+
+/**
+ * Interactive menu entry, with the resources its operation needs
+ */
+export interface MenuChoice {
+  name: string;
+  value: string;
+  requires?: KeyResource[];
+}
+
+/**
+ * Drop the menu entries the project's key has no permission for
+ * Only restricted keys with recorded capabilities lose entries.
+ */
+export function menuChoices(
+  project: ProjectConfig,
+  choices: MenuChoice[]
+): { name: string; value: string }[] {
+  const available = choices.filter((choice) =>
+    (choice.requires || []).every((resource) => canUse(project, resource))
+  );
+
+  if (available.length === 0) {
+    throw new Error(
+      `The restricted key of project "${project.name}" has no access to these operations. Run "stripeconf projects verify ${project.name}" after changing its permissions.`
+    );
+  }
+  return available.map(({ name, value }) => ({ name, value }));
+}
+
+/**
+ * Guard for command groups invoked without a subcommand
+ * The menu is only shown on a terminal; scripts get a usage error instead.
+ */
+export function requireMenu(group: string, args: string[]): void {
+  if (args.length > 0) {
+    throw new Error(
+      `Unknown command "${args[0]}". Run "stripeconf ${group} --help".`
+    );
+  }
+  if (!isInteractive()) {
+    throw new Error(
+      `No subcommand given. Run "stripeconf ${group} --help" for the non-interactive commands.`
+    );
+  }
+}
+
+/**
+ * Ask for the passphrase of an encrypted config once per run
+ * Skipped when STRIPECONF_PASSPHRASE is set or stdin is not a terminal;
+ * loading the config then fails with a hint instead.
+ */
+export async function unlockConfig(
+  configManager = new ConfigManager()
+): Promise<void> {
+  if (process.env.STRIPECONF_PASSPHRASE || !isInteractive()) return;
+  if (!(await configManager.isLocked())) return;
+
+  const { passphrase } = await prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: 'Config passphrase:',
+      mask: '*',
+    },
+  ]);
+  await configManager.unlock(passphrase);
+}
@@ -0,0 +1,69 @@
+import type { ProjectConfig } from './types.js';
+import { ValidationError } from './types.js';
+
+/**
+ * Stripe API version used by projects that do not pin one
+ */
+export const DEFAULT_API_VERSION = '2023-10-16';
+
+/** Dated versions, optionally with a release name (`2024-09-30.acacia`) */
+const API_VERSION_PATTERN = /^\d{4}-\d{2}-\d{2}(\.[a-z]+)?$/;
+
+/**
+ * Check that a string looks like a Stripe API version
+ * Throws ValidationError otherwise.
+ */
+export function checkApiVersion(version: string): void {
+  if (!API_VERSION_PATTERN.test(version)) {
+    throw new ValidationError(
+      `apiVersion must be a Stripe API version like ${DEFAULT_API_VERSION}, got "${version}"`,
+      'apiVersion'
+    );
+  }
+}
+
+/**
+ * API version a project's requests are sent with
+ */
+export function effectiveApiVersion(
+  project: Pick<ProjectConfig, 'apiVersion'>
+): string {
+  return project.apiVersion ?? DEFAULT_API_VERSION;
+}
+
+/**
+ * Warnings about a project's pinned API version
+ * A pin that differs from the account's default version or from the
+ * versions other projects use is reported; unpinned projects get none.
+ * @param projects All configured projects (the project itself is skipped)
+ * @param accountVersion The account's default version, when known
+ */
+export function apiVersionWarnings(
+  project: Pick<ProjectConfig, 'name' | 'apiVersion'>,
+  projects: Pick<ProjectConfig, 'name' | 'apiVersion'>[],
+  accountVersion?: string
+): string[] {
+  const pinned = project.apiVersion;
+  if (!pinned) return [];
+
+  const warnings: string[] = [];
+  if (accountVersion && accountVersion !== pinned) {
+    warnings.push(
+      `${project.name} pins API version ${pinned}, but the account default is ${accountVersion}`
+    );
+  }
+
+  const others = new Map<string, string[]>();
+  for (const other of projects) {
+    const version = effectiveApiVersion(other);
+    if (other.name === project.name || version === pinned) continue;
+    others.set(version, [...(others.get(version) ?? []), other.name]);
+  }
+  for (const [version, names] of others) {
+    warnings.push(
+      `${project.name} pins API version ${pinned}, but ${names.join(', ')} ${names.length === 1 ? 'uses' : 'use'} ${version}`
+    );
+  }
+
+  return warnings;
+}
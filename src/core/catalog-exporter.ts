@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import YAML from 'yaml';
+import type Stripe from 'stripe';
+import type { StripeClient } from './stripe-client.js';
+import type {
+  Catalog,
+  CatalogExportOptions,
+  CatalogPrice,
+  CatalogProduct,
+  TierConfig,
+} from './types.js';
+import { ConfigError } from './types.js';
+import {
+  CATALOG_ID_METADATA_KEY,
+  CATALOG_VERSION,
+  detectCatalogFormat,
+} from './catalog.js';
+import type { CatalogFormat } from './catalog.js';
+
+/**
+ * Serialize a catalog to JSON or YAML
+ */
+export function serializeCatalog(
+  catalog: Catalog,
+  format: CatalogFormat
+): string {
+  return format === 'yaml'
+    ? YAML.stringify(catalog)
+    : `${JSON.stringify(catalog, null, 2)}\n`;
+}
+
+function sortedMetadata(
+  metadata: Stripe.Metadata | null | undefined
+): Record<string, string> | undefined {
+  const keys = Object.keys(metadata || {})
+    .filter((key) => key !== CATALOG_ID_METADATA_KEY)
+    .sort();
+  if (keys.length === 0) return undefined;
+
+  const sorted: Record<string, string> = {};
+  for (const key of keys) {
+    sorted[key] = (metadata as Stripe.Metadata)[key];
+  }
+  return sorted;
+}
+
+/**
+ * Compare strings by UTF-16 code units, so the order does not depend on
+ * the locale the export runs under
+ */
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Drop undefined fields so the output only contains meaningful values
+ */
+function compact<T extends object>(obj: T): T {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  ) as T;
+}
+
+function toCatalogPrice(price: Stripe.Price): CatalogPrice {
+  const recurring = price.recurring
+    ? compact({
+        interval: price.recurring.interval,
+        interval_count:
+          price.recurring.interval_count !== 1
+            ? price.recurring.interval_count
+            : undefined,
+        usage_type:
+          price.recurring.usage_type !== 'licensed'
+            ? price.recurring.usage_type
+            : undefined,
+      })
+    : undefined;
+
+  const tiers = price.tiers?.map(
+    (tier): TierConfig =>
+      compact({
+        up_to: tier.up_to ?? 'inf',
+        unit_amount: tier.unit_amount ?? undefined,
+        flat_amount: tier.flat_amount ?? undefined,
+      })
+  );
+
+  return compact({
+    // Unkeyed prices are keyed by their Stripe ID so the catalog adopts them
+    lookup_key: price.lookup_key || price.id,
+    currency: price.currency,
+    unit_amount: price.unit_amount ?? undefined,
+    active: price.active ? undefined : false,
+    recurring,
+    billing_scheme:
+      price.billing_scheme === 'tiered' ? price.billing_scheme : undefined,
+    tiers,
+    tiers_mode: price.tiers_mode ?? undefined,
+    transform_quantity: price.transform_quantity
+      ? {
+          divide_by: price.transform_quantity.divide_by,
+          round: price.transform_quantity.round,
+        }
+      : undefined,
+    nickname: price.nickname ?? undefined,
+    metadata: sortedMetadata(price.metadata),
+  });
+}
+
+function toCatalogProduct(
+  product: Stripe.Product,
+  prices: CatalogPrice[]
+): CatalogProduct {
+  const taxCode =
+    typeof product.tax_code === 'string'
+      ? product.tax_code
+      : product.tax_code?.id;
+
+  return compact({
+    // Untagged products are keyed by their Stripe ID so the catalog adopts them
+    id: product.metadata?.[CATALOG_ID_METADATA_KEY] || product.id,
+    name: product.name,
+    description: product.description ?? undefined,
+    active: product.active ? undefined : false,
+    metadata: sortedMetadata(product.metadata),
+    images: product.images?.length ? [...product.images] : undefined,
+    tax_code: taxCode,
+    unit_label: product.unit_label ?? undefined,
+    statement_descriptor: product.statement_descriptor ?? undefined,
+    prices: prices.length > 0 ? prices : undefined,
+  });
+}
+
+/**
+ * Build a normalized catalog from Stripe products and prices
+ * Products are sorted by catalog ID and prices by lookup key, so repeated
+ * exports of an unchanged account produce identical output.
+ */
+export function buildCatalog(
+  products: Stripe.Product[],
+  prices: Stripe.Price[]
+): Catalog {
+  const pricesByProduct = new Map<string, CatalogPrice[]>();
+  for (const price of prices) {
+    const productId =
+      typeof price.product === 'string' ? price.product : price.product.id;
+    const list = pricesByProduct.get(productId) || [];
+    list.push(toCatalogPrice(price));
+    pricesByProduct.set(productId, list);
+  }
+
+  const catalogProducts = products.map((product) => {
+    const productPrices = (pricesByProduct.get(product.id) || []).sort((a, b) =>
+      compareKeys(a.lookup_key, b.lookup_key)
+    );
+    return toCatalogProduct(product, productPrices);
+  });
+  catalogProducts.sort((a, b) => compareKeys(a.id, b.id));
+
+  return { version: CATALOG_VERSION, products: catalogProducts };
+}
+
+/**
+ * Exports the products and prices of a Stripe account as a catalog
+ */
+export class CatalogExporter {
+  private stripeClient: StripeClient;
+
+  /**
+   * Create a new CatalogExporter
+   * @param stripeClient Client for the project to export
+   */
+  constructor(stripeClient: StripeClient) {
+    this.stripeClient = stripeClient;
+  }
+
+  /**
+   * Build a normalized catalog from every product and price in the account
+   */
+  async export(options?: CatalogExportOptions): Promise<Catalog> {
+    const active = options?.includeInactive ? undefined : true;
+    const [products, prices] = await Promise.all([
+      this.stripeClient.listAllProducts({ active }),
+      this.stripeClient.listAllPrices({ active, expand: ['data.tiers'] }),
+    ]);
+
+    return buildCatalog(products, prices);
+  }
+
+  /**
+   * Export the catalog and write it to a file (format from the extension)
+   */
+  async exportToFile(
+    path: string,
+    options?: CatalogExportOptions
+  ): Promise<Catalog> {
+    const catalog = await this.export(options);
+
+    try {
+      await fs.writeFile(
+        path,
+        serializeCatalog(catalog, detectCatalogFormat(path)),
+        'utf-8'
+      );
+    } catch (error) {
+      throw new ConfigError(
+        `Failed to write catalog: ${(error as Error).message}`
+      );
+    }
+
+    return catalog;
+  }
+}
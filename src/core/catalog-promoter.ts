@@ -0,0 +1,135 @@
+import type Stripe from 'stripe';
+import type { StripeClient } from './stripe-client.js';
+import type {
+  CatalogApplyResult,
+  PromotionMapping,
+  PromotionPlan,
+} from './types.js';
+import {
+  CATALOG_ID_METADATA_KEY,
+  CatalogReconciler,
+  planCatalog,
+} from './catalog.js';
+import { buildCatalog } from './catalog-exporter.js';
+
+/**
+ * Index objects by key, preferring active objects when a key repeats
+ */
+function indexByKey<T extends { id: string; active: boolean }>(
+  objects: T[],
+  keyOf: (object: T) => string | null | undefined
+): Map<string, T> {
+  const index = new Map<string, T>();
+  for (const object of objects) {
+    const key = keyOf(object);
+    if (!key) continue;
+    const current = index.get(key);
+    if (!current || (!current.active && object.active)) {
+      index.set(key, object);
+    }
+  }
+  return index;
+}
+
+const productKey = (product: Stripe.Product) =>
+  product.metadata?.[CATALOG_ID_METADATA_KEY];
+const priceKey = (price: Stripe.Price) => price.lookup_key;
+
+/**
+ * Copies the catalog of one project (usually test) into another (usually live)
+ *
+ * The source account is exported as a catalog and the target is reconciled
+ * with it. A mapping of source to target object IDs from earlier promotions
+ * pins matches, so objects are found again even if their catalog key changed.
+ */
+export class CatalogPromoter {
+  private source: StripeClient;
+  private target: StripeClient;
+
+  /**
+   * Create a new CatalogPromoter
+   * @param source Client for the project to copy from
+   * @param target Client for the project to copy to
+   */
+  constructor(source: StripeClient, target: StripeClient) {
+    this.source = source;
+    this.target = target;
+  }
+
+  /**
+   * Diff the source catalog against the target account
+   * @param mapping ID mapping recorded by a previous promotion
+   */
+  async plan(mapping?: PromotionMapping): Promise<PromotionPlan> {
+    const [sourceProducts, sourcePrices, targetProducts, targetPrices] =
+      await Promise.all([
+        this.source.listAllProducts({ active: true }),
+        this.source.listAllPrices({ active: true, expand: ['data.tiers'] }),
+        this.target.listAllProducts(),
+        this.target.listAllPrices({ expand: ['data.tiers'] }),
+      ]);
+
+    const catalog = buildCatalog(sourceProducts, sourcePrices);
+
+    // Catalog keys are the stripeconf_id / lookup_key, or the Stripe ID
+    const sourceProductIds: Record<string, string> = {};
+    for (const product of sourceProducts) {
+      sourceProductIds[productKey(product) || product.id] = product.id;
+    }
+    const sourcePriceIds: Record<string, string> = {};
+    for (const price of sourcePrices) {
+      sourcePriceIds[priceKey(price) || price.id] = price.id;
+    }
+
+    const productIds: Record<string, string> = {};
+    for (const [key, sourceId] of Object.entries(sourceProductIds)) {
+      const targetId = mapping?.products[sourceId];
+      if (targetId) productIds[key] = targetId;
+    }
+    const priceIds: Record<string, string> = {};
+    for (const [key, sourceId] of Object.entries(sourcePriceIds)) {
+      const targetId = mapping?.prices[sourceId];
+      if (targetId) priceIds[key] = targetId;
+    }
+
+    return {
+      catalog,
+      plan: planCatalog(catalog, targetProducts, targetPrices, {
+        productIds,
+        priceIds,
+      }),
+      sourceProductIds,
+      sourcePriceIds,
+    };
+  }
+
+  /**
+   * Apply a promotion plan and return the resulting source -> target mapping
+   */
+  async apply(
+    promotion: PromotionPlan,
+    onAction?: (result: CatalogApplyResult) => void
+  ): Promise<PromotionMapping> {
+    await new CatalogReconciler(this.target).apply(promotion.plan, onAction);
+
+    // After applying, every promoted object carries its catalog key
+    const [products, prices] = await Promise.all([
+      this.target.listAllProducts(),
+      this.target.listAllPrices(),
+    ]);
+    const targetProducts = indexByKey(products, productKey);
+    const targetPrices = indexByKey(prices, priceKey);
+
+    const mapping: PromotionMapping = { products: {}, prices: {} };
+    for (const [key, sourceId] of Object.entries(promotion.sourceProductIds)) {
+      const target = targetProducts.get(key);
+      if (target) mapping.products[sourceId] = target.id;
+    }
+    for (const [key, sourceId] of Object.entries(promotion.sourcePriceIds)) {
+      const target = targetPrices.get(key);
+      if (target) mapping.prices[sourceId] = target.id;
+    }
+
+    return mapping;
+  }
+}
@@ -0,0 +1,807 @@
+import { promises as fs } from 'fs';
+import { extname } from 'path';
+import YAML from 'yaml';
+import type Stripe from 'stripe';
+import type { StripeClient } from './stripe-client.js';
+import type {
+  Catalog,
+  CatalogAction,
+  CatalogApplyResult,
+  CatalogFieldChange,
+  CatalogPlan,
+  CatalogPlanOptions,
+  CatalogPrice,
+  CatalogProduct,
+  CreatePriceInput,
+  CreateProductInput,
+  TierConfig,
+  UpdatePriceInput,
+  UpdateProductInput,
+} from './types.js';
+import { ConfigError, ValidationError } from './types.js';
+
+/**
+ * Product metadata key holding the catalog product ID
+ */
+export const CATALOG_ID_METADATA_KEY = 'stripeconf_id';
+
+/**
+ * Current catalog file format version
+ */
+export const CATALOG_VERSION = 1;
+
+/**
+ * Catalog file names looked up in the working directory, in order
+ */
+export const DEFAULT_CATALOG_FILES = [
+  'stripe.catalog.json',
+  'stripe.catalog.yaml',
+  'stripe.catalog.yml',
+];
+
+export type CatalogFormat = 'json' | 'yaml';
+
+const INTERVALS = ['day', 'week', 'month', 'year'];
+const USAGE_TYPES = ['licensed', 'metered'];
+const BILLING_SCHEMES = ['per_unit', 'tiered'];
+const TIERS_MODES = ['graduated', 'volume'];
+const PRODUCT_STRING_FIELDS = [
+  'description',
+  'tax_code',
+  'unit_label',
+  'statement_descriptor',
+] as const;
+
+/**
+ * Detect the catalog format from a file extension
+ */
+export function detectCatalogFormat(path: string): CatalogFormat {
+  const ext = extname(path).toLowerCase();
+  return ext === '.yaml' || ext === '.yml' ? 'yaml' : 'json';
+}
+
+/**
+ * Parse and validate catalog file contents
+ */
+export function parseCatalog(content: string, format: CatalogFormat): Catalog {
+  let raw: unknown;
+  try {
+    raw = format === 'yaml' ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(
+      `Invalid ${format.toUpperCase()} in catalog: ${(error as Error).message}`
+    );
+  }
+
+  return validateCatalog(raw);
+}
+
+/**
+ * Load and validate a catalog file from disk
+ */
+export async function loadCatalog(path: string): Promise<Catalog> {
+  let content: string;
+  try {
+    content = await fs.readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new ConfigError(`Catalog file not found: ${path}`);
+    }
+    throw new ConfigError(
+      `Failed to read catalog: ${(error as Error).message}`
+    );
+  }
+
+  return parseCatalog(content, detectCatalogFormat(path));
+}
+
+// ==================== Validation ====================
+
+function fail(field: string, message: string): never {
+  throw new ValidationError(`${field} ${message}`, field);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkOptionalString(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string
+): void {
+  if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+    fail(`${path}.${key}`, 'must be a string');
+  }
+}
+
+function checkOptionalBoolean(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string
+): void {
+  if (obj[key] !== undefined && typeof obj[key] !== 'boolean') {
+    fail(`${path}.${key}`, 'must be a boolean');
+  }
+}
+
+function checkOptionalEnum(
+  obj: Record<string, unknown>,
+  key: string,
+  values: string[],
+  path: string
+): void {
+  if (obj[key] !== undefined && !values.includes(obj[key] as string)) {
+    fail(`${path}.${key}`, `must be one of: ${values.join(', ')}`);
+  }
+}
+
+function checkMetadata(value: unknown, path: string): void {
+  if (value === undefined) return;
+  if (!isObject(value)) {
+    fail(path, 'must be an object of string values');
+  }
+  for (const [key, val] of Object.entries(value)) {
+    if (typeof val !== 'string') {
+      fail(`${path}.${key}`, 'must be a string');
+    }
+  }
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function validatePrice(raw: unknown, path: string): void {
+  if (!isObject(raw)) fail(path, 'must be an object');
+
+  if (typeof raw.lookup_key !== 'string' || !raw.lookup_key.trim()) {
+    fail(`${path}.lookup_key`, 'is required');
+  }
+  if (typeof raw.currency !== 'string' || raw.currency.length !== 3) {
+    fail(`${path}.currency`, 'must be a 3-letter ISO code');
+  }
+  if (
+    raw.unit_amount !== undefined &&
+    (typeof raw.unit_amount !== 'number' ||
+      !Number.isInteger(raw.unit_amount) ||
+      raw.unit_amount < 0)
+  ) {
+    fail(`${path}.unit_amount`, 'must be a non-negative integer (cents)');
+  }
+  if (raw.unit_amount === undefined && raw.billing_scheme !== 'tiered') {
+    fail(`${path}.unit_amount`, 'is required unless billing_scheme is tiered');
+  }
+
+  checkOptionalBoolean(raw, 'active', path);
+  checkOptionalString(raw, 'nickname', path);
+  checkOptionalEnum(raw, 'billing_scheme', BILLING_SCHEMES, path);
+  checkOptionalEnum(raw, 'tiers_mode', TIERS_MODES, path);
+  checkMetadata(raw.metadata, `${path}.metadata`);
+
+  if (raw.recurring !== undefined) {
+    const recurringPath = `${path}.recurring`;
+    if (!isObject(raw.recurring)) fail(recurringPath, 'must be an object');
+    if (!INTERVALS.includes(raw.recurring.interval as string)) {
+      fail(
+        `${recurringPath}.interval`,
+        `must be one of: ${INTERVALS.join(', ')}`
+      );
+    }
+    if (
+      raw.recurring.interval_count !== undefined &&
+      !isPositiveInteger(raw.recurring.interval_count)
+    ) {
+      fail(`${recurringPath}.interval_count`, 'must be a positive integer');
+    }
+    checkOptionalEnum(raw.recurring, 'usage_type', USAGE_TYPES, recurringPath);
+  }
+
+  if (raw.tiers !== undefined && !Array.isArray(raw.tiers)) {
+    fail(`${path}.tiers`, 'must be an array');
+  }
+
+  if (raw.transform_quantity !== undefined) {
+    const transformPath = `${path}.transform_quantity`;
+    if (!isObject(raw.transform_quantity)) {
+      fail(transformPath, 'must be an object');
+    }
+    if (!isPositiveInteger(raw.transform_quantity.divide_by)) {
+      fail(`${transformPath}.divide_by`, 'must be a positive integer');
+    }
+    checkOptionalEnum(
+      raw.transform_quantity,
+      'round',
+      ['up', 'down'],
+      transformPath
+    );
+  }
+}
+
+function validateProduct(raw: unknown, path: string): void {
+  if (!isObject(raw)) fail(path, 'must be an object');
+
+  if (typeof raw.id !== 'string' || !raw.id.trim()) {
+    fail(`${path}.id`, 'is required');
+  }
+  if (typeof raw.name !== 'string' || !raw.name.trim()) {
+    fail(`${path}.name`, 'is required');
+  }
+
+  for (const key of PRODUCT_STRING_FIELDS) {
+    checkOptionalString(raw, key, path);
+  }
+  checkOptionalBoolean(raw, 'active', path);
+  checkMetadata(raw.metadata, `${path}.metadata`);
+
+  if (isObject(raw.metadata) && CATALOG_ID_METADATA_KEY in raw.metadata) {
+    fail(
+      `${path}.metadata.${CATALOG_ID_METADATA_KEY}`,
+      'is reserved; use the product id field instead'
+    );
+  }
+
+  if (
+    raw.images !== undefined &&
+    (!Array.isArray(raw.images) ||
+      raw.images.some((url) => typeof url !== 'string'))
+  ) {
+    fail(`${path}.images`, 'must be an array of URLs');
+  }
+
+  if (raw.prices !== undefined) {
+    if (!Array.isArray(raw.prices)) fail(`${path}.prices`, 'must be an array');
+    raw.prices.forEach((price, index) =>
+      validatePrice(price, `${path}.prices[${index}]`)
+    );
+  }
+}
+
+/**
+ * Validate a parsed catalog document
+ * Throws ValidationError naming the offending field
+ */
+export function validateCatalog(raw: unknown): Catalog {
+  if (!isObject(raw)) fail('catalog', 'must be an object');
+
+  if (raw.version !== CATALOG_VERSION) {
+    fail('version', `must be ${CATALOG_VERSION}`);
+  }
+  if (!Array.isArray(raw.products)) fail('products', 'must be an array');
+
+  const productIds = new Set<string>();
+  const lookupKeys = new Set<string>();
+
+  raw.products.forEach((product, index) => {
+    const path = `products[${index}]`;
+    validateProduct(product, path);
+
+    const { id, prices } = product as CatalogProduct;
+    if (productIds.has(id)) fail(`${path}.id`, `"${id}" is duplicated`);
+    productIds.add(id);
+
+    (prices || []).forEach((price, priceIndex) => {
+      if (lookupKeys.has(price.lookup_key)) {
+        fail(
+          `${path}.prices[${priceIndex}].lookup_key`,
+          `"${price.lookup_key}" is duplicated`
+        );
+      }
+      lookupKeys.add(price.lookup_key);
+      price.currency = price.currency.toLowerCase();
+    });
+  });
+
+  return raw as unknown as Catalog;
+}
+
+// ==================== Diffing ====================
+
+/**
+ * JSON serialization with sorted object keys, for structural comparison
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    return `{${Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function compare(
+  changes: CatalogFieldChange[],
+  field: string,
+  from: unknown,
+  to: unknown
+): void {
+  if (stableStringify(from) !== stableStringify(to)) {
+    changes.push({ field, from: from ?? null, to: to ?? null });
+  }
+}
+
+function productMetadata(product: CatalogProduct): Record<string, string> {
+  return { ...product.metadata, [CATALOG_ID_METADATA_KEY]: product.id };
+}
+
+function diffProduct(
+  desired: CatalogProduct,
+  existing: Stripe.Product
+): CatalogFieldChange[] {
+  const changes: CatalogFieldChange[] = [];
+
+  compare(changes, 'name', existing.name, desired.name);
+  compare(changes, 'active', existing.active, desired.active ?? true);
+
+  // Optional fields are only managed when the catalog sets them
+  for (const field of PRODUCT_STRING_FIELDS) {
+    if (desired[field] === undefined) continue;
+    const current =
+      field === 'tax_code' && isObject(existing.tax_code)
+        ? existing.tax_code.id
+        : existing[field];
+    compare(changes, field, current, desired[field]);
+  }
+  if (desired.images !== undefined) {
+    compare(changes, 'images', existing.images, desired.images);
+  }
+
+  compare(changes, 'metadata', existing.metadata, productMetadata(desired));
+  return changes;
+}
+
+function normalizeRecurring(
+  recurring: Stripe.Price.Recurring | CatalogPrice['recurring'] | null
+): Record<string, unknown> | null {
+  if (!recurring) return null;
+  return {
+    interval: recurring.interval,
+    interval_count: recurring.interval_count ?? 1,
+    usage_type: recurring.usage_type ?? 'licensed',
+  };
+}
+
+function normalizeTransform(
+  transform: Stripe.Price.TransformQuantity | null | undefined
+): Record<string, unknown> | null {
+  if (!transform) return null;
+  return { divide_by: transform.divide_by, round: transform.round };
+}
+
+function normalizeTiers(
+  tiers: (Stripe.Price.Tier | TierConfig)[] | null | undefined
+): Record<string, unknown>[] | null {
+  if (!tiers) return null;
+  return tiers.map((tier) => ({
+    up_to: tier.up_to ?? 'inf',
+    unit_amount: tier.unit_amount ?? null,
+    flat_amount: tier.flat_amount ?? null,
+  }));
+}
+
+function priceProductId(price: Stripe.Price): string {
+  return typeof price.product === 'string' ? price.product : price.product.id;
+}
+
+/**
+ * Differences in fields Stripe does not allow to change after creation
+ */
+function diffPriceImmutable(
+  desired: CatalogPrice,
+  existing: Stripe.Price,
+  productStripeId?: string
+): CatalogFieldChange[] {
+  const changes: CatalogFieldChange[] = [];
+  const billingScheme = desired.billing_scheme ?? 'per_unit';
+
+  if (productStripeId !== priceProductId(existing)) {
+    compare(changes, 'product', priceProductId(existing), productStripeId);
+  }
+  compare(changes, 'currency', existing.currency, desired.currency);
+  compare(changes, 'unit_amount', existing.unit_amount, desired.unit_amount);
+  compare(
+    changes,
+    'recurring',
+    normalizeRecurring(existing.recurring),
+    normalizeRecurring(desired.recurring)
+  );
+  compare(changes, 'billing_scheme', existing.billing_scheme, billingScheme);
+  if (billingScheme === 'tiered') {
+    compare(changes, 'tiers_mode', existing.tiers_mode, desired.tiers_mode);
+    compare(
+      changes,
+      'tiers',
+      normalizeTiers(existing.tiers),
+      normalizeTiers(desired.tiers)
+    );
+  }
+  compare(
+    changes,
+    'transform_quantity',
+    normalizeTransform(existing.transform_quantity),
+    normalizeTransform(desired.transform_quantity)
+  );
+  return changes;
+}
+
+function diffPriceMutable(
+  desired: CatalogPrice,
+  existing: Stripe.Price
+): CatalogFieldChange[] {
+  const changes: CatalogFieldChange[] = [];
+
+  compare(changes, 'active', existing.active, desired.active ?? true);
+  compare(changes, 'lookup_key', existing.lookup_key, desired.lookup_key);
+  if (desired.nickname !== undefined) {
+    compare(changes, 'nickname', existing.nickname, desired.nickname);
+  }
+  compare(changes, 'metadata', existing.metadata, desired.metadata ?? {});
+  return changes;
+}
+
+/**
+ * Compute the actions needed to converge Stripe objects with a catalog
+ *
+ * Only products tagged with the stripeconf_id metadata key and prices with a
+ * lookup_key are managed; everything else in the account is left untouched.
+ * An untagged product or unkeyed price whose Stripe ID is used as the catalog
+ * key (as written by the exporter) is adopted by tagging it on update, and
+ * keys pinned in the options match their Stripe ID before anything else.
+ * Actions are ordered so that products exist before their prices are created
+ * and archives happen last.
+ */
+export function planCatalog(
+  catalog: Catalog,
+  products: Stripe.Product[],
+  prices: Stripe.Price[],
+  options?: CatalogPlanOptions
+): CatalogPlan {
+  const productsById = new Map(
+    products.map((product) => [product.id, product])
+  );
+  const pricesById = new Map(prices.map((price) => [price.id, price]));
+
+  const managedProducts = new Map<string, Stripe.Product>();
+  for (const product of products) {
+    const key = product.metadata?.[CATALOG_ID_METADATA_KEY];
+    if (key) managedProducts.set(key, product);
+  }
+  const managedProductIds = new Set(
+    [...managedProducts.values()].map((product) => product.id)
+  );
+
+  const pricesByLookupKey = new Map<string, Stripe.Price>();
+  for (const price of prices) {
+    if (!price.lookup_key) continue;
+    const current = pricesByLookupKey.get(price.lookup_key);
+    if (!current || (!current.active && price.active)) {
+      pricesByLookupKey.set(price.lookup_key, price);
+    }
+  }
+
+  const findProduct = (key: string): Stripe.Product | undefined => {
+    const pinned = options?.productIds?.[key];
+    if (pinned && productsById.has(pinned)) return productsById.get(pinned);
+    if (managedProducts.has(key)) return managedProducts.get(key);
+    const byId = productsById.get(key);
+    return byId && !managedProductIds.has(byId.id) ? byId : undefined;
+  };
+
+  const findPrice = (key: string): Stripe.Price | undefined => {
+    const pinned = options?.priceIds?.[key];
+    if (pinned && pricesById.has(pinned)) return pricesById.get(pinned);
+    if (pricesByLookupKey.has(key)) return pricesByLookupKey.get(key);
+    const byId = pricesById.get(key);
+    return byId && !byId.lookup_key ? byId : undefined;
+  };
+
+  const matchedProductIds = new Set<string>();
+  const matchedPriceIds = new Set<string>();
+  const productActions: CatalogAction[] = [];
+  const priceActions: CatalogAction[] = [];
+  const archiveActions: CatalogAction[] = [];
+  let unchanged = 0;
+
+  for (const product of catalog.products) {
+    const existing = findProduct(product.id);
+    const productStripeId = existing?.id;
+
+    if (!existing) {
+      productActions.push({
+        action: 'create',
+        resource: 'product',
+        key: product.id,
+        productKey: product.id,
+        changes: [],
+        product,
+      });
+    } else {
+      matchedProductIds.add(existing.id);
+      const changes = diffProduct(product, existing);
+      if (changes.length > 0) {
+        productActions.push({
+          action: 'update',
+          resource: 'product',
+          key: product.id,
+          productKey: product.id,
+          stripeId: existing.id,
+          changes,
+          product,
+        });
+      } else {
+        unchanged++;
+      }
+    }
+
+    for (const price of product.prices || []) {
+      const existingPrice = findPrice(price.lookup_key);
+      const base = {
+        resource: 'price' as const,
+        key: price.lookup_key,
+        productKey: product.id,
+        ...(productStripeId && { productStripeId }),
+        price,
+      };
+
+      if (!existingPrice) {
+        priceActions.push({ ...base, action: 'create', changes: [] });
+        continue;
+      }
+
+      matchedPriceIds.add(existingPrice.id);
+      const immutable = diffPriceImmutable(
+        price,
+        existingPrice,
+        productStripeId
+      );
+      const mutable = diffPriceMutable(price, existingPrice);
+
+      if (immutable.length > 0) {
+        priceActions.push({
+          ...base,
+          action: 'replace',
+          stripeId: existingPrice.id,
+          changes: [...immutable, ...mutable],
+        });
+      } else if (mutable.length > 0) {
+        priceActions.push({
+          ...base,
+          action: 'update',
+          stripeId: existingPrice.id,
+          changes: mutable,
+        });
+      } else {
+        unchanged++;
+      }
+    }
+  }
+
+  for (const price of pricesByLookupKey.values()) {
+    const productId = priceProductId(price);
+    if (
+      price.active &&
+      managedProductIds.has(productId) &&
+      !matchedPriceIds.has(price.id)
+    ) {
+      archiveActions.push({
+        action: 'archive',
+        resource: 'price',
+        key: price.lookup_key as string,
+        productKey: productsById.get(productId)?.metadata[
+          CATALOG_ID_METADATA_KEY
+        ] as string,
+        stripeId: price.id,
+        productStripeId: productId,
+        changes: [],
+      });
+    }
+  }
+
+  for (const [key, product] of managedProducts) {
+    if (product.active && !matchedProductIds.has(product.id)) {
+      archiveActions.push({
+        action: 'archive',
+        resource: 'product',
+        key,
+        productKey: key,
+        stripeId: product.id,
+        changes: [],
+      });
+    }
+  }
+
+  return {
+    actions: [...productActions, ...priceActions, ...archiveActions],
+    unchanged,
+  };
+}
+
+// ==================== Applying ====================
+
+function toProductInput(product: CatalogProduct): CreateProductInput {
+  return {
+    name: product.name,
+    active: product.active ?? true,
+    metadata: productMetadata(product),
+    ...(product.description !== undefined && {
+      description: product.description,
+    }),
+    ...(product.images && { images: product.images }),
+    ...(product.tax_code && { tax_code: product.tax_code }),
+    ...(product.unit_label && { unit_label: product.unit_label }),
+    ...(product.statement_descriptor && {
+      statement_descriptor: product.statement_descriptor,
+    }),
+  };
+}
+
+function toPriceInput(price: CatalogPrice, product: string): CreatePriceInput {
+  return {
+    product,
+    currency: price.currency,
+    lookup_key: price.lookup_key,
+    active: price.active ?? true,
+    ...(price.unit_amount !== undefined && { unit_amount: price.unit_amount }),
+    ...(price.recurring && { recurring: price.recurring }),
+    ...(price.billing_scheme && { billing_scheme: price.billing_scheme }),
+    ...(price.tiers && { tiers: price.tiers }),
+    ...(price.tiers_mode && { tiers_mode: price.tiers_mode }),
+    ...(price.transform_quantity && {
+      transform_quantity: price.transform_quantity,
+    }),
+    ...(price.nickname && { nickname: price.nickname }),
+    ...(price.metadata && { metadata: price.metadata }),
+  };
+}
+
+/**
+ * Build an update payload from field changes
+ * Metadata keys that disappeared are unset by sending an empty value
+ */
+function toUpdateInput<T extends UpdateProductInput | UpdatePriceInput>(
+  changes: CatalogFieldChange[]
+): T {
+  const updates: Record<string, unknown> = {};
+
+  for (const { field, from, to } of changes) {
+    if (field === 'metadata') {
+      const patch: Record<string, string> = {};
+      for (const key of Object.keys((from as Record<string, string>) || {})) {
+        patch[key] = '';
+      }
+      updates.metadata = { ...patch, ...(to as Record<string, string>) };
+    } else {
+      updates[field] = to;
+    }
+  }
+
+  return updates as T;
+}
+
+/**
+ * Reconciles a declarative catalog with a Stripe account
+ */
+export class CatalogReconciler {
+  private stripeClient: StripeClient;
+
+  /**
+   * Create a new CatalogReconciler
+   * @param stripeClient Client for the project to reconcile
+   */
+  constructor(stripeClient: StripeClient) {
+    this.stripeClient = stripeClient;
+  }
+
+  /**
+   * Diff the catalog against every product and price in the account
+   */
+  async plan(catalog: Catalog): Promise<CatalogPlan> {
+    const [products, prices] = await Promise.all([
+      this.stripeClient.listAllProducts(),
+      // Tiers are only returned when expanded
+      this.stripeClient.listAllPrices({ expand: ['data.tiers'] }),
+    ]);
+    return planCatalog(catalog, products, prices);
+  }
+
+  /**
+   * Apply a plan in order, reporting each completed action
+   */
+  async apply(
+    plan: CatalogPlan,
+    onAction?: (result: CatalogApplyResult) => void
+  ): Promise<CatalogApplyResult[]> {
+    const productIds = new Map<string, string>();
+    for (const action of plan.actions) {
+      if (action.productStripeId) {
+        productIds.set(action.productKey, action.productStripeId);
+      }
+    }
+
+    const results: CatalogApplyResult[] = [];
+
+    for (const action of plan.actions) {
+      const stripeId =
+        action.resource === 'product'
+          ? await this.applyProduct(action)
+          : await this.applyPrice(action, productIds.get(action.productKey));
+
+      if (action.resource === 'product' && action.action === 'create') {
+        productIds.set(action.key, stripeId);
+      }
+
+      const result = { action, stripeId };
+      results.push(result);
+      onAction?.(result);
+    }
+
+    return results;
+  }
+
+  private async applyProduct(action: CatalogAction): Promise<string> {
+    switch (action.action) {
+      case 'create': {
+        const product = await this.stripeClient.createProduct(
+          toProductInput(action.product as CatalogProduct)
+        );
+        return product.id;
+      }
+      case 'update':
+        await this.stripeClient.updateProduct(
+          action.stripeId as string,
+          toUpdateInput<UpdateProductInput>(action.changes)
+        );
+        return action.stripeId as string;
+      default:
+        await this.stripeClient.updateProduct(action.stripeId as string, {
+          active: false,
+        });
+        return action.stripeId as string;
+    }
+  }
+
+  private async applyPrice(
+    action: CatalogAction,
+    productStripeId?: string
+  ): Promise<string> {
+    if (action.action === 'archive') {
+      await this.stripeClient.archivePrice(action.stripeId as string);
+      return action.stripeId as string;
+    }
+
+    if (action.action === 'update') {
+      await this.stripeClient.updatePrice(
+        action.stripeId as string,
+        toUpdateInput<UpdatePriceInput>(action.changes)
+      );
+      return action.stripeId as string;
+    }
+
+    if (!productStripeId) {
+      throw new ValidationError(
+        `No Stripe product found for catalog product "${action.productKey}"`,
+        'productKey'
+      );
+    }
+
+    const input = toPriceInput(action.price as CatalogPrice, productStripeId);
+
+    if (action.action === 'create') {
+      const price = await this.stripeClient.createPrice(input);
+      return price.id;
+    }
+
+    // Replace: move the lookup key to a new price, then retire the old one
+    const price = await this.stripeClient.createPrice({
+      ...input,
+      transfer_lookup_key: true,
+    });
+    await this.stripeClient.archivePrice(action.stripeId as string);
+    return price.id;
+  }
+}
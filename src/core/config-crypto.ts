@@ -0,0 +1,134 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+  type ScryptOptions,
+} from 'crypto';
+import type { ConfigEncryption } from './types.js';
+import { ConfigError } from './types.js';
+
+/**
+ * Prefix of encrypted config values
+ */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:v1:';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const CHECK_VALUE = 'stripeconf';
+const DEFAULT_SCRYPT = { N: 2 ** 15, r: 8, p: 1 };
+
+function deriveScrypt(
+  passphrase: string,
+  salt: Buffer,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, KEY_LENGTH, options, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Whether a stored value is ciphertext
+ */
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * Encrypt a value with AES-256-GCM
+ * The result has the form `enc:v1:<iv>:<tag>:<ciphertext>` (base64 parts).
+ */
+export function encryptValue(value: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+
+  return (
+    ENCRYPTED_VALUE_PREFIX +
+    [iv, cipher.getAuthTag(), data].map((b) => b.toString('base64')).join(':')
+  );
+}
+
+/**
+ * Decrypt a value produced by {@link encryptValue}
+ */
+export function decryptValue(value: string, key: Buffer): string {
+  const parts = isEncryptedValue(value)
+    ? value.slice(ENCRYPTED_VALUE_PREFIX.length).split(':')
+    : [];
+  if (parts.length !== 3) {
+    throw new ConfigError('Malformed encrypted value in config file');
+  }
+
+  const [iv, tag, data] = parts.map((part) => Buffer.from(part, 'base64'));
+  try {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString(
+      'utf-8'
+    );
+  } catch {
+    throw new ConfigError('Failed to decrypt config value');
+  }
+}
+
+/**
+ * Create encryption settings and the matching key for a new passphrase
+ */
+export async function createEncryption(
+  passphrase: string
+): Promise<{ encryption: ConfigEncryption; key: Buffer }> {
+  if (!passphrase) {
+    throw new ConfigError('Passphrase must not be empty');
+  }
+
+  const salt = randomBytes(16);
+  const key = await deriveScrypt(passphrase, salt, {
+    ...DEFAULT_SCRYPT,
+    maxmem: 128 * DEFAULT_SCRYPT.N * DEFAULT_SCRYPT.r * 2,
+  });
+
+  return {
+    encryption: {
+      algorithm: ALGORITHM,
+      kdf: 'scrypt',
+      salt: salt.toString('base64'),
+      ...DEFAULT_SCRYPT,
+      check: encryptValue(CHECK_VALUE, key),
+    },
+    key,
+  };
+}
+
+/**
+ * Derive the key for existing encryption settings
+ * Throws ConfigError when the passphrase is wrong.
+ */
+export async function deriveKey(
+  passphrase: string,
+  encryption: ConfigEncryption
+): Promise<Buffer> {
+  if (encryption.algorithm !== ALGORITHM || encryption.kdf !== 'scrypt') {
+    throw new ConfigError(
+      `Unsupported config encryption: ${encryption.algorithm}/${encryption.kdf}`
+    );
+  }
+
+  const { N, r, p } = encryption;
+  const key = await deriveScrypt(
+    passphrase,
+    Buffer.from(encryption.salt, 'base64'),
+    { N, r, p, maxmem: 128 * N * r * 2 }
+  );
+
+  try {
+    if (decryptValue(encryption.check, key) === CHECK_VALUE) return key;
+  } catch {
+    // Authentication failed: fall through to the passphrase error
+  }
+  throw new ConfigError('Incorrect config passphrase');
+}
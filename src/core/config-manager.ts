@@ -1,25 +1,103 @@
 import { promises as fs } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { homedir } from 'os';
 import { randomUUID } from 'crypto';
-import type { Config, ProjectConfig } from './types.js';
+import { AsyncLocalStorage } from 'async_hooks';
+import type {
+  Config,
+  ConfigEncryption,
+  LocalConfig,
+  ProjectConfig,
+  PromotionMapping,
+  PromotionRecord,
+} from './types.js';
 import { ConfigError } from './types.js';
+import {
+  createEncryption,
+  decryptValue,
+  deriveKey,
+  encryptValue,
+  isEncryptedValue,
+} from './config-crypto.js';
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  validateConfig,
+  validateLocalConfig,
+} from './config-schema.js';
+
+/**
+ * Name of the per-repository config file
+ */
+export const LOCAL_CONFIG_FILE = '.stripeconf.json';
+
+/**
+ * Project fields stored as ciphertext in encrypted config files
+ */
+const SECRET_FIELDS = [
+  'secretKey',
+  'webhookSecret',
+  'previousSecretKey',
+] as const;
+
+/** How long to wait for another process to release the config lock */
+const LOCK_TIMEOUT_MS = 10_000;
+/** Poll interval while waiting for the config lock */
+const LOCK_RETRY_MS = 50;
+/** Locks older than this are left over from a crashed process */
+const LOCK_STALE_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether a lock file exists and is older than LOCK_STALE_MS
+ */
+async function isStale(path: string): Promise<boolean> {
+  const stat = await fs.stat(path).catch(() => undefined);
+  return stat !== undefined && Date.now() - stat.mtimeMs > LOCK_STALE_MS;
+}
+
+/**
+ * Drop a rotated-out secret key once its time is up
+ */
+function dropExpiredPreviousKey(project: ProjectConfig): ProjectConfig {
+  const expiresAt = project.previousSecretKeyExpiresAt;
+  if (!expiresAt || Date.parse(expiresAt) > Date.now()) return project;
+
+  const rest = { ...project };
+  delete rest.previousSecretKey;
+  delete rest.previousSecretKeyExpiresAt;
+  return rest;
+}
 
 /**
  * Manages configuration file operations for Stripe projects
- * Stores configuration in ~/.config/stripeconf/config.json
+ * Stores configuration in ~/.config/stripeconf/config.json, with
+ * per-repository overrides from the nearest .stripeconf.json
  */
 export class ConfigManager {
   private configPath: string;
-  private readonly CONFIG_VERSION = '1.0.0';
+  private cwd: string;
+
+  /** Set inside withLock() callbacks, so nested calls reuse the lock */
+  private lockHeld = new AsyncLocalStorage<boolean>();
+  /** Settles when the last queued withLock() call on this instance is done */
+  private lockQueue: Promise<void> = Promise.resolve();
+
+  /** Keys unlocked in this process, by encryption salt */
+  private static unlockedKeys = new Map<string, Buffer>();
 
   /**
    * Create a new ConfigManager instance
    * @param configPath Optional custom path for config file
+   * @param cwd Directory to search for .stripeconf.json from
    */
-  constructor(configPath?: string) {
+  constructor(configPath?: string, cwd: string = process.cwd()) {
     this.configPath =
       configPath || join(homedir(), '.config', 'stripeconf', 'config.json');
+    this.cwd = resolve(cwd);
   }
 
   /**
@@ -47,19 +125,131 @@ export class ConfigManager {
 
   /**
    * Load configuration from file
-   * Returns empty config if file doesn't exist
+   * Returns empty config if file doesn't exist. Secrets of an encrypted
+   * config are returned decrypted, and a project pinned in .stripeconf.json
+   * becomes the default project.
    */
   async loadConfig(): Promise<Config> {
+    const config = await this.loadGlobalConfig();
+    const local = await this.findLocalConfig();
+
+    return local?.project
+      ? { ...config, defaultProject: local.project }
+      : config;
+  }
+
+  /**
+   * Find the nearest .stripeconf.json, walking up from the working directory
+   * Returns undefined when there is none.
+   */
+  async findLocalConfig(): Promise<LocalConfig | undefined> {
+    let dir = this.cwd;
+
+    for (;;) {
+      const path = join(dir, LOCAL_CONFIG_FILE);
+      let data: string | undefined;
+
+      try {
+        data = await fs.readFile(path, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw new ConfigError(
+            `Failed to read ${path}: ${(error as Error).message}`
+          );
+        }
+      }
+
+      if (data !== undefined) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          throw new ConfigError(`Invalid JSON in ${path}`);
+        }
+
+        const local = validateLocalConfig(parsed, path);
+        return {
+          path,
+          ...local,
+          ...(local.catalog && { catalog: resolve(dir, local.catalog) }),
+        };
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) return undefined;
+      dir = parent;
+    }
+  }
+
+  /**
+   * Load the global config file without per-repository overrides
+   */
+  private async loadGlobalConfig(): Promise<Config> {
+    const stored = await this.readConfigFile();
+    const config = {
+      ...stored,
+      projects: stored.projects.map(dropExpiredPreviousKey),
+    };
+    if (!config.encryption) return config;
+
+    const key = await this.getKey(config.encryption);
+    return {
+      ...config,
+      projects: config.projects.map((project: ProjectConfig) =>
+        this.mapSecrets(project, (value) =>
+          isEncryptedValue(value) ? decryptValue(value, key) : value
+        )
+      ),
+    };
+  }
+
+  /**
+   * Read the config file as stored, without decrypting secrets
+   * Older schema versions are migrated in place under the config lock,
+   * keeping a backup of the original file next to it
+   * (e.g. config.json.v1.0.0.bak).
+   */
+  private async readConfigFile(): Promise<Config> {
+    const { config, migratedFrom } = await this.parseConfigFile();
+    if (!migratedFrom) return config;
+
+    return this.withLock(async () => {
+      // Another process may have migrated or changed the file meanwhile
+      const current = await this.parseConfigFile();
+      if (current.migratedFrom) {
+        await this.writeConfigFile(
+          `${this.configPath}.v${current.migratedFrom}.bak`,
+          current.data
+        );
+        await this.writeConfigFile(
+          this.configPath,
+          JSON.stringify(current.config, null, 2)
+        );
+      }
+      return current.config;
+    });
+  }
+
+  /**
+   * Read, migrate and validate the config file without writing anything
+   */
+  private async parseConfigFile(): Promise<{
+    config: Config;
+    data: string;
+    migratedFrom?: string;
+  }> {
+    let data: string;
+    let parsed: unknown;
+
     try {
-      const data = await fs.readFile(this.configPath, 'utf-8');
-      const config = JSON.parse(data) as Config;
-      return config;
+      data = await fs.readFile(this.configPath, 'utf-8');
+      parsed = JSON.parse(data);
     } catch (error: any) {
       if (error.code === 'ENOENT') {
         // File doesn't exist, return empty config
         return {
-          version: this.CONFIG_VERSION,
-          projects: [],
+          config: { version: CONFIG_VERSION, projects: [] },
+          data: '',
         };
       }
 
@@ -69,65 +259,226 @@ export class ConfigManager {
         );
       }
 
-      throw new ConfigError(
-        `Failed to load config: ${error.message}`
-      );
+      throw new ConfigError(`Failed to load config: ${error.message}`);
     }
+
+    const { config, migratedFrom } = migrateConfig(parsed);
+    return { config: validateConfig(config), data, migratedFrom };
   }
 
   /**
    * Save configuration to file with proper permissions
+   * The previous file is kept as config.json.bak. Callers doing their own
+   * read-modify-write should wrap it in withLock().
    */
   async saveConfig(config: Config): Promise<void> {
+    if (config.encryption) {
+      const key = await this.getKey(config.encryption);
+      config = {
+        ...config,
+        projects: config.projects.map((project: ProjectConfig) =>
+          this.mapSecrets(project, (value) =>
+            isEncryptedValue(value) ? value : encryptValue(value, key)
+          )
+        ),
+      };
+    }
+
+    await this.writeConfigFile(
+      this.configPath,
+      JSON.stringify(config, null, 2),
+      true
+    );
+  }
+
+  /**
+   * Write a file in the config directory readable only by the owner
+   * The data goes to a temporary file that is renamed over the target, so
+   * readers never see a partially written file.
+   * @param backup Copy the current file to `<path>.bak` first
+   */
+  private async writeConfigFile(
+    path: string,
+    data: string,
+    backup = false
+  ): Promise<void> {
+    const tempPath = `${path}.${process.pid}.${randomUUID()}.tmp`;
+
     try {
       await this.ensureConfigDirectory();
 
-      const data = JSON.stringify(config, null, 2);
-      await fs.writeFile(this.configPath, data, 'utf-8');
+      if (backup) {
+        await fs.copyFile(path, `${path}.bak`).catch((error: any) => {
+          if (error.code !== 'ENOENT') throw error;
+        });
+      }
 
-      // Set file permissions to 0600 (owner read/write only)
-      await fs.chmod(this.configPath, 0o600);
-    } catch (error: any) {
+      // Owner read/write only (0600)
+      await fs.writeFile(tempPath, data, { encoding: 'utf-8', mode: 0o600 });
+      await fs.chmod(tempPath, 0o600);
+      await fs.rename(tempPath, path);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
       throw new ConfigError(
-        `Failed to save config: ${error.message}`
+        `Failed to save config: ${(error as Error).message}`
       );
     }
   }
 
+  /**
+   * Run a read-modify-write sequence while holding the config lock file
+   * Calls on the same instance run one at a time and other stripeconf
+   * processes wait until the lock is released. Calls made from inside `fn`
+   * reuse the lock.
+   */
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.lockHeld.getStore()) return fn();
+
+    const previous = this.lockQueue;
+    let release!: () => void;
+    this.lockQueue = new Promise((resolve) => (release = resolve));
+
+    try {
+      await previous;
+      await this.acquireLock();
+      try {
+        return await this.lockHeld.run(true, fn);
+      } finally {
+        await fs.unlink(this.getLockPath()).catch(() => undefined);
+      }
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Path of the advisory lock file next to the config file
+   */
+  private getLockPath(): string {
+    return `${this.configPath}.lock`;
+  }
+
+  /**
+   * Create the lock file, waiting for other processes and removing stale locks
+   */
+  private async acquireLock(): Promise<void> {
+    const lockPath = this.getLockPath();
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    await this.ensureConfigDirectory();
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockPath, 'wx', 0o600);
+        await handle.writeFile(String(process.pid), 'utf-8');
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new ConfigError(
+            `Failed to lock config: ${(error as Error).message}`
+          );
+        }
+      }
+
+      if (await isStale(lockPath)) {
+        await this.removeStaleLock(lockPath);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new ConfigError(
+          `Config file is locked by another stripeconf process. Remove ${lockPath} if no other process is running.`
+        );
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  /**
+   * Remove a lock file left by a crashed process
+   * Only the process holding `<lock>.takeover` may remove it, and it checks
+   * the lock's age again first, so two processes cannot both take over a
+   * stale lock and one of them delete the other's fresh lock.
+   */
+  private async removeStaleLock(lockPath: string): Promise<void> {
+    const guardPath = `${lockPath}.takeover`;
+    let guard: fs.FileHandle;
+    try {
+      guard = await fs.open(guardPath, 'wx', 0o600);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw new ConfigError(
+          `Failed to lock config: ${(error as Error).message}`
+        );
+      }
+      // Another process is taking over; a guard it left behind when it
+      // crashed goes stale like the lock itself
+      if (await isStale(guardPath)) {
+        await fs.unlink(guardPath).catch(() => undefined);
+      }
+      return;
+    }
+
+    try {
+      if (await isStale(lockPath)) {
+        await fs.unlink(lockPath).catch(() => undefined);
+      }
+    } finally {
+      await guard.close();
+      await fs.unlink(guardPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Load the config, apply changes and save it under the config lock
+   */
+  private async modifyConfig<T>(
+    fn: (config: Config) => T | Promise<T>
+  ): Promise<T> {
+    return this.withLock(async () => {
+      const config = await this.loadGlobalConfig();
+      const result = await fn(config);
+      await this.saveConfig(config);
+      return result;
+    });
+  }
+
   /**
    * Add a new project to the configuration
    */
   async addProject(
     projectInput: Omit<ProjectConfig, 'id' | 'createdAt' | 'updatedAt'>
   ): Promise<ProjectConfig> {
-    const config = await this.loadConfig();
-
-    // Check if project with same name already exists
-    const existing = config.projects.find((p: ProjectConfig) => p.name === projectInput.name);
-    if (existing) {
-      throw new ConfigError(
-        `Project with name "${projectInput.name}" already exists`
+    return this.modifyConfig((config) => {
+      // Check if project with same name already exists
+      const existing = config.projects.find(
+        (p: ProjectConfig) => p.name === projectInput.name
       );
-    }
+      if (existing) {
+        throw new ConfigError(
+          `Project with name "${projectInput.name}" already exists`
+        );
+      }
 
-    // Create new project with generated ID and timestamps
-    const now = new Date().toISOString();
-    const project: ProjectConfig = {
-      ...projectInput,
-      id: randomUUID(),
-      createdAt: now,
-      updatedAt: now,
-    };
+      // Create new project with generated ID and timestamps
+      const now = new Date().toISOString();
+      const project: ProjectConfig = {
+        ...projectInput,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
 
-    config.projects.push(project);
+      config.projects.push(project);
 
-    // Set as default if it's the first project
-    if (config.projects.length === 1) {
-      config.defaultProject = project.name;
-    }
+      // Set as default if it's the first project
+      if (config.projects.length === 1) {
+        config.defaultProject = project.name;
+      }
 
-    await this.saveConfig(config);
-    return project;
+      return project;
+    });
   }
 
   /**
@@ -159,62 +510,99 @@ export class ConfigManager {
     name: string,
     updates: Partial<Omit<ProjectConfig, 'id' | 'name' | 'createdAt'>>
   ): Promise<ProjectConfig> {
-    const config = await this.loadConfig();
-    const projectIndex = config.projects.findIndex((p: ProjectConfig) => p.name === name);
+    return this.modifyConfig((config) => {
+      const projectIndex = config.projects.findIndex(
+        (p: ProjectConfig) => p.name === name
+      );
 
-    if (projectIndex === -1) {
-      throw new ConfigError(`Project "${name}" not found`);
-    }
+      if (projectIndex === -1) {
+        throw new ConfigError(`Project "${name}" not found`);
+      }
 
-    // Update project with new values and updated timestamp
-    const updatedProject: ProjectConfig = {
-      ...config.projects[projectIndex],
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
+      // Update project with new values and updated timestamp
+      const updatedProject: ProjectConfig = {
+        ...config.projects[projectIndex],
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+
+      config.projects[projectIndex] = updatedProject;
+      return updatedProject;
+    });
+  }
+
+  /**
+   * Rename a project
+   * The default project and recorded promotions follow the new name.
+   */
+  async renameProject(name: string, newName: string): Promise<ProjectConfig> {
+    return this.modifyConfig((config) => {
+      const project = config.projects.find(
+        (p: ProjectConfig) => p.name === name
+      );
+      if (!project) {
+        throw new ConfigError(`Project "${name}" not found`);
+      }
+      if (!newName.trim()) {
+        throw new ConfigError('Project name must not be empty');
+      }
+      if (config.projects.some((p: ProjectConfig) => p.name === newName)) {
+        throw new ConfigError(`Project with name "${newName}" already exists`);
+      }
 
-    config.projects[projectIndex] = updatedProject;
-    await this.saveConfig(config);
+      project.name = newName;
+      project.updatedAt = new Date().toISOString();
+
+      if (config.defaultProject === name) {
+        config.defaultProject = newName;
+      }
+      for (const promotion of config.promotions || []) {
+        if (promotion.from === name) promotion.from = newName;
+        if (promotion.to === name) promotion.to = newName;
+      }
 
-    return updatedProject;
+      return project;
+    });
   }
 
   /**
    * Delete a project by name
    */
   async deleteProject(name: string): Promise<void> {
-    const config = await this.loadConfig();
-    const projectIndex = config.projects.findIndex((p: ProjectConfig) => p.name === name);
+    await this.modifyConfig((config) => {
+      const projectIndex = config.projects.findIndex(
+        (p: ProjectConfig) => p.name === name
+      );
 
-    if (projectIndex === -1) {
-      throw new ConfigError(`Project "${name}" not found`);
-    }
+      if (projectIndex === -1) {
+        throw new ConfigError(`Project "${name}" not found`);
+      }
 
-    // Remove project from array
-    config.projects.splice(projectIndex, 1);
+      // Remove project from array
+      config.projects.splice(projectIndex, 1);
 
-    // Clear default project if it was the deleted one
-    if (config.defaultProject === name) {
-      delete config.defaultProject;
-    }
-
-    await this.saveConfig(config);
+      // Clear default project if it was the deleted one
+      if (config.defaultProject === name) {
+        delete config.defaultProject;
+      }
+    });
   }
 
   /**
    * Set the default project
    */
   async setDefaultProject(name: string): Promise<void> {
-    const config = await this.loadConfig();
-
-    // Verify project exists
-    const project = config.projects.find((p: ProjectConfig) => p.name === name);
-    if (!project) {
-      throw new ConfigError(`Project "${name}" not found`);
-    }
+    await this.modifyConfig((config) => {
+      // Verify project exists
+      const project = config.projects.find(
+        (p: ProjectConfig) => p.name === name
+      );
+      if (!project) {
+        throw new ConfigError(`Project "${name}" not found`);
+      }
 
-    config.defaultProject = name;
-    await this.saveConfig(config);
+      config.defaultProject = name;
+    });
   }
 
   /**
@@ -231,4 +619,142 @@ export class ConfigManager {
 
     return this.getProject(config.defaultProject);
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the ID mapping recorded by previous promotions between two projects
+   */
+  async getPromotion(
+    from: string,
+    to: string
+  ): Promise<PromotionRecord | undefined> {
+    const config = await this.loadConfig();
+    return config.promotions?.find(
+      (p: PromotionRecord) => p.from === from && p.to === to
+    );
+  }
+
+  /**
+   * Record the ID mapping of a promotion, merged over earlier promotions
+   */
+  async recordPromotion(
+    from: string,
+    to: string,
+    mapping: PromotionMapping
+  ): Promise<PromotionRecord> {
+    return this.modifyConfig((config) => {
+      const promotions = config.promotions || [];
+      const index = promotions.findIndex(
+        (p: PromotionRecord) => p.from === from && p.to === to
+      );
+      const previous = index === -1 ? undefined : promotions[index];
+
+      const record: PromotionRecord = {
+        from,
+        to,
+        promotedAt: new Date().toISOString(),
+        products: { ...previous?.products, ...mapping.products },
+        prices: { ...previous?.prices, ...mapping.prices },
+      };
+
+      if (index === -1) {
+        promotions.push(record);
+      } else {
+        promotions[index] = record;
+      }
+      config.promotions = promotions;
+
+      return record;
+    });
+  }
+
+  /**
+   * Whether the config file stores encrypted secrets
+   */
+  async isEncrypted(): Promise<boolean> {
+    const config = await this.readConfigFile();
+    return Boolean(config.encryption);
+  }
+
+  /**
+   * Whether the config file is encrypted and not yet unlocked in this process
+   */
+  async isLocked(): Promise<boolean> {
+    const { encryption } = await this.readConfigFile();
+    if (!encryption) return false;
+    return !ConfigManager.unlockedKeys.has(encryption.salt);
+  }
+
+  /**
+   * Unlock an encrypted config for the rest of the process
+   * Without unlock() the passphrase is read from STRIPECONF_PASSPHRASE.
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const { encryption } = await this.readConfigFile();
+    if (!encryption) return;
+
+    const key = await deriveKey(passphrase, encryption);
+    ConfigManager.unlockedKeys.set(encryption.salt, key);
+  }
+
+  /**
+   * Encrypt the secrets in the config file with a passphrase
+   */
+  async encrypt(passphrase: string): Promise<void> {
+    await this.modifyConfig(async (config) => {
+      if (config.encryption) {
+        throw new ConfigError('Config file is already encrypted');
+      }
+
+      const { encryption, key } = await createEncryption(passphrase);
+      ConfigManager.unlockedKeys.set(encryption.salt, key);
+      config.encryption = encryption;
+    });
+  }
+
+  /**
+   * Store the secrets in the config file as plaintext again
+   */
+  async decrypt(): Promise<void> {
+    await this.modifyConfig((config) => {
+      if (!config.encryption) {
+        throw new ConfigError('Config file is not encrypted');
+      }
+
+      delete config.encryption;
+    });
+  }
+
+  /**
+   * Get the key for an encrypted config, unlocking it from the environment
+   */
+  private async getKey(encryption: ConfigEncryption): Promise<Buffer> {
+    const key = ConfigManager.unlockedKeys.get(encryption.salt);
+    if (key) return key;
+
+    const passphrase = process.env.STRIPECONF_PASSPHRASE;
+    if (!passphrase) {
+      throw new ConfigError(
+        'Config file is encrypted. Set STRIPECONF_PASSPHRASE or unlock it first.'
+      );
+    }
+
+    const derived = await deriveKey(passphrase, encryption);
+    ConfigManager.unlockedKeys.set(encryption.salt, derived);
+    return derived;
+  }
+
+  /**
+   * Apply a transform to the secret fields of a project
+   */
+  private mapSecrets(
+    project: ProjectConfig,
+    transform: (value: string) => string
+  ): ProjectConfig {
+    const result = { ...project };
+    for (const field of SECRET_FIELDS) {
+      const value = result[field];
+      if (value) result[field] = transform(value);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,223 @@
+import type { Config, LocalConfig } from './types.js';
+import { ConfigError } from './types.js';
+
+/**
+ * Current config file schema version
+ */
+export const CONFIG_VERSION = '1.1.0';
+
+/**
+ * A step upgrading the config file from one schema version to the next
+ */
+interface ConfigMigration {
+  from: string;
+  to: string;
+  migrate(config: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Migrations in order; each `to` is the `from` of the next one
+ */
+const MIGRATIONS: ConfigMigration[] = [
+  {
+    // 1.1.0 adds secretKeyRef, encryption and promotions (all optional).
+    // Normalize currencies and drop a default project that no longer exists.
+    from: '1.0.0',
+    to: '1.1.0',
+    migrate(config) {
+      const projects = Array.isArray(config.projects) ? config.projects : [];
+      const result: Record<string, unknown> = {
+        ...config,
+        projects: projects.map((project) =>
+          isObject(project) && typeof project.defaultCurrency === 'string'
+            ? {
+                ...project,
+                defaultCurrency: project.defaultCurrency.toLowerCase(),
+              }
+            : project
+        ),
+      };
+
+      const names = projects.map((p) => (isObject(p) ? p.name : undefined));
+      if (!names.includes(config.defaultProject)) {
+        delete result.defaultProject;
+      }
+      return result;
+    },
+  },
+];
+
+// ==================== Validation ====================
+
+function fail(field: string, message: string): never {
+  throw new ConfigError(`Invalid config file: ${field} ${message}`, field);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkString(
+  obj: Record<string, unknown>,
+  key: string,
+  path: string,
+  required = false
+): void {
+  const value = obj[key];
+  if (value === undefined && !required) return;
+  if (typeof value !== 'string' || (required && !value.trim())) {
+    fail(`${path}.${key}`, required ? 'is required' : 'must be a string');
+  }
+}
+
+function validateProject(raw: unknown, path: string): void {
+  if (!isObject(raw)) fail(path, 'must be an object');
+
+  for (const key of [
+    'id',
+    'name',
+    'publishableKey',
+    'createdAt',
+    'updatedAt',
+  ]) {
+    checkString(raw, key, path, true);
+  }
+  for (const key of [
+    'secretKey',
+    'secretKeyRef',
+    'webhookSecret',
+    'orgId',
+    'previousSecretKey',
+    'previousSecretKeyExpiresAt',
+    'apiVersion',
+  ]) {
+    checkString(raw, key, path);
+  }
+
+  if (raw.environment !== 'test' && raw.environment !== 'live') {
+    fail(`${path}.environment`, 'must be test or live');
+  }
+  if (!raw.secretKey && !raw.secretKeyRef) {
+    fail(`${path}.secretKey`, 'or secretKeyRef is required');
+  }
+  if (
+    typeof raw.defaultCurrency !== 'string' ||
+    raw.defaultCurrency.length !== 3
+  ) {
+    fail(`${path}.defaultCurrency`, 'must be a 3-letter ISO code');
+  }
+  if (raw.capabilities !== undefined) {
+    if (!isObject(raw.capabilities)) {
+      fail(`${path}.capabilities`, 'must be an object');
+    }
+    for (const [resource, value] of Object.entries(raw.capabilities)) {
+      if (typeof value !== 'boolean') {
+        fail(`${path}.capabilities.${resource}`, 'must be true or false');
+      }
+    }
+  }
+}
+
+function validateEncryption(raw: unknown): void {
+  if (!isObject(raw)) fail('encryption', 'must be an object');
+
+  for (const key of ['algorithm', 'kdf', 'salt', 'check']) {
+    checkString(raw, key, 'encryption', true);
+  }
+  for (const key of ['N', 'r', 'p']) {
+    if (typeof raw[key] !== 'number') {
+      fail(`encryption.${key}`, 'must be a number');
+    }
+  }
+}
+
+/**
+ * Validate a parsed config file of the current version
+ * Throws ConfigError naming the offending field
+ */
+export function validateConfig(raw: unknown): Config {
+  if (!isObject(raw)) fail('config', 'must be an object');
+
+  if (raw.version !== CONFIG_VERSION) {
+    fail('version', `must be ${CONFIG_VERSION}`);
+  }
+  if (!Array.isArray(raw.projects)) fail('projects', 'must be an array');
+
+  const names = new Set<string>();
+  raw.projects.forEach((project, index) => {
+    const path = `projects[${index}]`;
+    validateProject(project, path);
+
+    const { name } = project as { name: string };
+    if (names.has(name)) fail(`${path}.name`, `"${name}" is duplicated`);
+    names.add(name);
+  });
+
+  checkString(raw, 'defaultProject', 'config');
+  if (raw.promotions !== undefined && !Array.isArray(raw.promotions)) {
+    fail('promotions', 'must be an array');
+  }
+  if (raw.encryption !== undefined) validateEncryption(raw.encryption);
+
+  return raw as unknown as Config;
+}
+
+/**
+ * Validate a parsed .stripeconf.json file
+ * Throws ConfigError naming the file and the offending field
+ */
+export function validateLocalConfig(
+  raw: unknown,
+  path: string
+): Omit<LocalConfig, 'path'> {
+  const invalid = (field: string, message: string): never => {
+    throw new ConfigError(`Invalid ${path}: ${field} ${message}`, field);
+  };
+
+  if (!isObject(raw)) invalid('file', 'must contain a JSON object');
+  const { project, catalog } = raw as Record<string, unknown>;
+
+  if (project !== undefined && (typeof project !== 'string' || !project)) {
+    invalid('project', 'must be a project name');
+  }
+  if (catalog !== undefined && (typeof catalog !== 'string' || !catalog)) {
+    invalid('catalog', 'must be a file path');
+  }
+
+  return { project, catalog } as Omit<LocalConfig, 'path'>;
+}
+
+// ==================== Migrations ====================
+
+/**
+ * Upgrade a parsed config file to the current version
+ * Files without a version are treated as 1.0.0. Returns the version the
+ * file was migrated from, or undefined when it was already current.
+ */
+export function migrateConfig(raw: unknown): {
+  config: unknown;
+  migratedFrom?: string;
+} {
+  if (!isObject(raw)) return { config: raw };
+
+  const original = typeof raw.version === 'string' ? raw.version : '1.0.0';
+  let config = raw;
+  let version = original;
+
+  while (version !== CONFIG_VERSION) {
+    const migration = MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new ConfigError(
+        `Config file version ${version} is not supported by this version of stripeconf (expected ${CONFIG_VERSION} or older)`,
+        'version'
+      );
+    }
+    config = { ...migration.migrate(config), version: migration.to };
+    version = migration.to;
+  }
+
+  return {
+    config,
+    migratedFrom: original === CONFIG_VERSION ? undefined : original,
+  };
+}
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import type {
+  CreateAccountLinkInput,
+  CreateConnectAccountInput,
+  CreatePriceInput,
+  CreateProductInput,
+  CreateWebhookEndpointInput,
+} from './types.js';
+import { ValidationError } from './types.js';
+
+const CURRENCY_PATTERN = /^[a-z]{3}$/i;
+const INTERVALS = ['day', 'week', 'month', 'year'];
+const ACCOUNT_TYPES = ['express', 'standard', 'custom'];
+
+function fail(field: string, message: string): never {
+  throw new ValidationError(`${field} ${message}`, field);
+}
+
+function checkMetadata(metadata: unknown): void {
+  if (metadata === undefined) return;
+  for (const [key, value] of Object.entries(metadata as object)) {
+    if (typeof value !== 'string') fail(`metadata.${key}`, 'must be a string');
+  }
+}
+
+function checkUrl(url: unknown, field: string): void {
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(String(url)).protocol;
+  } catch {
+    // Reported below
+  }
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    fail(field, 'must be an http(s) URL');
+  }
+}
+
+/**
+ * ID of an object made up by a dry run, e.g. `prod_dryrun_1a2b3c4d5e6f`
+ * The same parameters give the same ID.
+ */
+export function dryRunId(prefix: string, params: object): string {
+  const hash = createHash('sha256').update(JSON.stringify(params));
+  return `${prefix}_dryrun_${hash.digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Check that an ID has the prefix of the object type it should name
+ */
+export function checkObjectId(id: string, prefix: string, field: string): void {
+  if (typeof id !== 'string' || !id.startsWith(`${prefix}_`)) {
+    fail(field, `must be a ${prefix}_... ID, got "${id}"`);
+  }
+}
+
+/**
+ * Check that an update changes something
+ */
+export function checkUpdate(updates: object): void {
+  if (Object.keys(updates).length === 0) {
+    fail('updates', 'must change at least one field');
+  }
+  checkMetadata((updates as { metadata?: unknown }).metadata);
+}
+
+/**
+ * Check product parameters before they are sent
+ */
+export function checkProductInput(
+  params: Omit<CreateProductInput, 'idempotencyKey'>
+): void {
+  if (typeof params.name !== 'string' || !params.name.trim()) {
+    fail('name', 'is required');
+  }
+  checkMetadata(params.metadata);
+}
+
+/**
+ * Check price parameters before they are sent
+ */
+export function checkPriceInput(
+  params: Omit<CreatePriceInput, 'idempotencyKey'>
+): void {
+  checkObjectId(params.product, 'prod', 'product');
+  if (!CURRENCY_PATTERN.test(params.currency)) {
+    fail('currency', 'must be a 3-letter ISO code');
+  }
+  if (params.billing_scheme === 'tiered') {
+    if (!params.tiers?.length) fail('tiers', 'are required for tiered prices');
+  } else if (
+    !Number.isInteger(params.unit_amount) ||
+    (params.unit_amount as number) < 0
+  ) {
+    fail('unit_amount', 'must be a non-negative integer (cents)');
+  }
+  if (params.recurring && !INTERVALS.includes(params.recurring.interval)) {
+    fail('recurring.interval', `must be one of: ${INTERVALS.join(', ')}`);
+  }
+  checkMetadata(params.metadata);
+}
+
+/**
+ * Check connected account parameters before they are sent
+ */
+export function checkConnectAccountInput(
+  params: Omit<CreateConnectAccountInput, 'idempotencyKey'>
+): void {
+  if (!ACCOUNT_TYPES.includes(params.type)) {
+    fail('type', `must be one of: ${ACCOUNT_TYPES.join(', ')}`);
+  }
+  if (!/^[A-Z]{2}$/i.test(params.country)) {
+    fail('country', 'must be a 2-letter country code');
+  }
+  checkMetadata(params.metadata);
+}
+
+/**
+ * Check account link parameters before they are sent
+ */
+export function checkAccountLinkInput(
+  params: Omit<CreateAccountLinkInput, 'idempotencyKey'>
+): void {
+  checkObjectId(params.account, 'acct', 'account');
+  checkUrl(params.refresh_url, 'refresh_url');
+  checkUrl(params.return_url, 'return_url');
+}
+
+/**
+ * Check webhook endpoint parameters before they are sent
+ */
+export function checkWebhookEndpointInput(
+  params: Omit<CreateWebhookEndpointInput, 'idempotencyKey'>
+): void {
+  checkUrl(params.url, 'url');
+  if (!params.enabled_events?.length) {
+    fail('enabled_events', 'must name at least one event');
+  }
+  checkMetadata(params.metadata);
+}
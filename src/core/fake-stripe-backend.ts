@@ -0,0 +1,1026 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { checkApiVersion, DEFAULT_API_VERSION } from './api-version.js';
+import type { FakeStripeBackendOptions, StripeClientOptions } from './types.js';
+
+/** A Stripe object as the API returns it */
+type FakeObject = { id: string; object: string; [field: string]: unknown };
+
+type Params = Record<string, unknown>;
+
+/**
+ * Everything the backend stores, as saved to the data file
+ */
+interface FakeStripeData {
+  /** The platform account */
+  account: FakeObject;
+  /** Objects by the account they belong to, oldest first */
+  objects: Record<string, FakeObject[]>;
+  /** Successful responses by account and idempotency key */
+  idempotency: Record<string, IdempotentResponse>;
+}
+
+interface IdempotentResponse {
+  /** Hash of the request the key was first used with */
+  hash: string;
+  body: unknown;
+  created: number;
+}
+
+/**
+ * API resources served by the backend and the parameters they accept
+ */
+interface Resource {
+  object: string;
+  prefix: string;
+  create: string[];
+  update: string[];
+  filters: string[];
+  deletable: boolean;
+}
+
+const RESOURCES: Record<string, Resource> = {
+  products: {
+    object: 'product',
+    prefix: 'prod',
+    create: [
+      'name',
+      'description',
+      'active',
+      'metadata',
+      'images',
+      'tax_code',
+      'unit_label',
+      'statement_descriptor',
+      'url',
+      'shippable',
+    ],
+    update: [
+      'name',
+      'description',
+      'active',
+      'metadata',
+      'images',
+      'tax_code',
+      'unit_label',
+      'statement_descriptor',
+      'url',
+      'shippable',
+      'default_price',
+    ],
+    filters: ['active'],
+    deletable: true,
+  },
+  prices: {
+    object: 'price',
+    prefix: 'price',
+    create: [
+      'product',
+      'currency',
+      'unit_amount',
+      'active',
+      'recurring',
+      'billing_scheme',
+      'tiers',
+      'tiers_mode',
+      'transform_quantity',
+      'metadata',
+      'nickname',
+      'lookup_key',
+      'transfer_lookup_key',
+      'tax_behavior',
+    ],
+    // Amounts, currency and billing are fixed once a price exists
+    update: [
+      'active',
+      'metadata',
+      'nickname',
+      'lookup_key',
+      'transfer_lookup_key',
+      'tax_behavior',
+    ],
+    filters: [
+      'active',
+      'product',
+      'type',
+      'currency',
+      'recurring',
+      'lookup_keys',
+    ],
+    deletable: false,
+  },
+  accounts: {
+    object: 'account',
+    prefix: 'acct',
+    create: [
+      'type',
+      'country',
+      'email',
+      'business_type',
+      'metadata',
+      'capabilities',
+    ],
+    update: ['email', 'business_type', 'metadata'],
+    filters: [],
+    deletable: false,
+  },
+  webhook_endpoints: {
+    object: 'webhook_endpoint',
+    prefix: 'we',
+    create: [
+      'url',
+      'enabled_events',
+      'description',
+      'metadata',
+      'connect',
+      'api_version',
+    ],
+    update: ['url', 'enabled_events', 'description', 'metadata', 'disabled'],
+    filters: [],
+    deletable: true,
+  },
+};
+
+/** Key under which the platform account's own objects are stored */
+const PLATFORM = 'platform';
+
+const ID_ALPHABET =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/** Form parameters Stripe reads as integers and booleans */
+const INTEGER_PARAMS = new Set([
+  'limit',
+  'unit_amount',
+  'flat_amount',
+  'up_to',
+  'interval_count',
+  'trial_period_days',
+  'divide_by',
+]);
+const BOOLEAN_PARAMS = new Set([
+  'active',
+  'transfer_lookup_key',
+  'shippable',
+  'connect',
+  'disabled',
+  'requested',
+]);
+
+/** Key segments that would reach Object.prototype when assigned */
+const UNSAFE_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const INTERVALS = ['day', 'week', 'month', 'year'];
+const ACCOUNT_TYPES = ['express', 'standard', 'custom'];
+
+/** Stripe keeps idempotent responses for 24 hours */
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * An error response, in Stripe's format
+ */
+class FakeStripeError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly type: string,
+    message: string,
+    public readonly param?: string,
+    public readonly code?: string
+  ) {
+    super(message);
+  }
+
+  toJSON() {
+    return {
+      error: {
+        type: this.type,
+        message: this.message,
+        ...(this.param && { param: this.param }),
+        ...(this.code && {
+          code: this.code,
+          doc_url: `https://stripe.com/docs/error-codes/${this.code.replace(/_/g, '-')}`,
+        }),
+      },
+    };
+  }
+}
+
+function invalid(message: string, param?: string, code?: string) {
+  return new FakeStripeError(
+    400,
+    'invalid_request_error',
+    message,
+    param,
+    code
+  );
+}
+
+function randomId(prefix: string): string {
+  const chars = Array.from(randomBytes(14), (byte) => ID_ALPHABET[byte % 62]);
+  return `${prefix}_${chars.join('')}`;
+}
+
+function now(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function header(request: IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Parse form or query parameters with bracketed keys
+ * (`recurring[interval]`, `tiers[0][up_to]`) into nested values
+ */
+function parseParams(query: string): Params {
+  const params: Params = {};
+  for (const [key, value] of new URLSearchParams(query)) {
+    const path = key.replace(/]/g, '').split('[');
+    if (path.some((part) => UNSAFE_KEYS.has(part))) {
+      throw invalid(
+        `Received unknown parameter: ${key}`,
+        key,
+        'parameter_unknown'
+      );
+    }
+    let node = params;
+    path.forEach((part, i) => {
+      const name = part === '' ? String(Object.keys(node).length) : part;
+      const last = i === path.length - 1;
+      // `a=1&a[b]=2` sends `a` both as a value and as a hash
+      const existing = node[name];
+      if (existing !== undefined && (typeof existing === 'object') === last) {
+        const param = path
+          .slice(0, i + 1)
+          .map((segment, j) => (j === 0 ? segment : `[${segment}]`))
+          .join('');
+        throw invalid(
+          `Invalid ${param}: it was sent both as a value and as a hash`,
+          param
+        );
+      }
+      if (last) node[name] = value;
+      else node = (node[name] ??= {}) as Params;
+    });
+  }
+  return coerce(params) as Params;
+}
+
+/**
+ * Give form values the types Stripe reads them as: numbered keys become
+ * arrays, integer and boolean parameters numbers and booleans
+ */
+function coerce(value: unknown, key = ''): unknown {
+  if (typeof value === 'string') {
+    if (INTEGER_PARAMS.has(key) && value !== 'inf') {
+      if (!/^-?\d+$/.test(value)) {
+        throw invalid(`Invalid integer: ${value}`, key);
+      }
+      return Number(value);
+    }
+    if (BOOLEAN_PARAMS.has(key)) {
+      if (value !== 'true' && value !== 'false') {
+        throw invalid(`Invalid boolean: ${value}`, key);
+      }
+      return value === 'true';
+    }
+    return value;
+  }
+  if (key === 'metadata') return value;
+
+  const entries = Object.entries(value as Params).map(([name, item]) => {
+    const index = /^\d+$/.test(name);
+    return [name, coerce(item, index ? key : name)] as const;
+  });
+  return entries.length > 0 && entries.every(([name], i) => name === String(i))
+    ? entries.map(([, item]) => item)
+    : Object.fromEntries(entries);
+}
+
+function checkParams(params: Params, allowed: string[]): void {
+  for (const name of Object.keys(params)) {
+    if (!allowed.includes(name)) {
+      throw invalid(
+        `Received unknown parameter: ${name}`,
+        name,
+        'parameter_unknown'
+      );
+    }
+  }
+}
+
+function required(params: Params, ...names: string[]): void {
+  for (const name of names) {
+    if (params[name] === undefined || params[name] === '') {
+      throw invalid(
+        `Missing required param: ${name}.`,
+        name,
+        'parameter_missing'
+      );
+    }
+  }
+}
+
+function checkUrl(url: unknown, param: string): void {
+  let protocol: string | undefined;
+  try {
+    protocol = new URL(String(url)).protocol;
+  } catch {
+    // Reported below
+  }
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw invalid(`Invalid URL: ${url}`, param, 'url_invalid');
+  }
+}
+
+/**
+ * Apply parameters to an object the way Stripe does: empty strings unset
+ * fields, and metadata is merged key by key
+ */
+function applyParams(object: FakeObject, params: Params): FakeObject {
+  const updated = { ...object };
+  for (const [name, value] of Object.entries(params)) {
+    if (name !== 'metadata') {
+      updated[name] = value === '' ? null : value;
+      continue;
+    }
+    const metadata: Params =
+      value === '' ? {} : { ...(object.metadata as Params) };
+    for (const [key, item] of Object.entries(value as Params)) {
+      if (item === '') delete metadata[key];
+      else metadata[key] = item;
+    }
+    updated.metadata = metadata;
+  }
+  return updated;
+}
+
+/**
+ * Whether a field matches a list filter; object filters such as
+ * `recurring[interval]` match field by field
+ */
+function matches(value: unknown, filter: unknown): boolean {
+  if (filter === null || typeof filter !== 'object') return value === filter;
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.entries(filter).every(([name, item]) =>
+      matches((value as Params)[name], item)
+    )
+  );
+}
+
+function emptyData(accountId?: string): FakeStripeData {
+  return {
+    account: {
+      id: accountId ?? randomId('acct'),
+      object: 'account',
+      business_profile: { name: null, url: null },
+      business_type: null,
+      capabilities: { card_payments: 'active', transfers: 'active' },
+      charges_enabled: true,
+      country: 'US',
+      created: now(),
+      default_currency: 'usd',
+      details_submitted: true,
+      email: null,
+      metadata: {},
+      payouts_enabled: true,
+      type: 'standard',
+    },
+    objects: {},
+    idempotency: {},
+  };
+}
+
+/**
+ * Local in-memory Stripe API for offline tests
+ * Serves products, prices, connected accounts, account links and webhook
+ * endpoints over HTTP, so a StripeClient (or the Stripe SDK) can point at
+ * it through clientOptions(). Objects get Stripe-style IDs, lists page
+ * with `has_more`, and invalid requests fail with Stripe's error format.
+ * Each connected account (Stripe-Account header) has its own objects.
+ * With a dataFile, the data survives restarts.
+ */
+export class FakeStripeBackend {
+  private readonly options: FakeStripeBackendOptions;
+  private readonly apiVersion: string;
+  private data: FakeStripeData;
+  private server?: Server;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: FakeStripeBackendOptions = {}) {
+    if (options.apiVersion !== undefined) checkApiVersion(options.apiVersion);
+    this.options = options;
+    this.apiVersion = options.apiVersion ?? DEFAULT_API_VERSION;
+    this.data = emptyData(options.accountId);
+  }
+
+  /**
+   * Load the data file, if any, and start listening on 127.0.0.1
+   */
+  async start(): Promise<void> {
+    if (this.server) return;
+    if (this.options.dataFile) await this.load(this.options.dataFile);
+
+    const server = createServer((request, response) => {
+      void this.handle(request, response);
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+  }
+
+  /**
+   * Stop listening and wait for pending writes to the data file
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    const closed = new Promise<void>((resolve, reject) =>
+      server.close((error) => (error ? reject(error) : resolve()))
+    );
+    // The SDK keeps connections alive between requests
+    server.closeAllConnections();
+    await closed;
+    await this.saving;
+  }
+
+  /**
+   * Port the backend listens on
+   */
+  get port(): number {
+    if (!this.server) throw new Error('FakeStripeBackend is not started');
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  /**
+   * Base URL of the API, e.g. for the Stripe SDK or fetch
+   */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  /**
+   * ID of the platform account the keys belong to
+   */
+  get accountId(): string {
+    return this.data.account.id;
+  }
+
+  /**
+   * StripeClient options that send requests to this backend
+   */
+  clientOptions(): Pick<StripeClientOptions, 'host' | 'port' | 'protocol'> {
+    return { host: '127.0.0.1', port: this.port, protocol: 'http' };
+  }
+
+  /**
+   * Remove all objects, keeping the platform account
+   */
+  async reset(): Promise<void> {
+    this.data = { ...emptyData(), account: this.data.account };
+    await this.save();
+  }
+
+  private async load(path: string): Promise<void> {
+    try {
+      this.data = JSON.parse(await fs.readFile(path, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  /**
+   * Write the data file; writes are queued so they land in order
+   */
+  private save(): Promise<void> {
+    const path = this.options.dataFile;
+    if (!path) return Promise.resolve();
+
+    const data = JSON.stringify(this.data, null, 2);
+    const write = this.saving.then(async () => {
+      const tempPath = `${path}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data, 'utf-8');
+      await fs.rename(tempPath, path);
+    });
+    this.saving = write.catch(() => undefined);
+    return write;
+  }
+
+  private async handle(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    let status = 200;
+    let body: unknown;
+    let replayed = false;
+    try {
+      ({ body, replayed } = await this.respond(request));
+    } catch (error) {
+      const failure =
+        error instanceof FakeStripeError
+          ? error
+          : new FakeStripeError(500, 'api_error', String(error));
+      status = failure.status;
+      body = failure.toJSON();
+    }
+
+    response.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Request-Id': randomId('req'),
+      'Stripe-Version': header(request, 'stripe-version') ?? this.apiVersion,
+      ...(replayed && { 'Idempotent-Replayed': 'true' }),
+    });
+    response.end(JSON.stringify(body));
+  }
+
+  private async respond(
+    request: IncomingMessage
+  ): Promise<{ body: unknown; replayed: boolean }> {
+    const method = request.method ?? 'GET';
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    const livemode = this.authenticate(request).includes('_live_');
+    const scope = this.scope(request);
+
+    const query = method === 'POST' ? await readBody(request) : url.search;
+    const params = parseParams(query.replace(/^\?/, ''));
+    // Objects are always returned in full
+    delete params.expand;
+
+    const key = method === 'POST' && header(request, 'idempotency-key');
+    const hash = createHash('sha256')
+      .update(`${method} ${url.pathname} ${query}`)
+      .digest('hex');
+    const previous = key ? this.data.idempotency[`${scope} ${key}`] : undefined;
+    if (previous && previous.created > now() - IDEMPOTENCY_TTL_SECONDS) {
+      if (previous.hash !== hash) {
+        throw new FakeStripeError(
+          400,
+          'idempotency_error',
+          `Keys for idempotent requests can only be used with the same parameters they were first used with. Try using a key other than '${key}' if you meant to execute a different request.`
+        );
+      }
+      return { body: previous.body, replayed: true };
+    }
+
+    const body = this.route(method, url.pathname, params, scope, livemode);
+    if (method !== 'GET') {
+      if (key) {
+        this.data.idempotency[`${scope} ${key}`] = {
+          hash,
+          body,
+          created: now(),
+        };
+      }
+      await this.save();
+    }
+    return { body, replayed: false };
+  }
+
+  /**
+   * Check the API key; returns it
+   */
+  private authenticate(request: IncomingMessage): string {
+    const authorization = header(request, 'authorization');
+    if (!authorization) {
+      throw new FakeStripeError(
+        401,
+        'invalid_request_error',
+        'You did not provide an API key. You need to provide your API key in the Authorization header, using Bearer auth.'
+      );
+    }
+    const key = authorization.replace(/^Bearer /, '');
+    if (!/^(sk|rk)_(test|live)_\w+$/.test(key)) {
+      throw new FakeStripeError(
+        401,
+        'invalid_request_error',
+        'Invalid API Key provided: only secret and restricted keys are accepted.'
+      );
+    }
+    return key;
+  }
+
+  /**
+   * The account a request acts on, from its Stripe-Account header
+   */
+  private scope(request: IncomingMessage): string {
+    const account = header(request, 'stripe-account');
+    if (!account || account === this.data.account.id) return PLATFORM;
+    if (!this.objectsOf(PLATFORM, 'account').some((a) => a.id === account)) {
+      throw new FakeStripeError(
+        403,
+        'invalid_request_error',
+        `The provided key does not have access to account '${account}' (or that account does not exist).`,
+        undefined,
+        'account_invalid'
+      );
+    }
+    return account;
+  }
+
+  private route(
+    method: string,
+    path: string,
+    params: Params,
+    scope: string,
+    livemode: boolean
+  ): unknown {
+    const [version, name, id, ...rest] = path.split('/').filter(Boolean);
+    if (version === 'v1' && rest.length === 0) {
+      if (name === 'account' && !id && method === 'GET') {
+        return scope === PLATFORM
+          ? this.data.account
+          : this.find(RESOURCES.accounts, PLATFORM, scope);
+      }
+      if (name === 'account_links' && !id && method === 'POST') {
+        return this.createAccountLink(params);
+      }
+
+      const resource = Object.hasOwn(RESOURCES, name)
+        ? RESOURCES[name]
+        : undefined;
+      // Connected accounts belong to the platform
+      const owner = name === 'accounts' ? PLATFORM : scope;
+      if (resource && method === 'GET') {
+        return id
+          ? this.find(resource, owner, id)
+          : this.list(resource, owner, params, path);
+      }
+      if (resource && method === 'POST') {
+        return id
+          ? this.update(resource, owner, id, params)
+          : this.create(resource, owner, params, livemode);
+      }
+      if (resource?.deletable && method === 'DELETE' && id) {
+        return this.remove(resource, owner, id);
+      }
+    }
+    throw new FakeStripeError(
+      404,
+      'invalid_request_error',
+      `Unrecognized request URL (${method}: ${path}).`
+    );
+  }
+
+  private objectsOf(scope: string, object: string): FakeObject[] {
+    return (this.data.objects[scope] ?? []).filter((o) => o.object === object);
+  }
+
+  private store(scope: string, object: FakeObject): void {
+    const objects = (this.data.objects[scope] ??= []);
+    const index = objects.findIndex((o) => o.id === object.id);
+    if (index === -1) objects.push(object);
+    else objects[index] = object;
+  }
+
+  private find(
+    resource: Resource,
+    scope: string,
+    id: string,
+    param = 'id',
+    status = 404
+  ): FakeObject {
+    const object = this.objectsOf(scope, resource.object).find(
+      (o) => o.id === id
+    );
+    if (!object) {
+      throw new FakeStripeError(
+        status,
+        'invalid_request_error',
+        `No such ${resource.object.replace(/_/g, ' ')}: '${id}'`,
+        param,
+        'resource_missing'
+      );
+    }
+    return object;
+  }
+
+  private list(
+    resource: Resource,
+    scope: string,
+    params: Params,
+    path: string
+  ): unknown {
+    const { limit = 10, starting_after, ending_before, ...filters } = params;
+    checkParams(filters, resource.filters);
+    if (typeof limit !== 'number' || limit < 1 || limit > 100) {
+      throw invalid(
+        'This value must be greater than or equal to 1 and less than or equal to 100.',
+        'limit'
+      );
+    }
+
+    const { lookup_keys: lookupKeys, ...fields } = filters;
+    const items = this.objectsOf(scope, resource.object)
+      .filter(
+        (o) =>
+          matches(o, fields) &&
+          (!Array.isArray(lookupKeys) || lookupKeys.includes(o.lookup_key))
+      )
+      .reverse();
+    const cursor = (id: unknown, param: string) => {
+      const index = items.findIndex((o) => o.id === id);
+      if (index === -1) {
+        throw invalid(
+          `No such ${resource.object.replace(/_/g, ' ')}: '${id}'`,
+          param,
+          'resource_missing'
+        );
+      }
+      return index;
+    };
+
+    let start: number;
+    let end: number;
+    if (starting_after !== undefined) {
+      start = cursor(starting_after, 'starting_after') + 1;
+      end = start + limit;
+    } else if (ending_before !== undefined) {
+      end = cursor(ending_before, 'ending_before');
+      start = Math.max(0, end - limit);
+    } else {
+      start = 0;
+      end = limit;
+    }
+
+    return {
+      object: 'list',
+      url: path,
+      has_more: ending_before !== undefined ? start > 0 : end < items.length,
+      data: items.slice(start, end),
+    };
+  }
+
+  private create(
+    resource: Resource,
+    scope: string,
+    params: Params,
+    livemode: boolean
+  ): FakeObject {
+    checkParams(params, resource.create);
+    const base: FakeObject = {
+      id: randomId(resource.prefix),
+      object: resource.object,
+      created: now(),
+      livemode,
+      metadata: {},
+    };
+
+    let object: FakeObject;
+    switch (resource.object) {
+      case 'product':
+        object = this.buildProduct(base, params);
+        break;
+      case 'price':
+        object = this.buildPrice(base, scope, params);
+        break;
+      case 'account':
+        object = this.buildAccount(base, params);
+        break;
+      default:
+        object = this.buildWebhookEndpoint(base, params);
+    }
+
+    // Webhook secrets are only revealed when the endpoint is created
+    const stored = { ...object };
+    delete stored.secret;
+    this.store(scope, stored);
+    return object;
+  }
+
+  private update(
+    resource: Resource,
+    scope: string,
+    id: string,
+    params: Params
+  ): FakeObject {
+    const object = this.find(resource, scope, id);
+    checkParams(params, resource.update);
+    if (resource.object === 'price') this.claimLookupKey(scope, params, id);
+
+    const updated = applyParams(object, params);
+    if (resource.object === 'product') updated.updated = now();
+    this.store(scope, updated);
+    return updated;
+  }
+
+  private remove(resource: Resource, scope: string, id: string): unknown {
+    this.find(resource, scope, id);
+    const prices = this.objectsOf(scope, 'price');
+    if (resource.object === 'product' && prices.some((p) => p.product === id)) {
+      throw invalid(
+        'This product cannot be deleted because it has one or more user-created prices.'
+      );
+    }
+    this.data.objects[scope] = this.data.objects[scope].filter(
+      (o) => o.id !== id
+    );
+    return { id, object: resource.object, deleted: true };
+  }
+
+  private buildProduct(base: FakeObject, params: Params): FakeObject {
+    required(params, 'name');
+    return applyParams(
+      {
+        ...base,
+        active: true,
+        default_price: null,
+        description: null,
+        images: [],
+        name: params.name,
+        package_dimensions: null,
+        shippable: null,
+        statement_descriptor: null,
+        tax_code: null,
+        unit_label: null,
+        updated: base.created,
+        url: null,
+      },
+      params
+    );
+  }
+
+  private buildPrice(
+    base: FakeObject,
+    scope: string,
+    params: Params
+  ): FakeObject {
+    required(params, 'product', 'currency');
+    this.find(
+      RESOURCES.products,
+      scope,
+      String(params.product),
+      'product',
+      400
+    );
+    const currency = String(params.currency);
+    if (!/^[a-z]{3}$/i.test(currency)) {
+      throw invalid(`Invalid currency: ${currency}`, 'currency');
+    }
+
+    const tiered = params.billing_scheme === 'tiered';
+    if (tiered) {
+      required(params, 'tiers', 'tiers_mode');
+    } else {
+      required(params, 'unit_amount');
+      if ((params.unit_amount as number) < 0) {
+        throw invalid(
+          'Invalid non-negative integer',
+          'unit_amount',
+          'parameter_invalid_integer'
+        );
+      }
+    }
+
+    const recurring = params.recurring as Params | undefined;
+    if (recurring && !INTERVALS.includes(String(recurring.interval))) {
+      throw invalid(
+        `Invalid recurring[interval]: must be one of ${INTERVALS.join(', ')}`,
+        'recurring[interval]'
+      );
+    }
+    this.claimLookupKey(scope, params);
+
+    const price = applyParams(
+      {
+        ...base,
+        active: true,
+        billing_scheme: 'per_unit',
+        currency: currency.toLowerCase(),
+        custom_unit_amount: null,
+        lookup_key: null,
+        nickname: null,
+        product: params.product,
+        recurring: null,
+        tax_behavior: 'unspecified',
+        tiers_mode: null,
+        transform_quantity: null,
+        type: recurring ? 'recurring' : 'one_time',
+        unit_amount: null,
+      },
+      params
+    );
+    price.currency = currency.toLowerCase();
+    if (recurring) {
+      price.recurring = {
+        aggregate_usage: null,
+        interval_count: 1,
+        trial_period_days: null,
+        usage_type: 'licensed',
+        ...recurring,
+      };
+    }
+    if (tiered) {
+      price.tiers = (params.tiers as Params[]).map((tier) => ({
+        flat_amount: null,
+        unit_amount: null,
+        ...tier,
+        up_to: tier.up_to === 'inf' ? null : tier.up_to,
+      }));
+    }
+    price.unit_amount_decimal =
+      price.unit_amount === null ? null : String(price.unit_amount);
+    return price;
+  }
+
+  /**
+   * Check that no other price uses the lookup key, or move it to this price
+   * when transfer_lookup_key is set
+   */
+  private claimLookupKey(scope: string, params: Params, priceId?: string) {
+    const { lookup_key: lookupKey, transfer_lookup_key: transfer } = params;
+    delete params.transfer_lookup_key;
+    if (typeof lookupKey !== 'string' || lookupKey === '') return;
+
+    const holder = this.objectsOf(scope, 'price').find(
+      (p) => p.lookup_key === lookupKey && p.id !== priceId
+    );
+    if (!holder) return;
+    if (!transfer) {
+      throw invalid(
+        `A price (\`${holder.id}\`) already uses the lookup key \`${lookupKey}\`.`,
+        'lookup_key'
+      );
+    }
+    this.store(scope, { ...holder, lookup_key: null });
+  }
+
+  private buildAccount(base: FakeObject, params: Params): FakeObject {
+    required(params, 'type', 'country');
+    if (!ACCOUNT_TYPES.includes(String(params.type))) {
+      throw invalid(`Invalid type: ${params.type}`, 'type');
+    }
+    const requested = Object.entries((params.capabilities ?? {}) as Params)
+      .filter(([, capability]) => (capability as Params).requested)
+      .map(([name]) => [name, 'inactive']);
+
+    return {
+      ...applyParams(
+        {
+          ...base,
+          business_profile: { name: null, url: null },
+          business_type: null,
+          charges_enabled: false,
+          default_currency: 'usd',
+          details_submitted: false,
+          email: null,
+          payouts_enabled: false,
+          requirements: {
+            currently_due: ['external_account', 'tos_acceptance.date'],
+            disabled_reason: 'requirements.past_due',
+          },
+        },
+        params
+      ),
+      capabilities: Object.fromEntries(requested),
+      country: String(params.country).toUpperCase(),
+    };
+  }
+
+  private buildWebhookEndpoint(base: FakeObject, params: Params): FakeObject {
+    required(params, 'url', 'enabled_events');
+    checkUrl(params.url, 'url');
+    return applyParams(
+      {
+        ...base,
+        api_version: null,
+        application: null,
+        description: null,
+        secret: randomId('whsec'),
+        status: 'enabled',
+      },
+      params
+    );
+  }
+
+  private createAccountLink(params: Params): unknown {
+    checkParams(params, ['account', 'refresh_url', 'return_url', 'type']);
+    required(params, 'account', 'refresh_url', 'return_url', 'type');
+    const account = String(params.account);
+    this.find(RESOURCES.accounts, PLATFORM, account, 'account', 400);
+    checkUrl(params.refresh_url, 'refresh_url');
+    checkUrl(params.return_url, 'return_url');
+
+    const created = now();
+    return {
+      object: 'account_link',
+      created,
+      expires_at: created + 300,
+      url: `https://connect.stripe.com/setup/s/${account}/${randomId('link').slice(5)}`,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { createHash } from 'crypto';
+
+/**
+ * JSON with object keys sorted, so equal inputs give equal strings
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Derive an idempotency key from an operation, the account it acts on and
+ * its parameters
+ * The same inputs always give the same key, so re-running a create after a
+ * timeout returns the object created the first time (Stripe keeps keys for
+ * 24 hours).
+ * @param account Connected account (acct_...), if the request is sent on
+ * one; the same create sent to two accounts must not share a key
+ */
+export function deriveIdempotencyKey(
+  operation: string,
+  params: unknown,
+  account?: string
+): string {
+  const hash = createHash('sha256')
+    .update(`${operation}\n${account ?? ''}\n${stableStringify(params)}`)
+    .digest('hex');
+  return `stripeconf-${operation}-${hash.slice(0, 32)}`;
+}
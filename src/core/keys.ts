@@ -0,0 +1,156 @@
+import type { KeyCapabilities, KeyResource, ProjectConfig } from './types.js';
+import { ValidationError } from './types.js';
+
+/**
+ * Resources checked by the capability probe, in menu order
+ */
+export const KEY_RESOURCES: KeyResource[] = [
+  'products',
+  'prices',
+  'accounts',
+  'webhookEndpoints',
+];
+
+/**
+ * Kind of Stripe API key, from its prefix
+ */
+export type StripeKeyType = 'publishable' | 'secret' | 'restricted';
+
+/**
+ * What a Stripe API key's prefix says about it
+ */
+export interface StripeKeyInfo {
+  type: StripeKeyType;
+  environment: 'test' | 'live';
+  /**
+   * Part of the account ID embedded in keys created since 2019
+   * (`pk_test_51<account fragment>...`); undefined for older keys.
+   */
+  accountFragment?: string;
+}
+
+const KEY_PATTERN = /^(pk|sk|rk)_(test|live)_(\w+)$/;
+const KEY_TYPES: Record<string, StripeKeyType> = {
+  pk: 'publishable',
+  sk: 'secret',
+  rk: 'restricted',
+};
+const ACCOUNT_FRAGMENT_LENGTH = 14;
+
+/**
+ * Parse a Stripe API key
+ * Returns undefined when the key has no recognised prefix.
+ */
+export function parseStripeKey(key: string): StripeKeyInfo | undefined {
+  const match = KEY_PATTERN.exec(key);
+  if (!match) return undefined;
+
+  const [, prefix, environment, body] = match;
+  return {
+    type: KEY_TYPES[prefix],
+    environment: environment as StripeKeyInfo['environment'],
+    ...(body.startsWith('51') &&
+      body.length > ACCOUNT_FRAGMENT_LENGTH + 2 && {
+        accountFragment: body.slice(2, ACCOUNT_FRAGMENT_LENGTH + 2),
+      }),
+  };
+}
+
+/**
+ * Whether a project's key can use a resource
+ * Keys without recorded capabilities are assumed to have full access.
+ */
+export function canUse(
+  project: Pick<ProjectConfig, 'capabilities'>,
+  resource: KeyResource
+): boolean {
+  return project.capabilities?.[resource] !== false;
+}
+
+/**
+ * Resources a probed key can read, in menu order
+ */
+export function usableResources(capabilities: KeyCapabilities): KeyResource[] {
+  return KEY_RESOURCES.filter((resource) => capabilities[resource]);
+}
+
+/**
+ * Environment the given keys belong to, if any of them says
+ */
+export function inferEnvironment(
+  ...keys: (string | undefined)[]
+): 'test' | 'live' | undefined {
+  for (const key of keys) {
+    const info = key ? parseStripeKey(key) : undefined;
+    if (info) return info.environment;
+  }
+  return undefined;
+}
+
+/**
+ * Check that a project's keys have the expected prefixes, match its
+ * environment and come from the same account
+ * Throws ValidationError naming the offending field.
+ * @param secretKey The secret key, when it has been resolved
+ */
+export function checkProjectKeys(
+  project: Pick<ProjectConfig, 'environment' | 'publishableKey'>,
+  secretKey?: string
+): void {
+  const publishable = parseStripeKey(project.publishableKey);
+  if (!publishable || publishable.type !== 'publishable') {
+    throw new ValidationError(
+      'publishableKey must start with pk_test_ or pk_live_',
+      'publishableKey'
+    );
+  }
+  if (publishable.environment !== project.environment) {
+    throw new ValidationError(
+      `publishableKey is a ${publishable.environment} key, but the project environment is ${project.environment}`,
+      'publishableKey'
+    );
+  }
+
+  if (secretKey === undefined) return;
+
+  const secret = parseStripeKey(secretKey);
+  if (!secret || secret.type === 'publishable') {
+    throw new ValidationError(
+      'secretKey must start with sk_test_, sk_live_, rk_test_ or rk_live_',
+      'secretKey'
+    );
+  }
+  if (secret.environment !== project.environment) {
+    throw new ValidationError(
+      `secretKey is a ${secret.environment} key, but the project environment is ${project.environment}`,
+      'secretKey'
+    );
+  }
+  if (
+    publishable.accountFragment &&
+    secret.accountFragment &&
+    publishable.accountFragment !== secret.accountFragment
+  ) {
+    throw new ValidationError(
+      'publishableKey and secretKey belong to different Stripe accounts',
+      'publishableKey'
+    );
+  }
+}
+
+/**
+ * Check that a publishable key belongs to the given account
+ * Keys without an embedded account fragment cannot be checked and pass.
+ */
+export function checkKeyAccount(
+  publishableKey: string,
+  accountId: string
+): void {
+  const fragment = parseStripeKey(publishableKey)?.accountFragment;
+  if (fragment && !accountId.includes(fragment)) {
+    throw new ValidationError(
+      `publishableKey does not belong to account ${accountId}`,
+      'publishableKey'
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import type { StripeClientEvent } from './types.js';
+
+/** Secret and restricted API keys and webhook signing secrets */
+const SECRET_PATTERN = /\b(?:(?:sk|rk)_(?:test|live)_|whsec_)[A-Za-z0-9]+/g;
+
+/**
+ * Mask API keys and webhook secrets in a text
+ * Keeps the prefix and the last four characters, like the dashboard.
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(SECRET_PATTERN, (secret) => {
+    const prefix = /^[a-z]+_(?:test_|live_)?/.exec(secret)?.[0] ?? '';
+    return secret.length - prefix.length <= 8
+      ? `${prefix}****`
+      : `${prefix}…${secret.slice(-4)}`;
+  });
+}
+
+function seconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function requestDetails(event: {
+  stripeAccount?: string;
+  idempotencyKey?: string;
+}): string {
+  const details = [
+    event.stripeAccount && `account ${event.stripeAccount}`,
+    event.idempotencyKey && `idempotency key ${event.idempotencyKey}`,
+  ].filter(Boolean);
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+/**
+ * One-line description of a StripeClient event
+ */
+export function formatEvent(event: StripeClientEvent): string {
+  switch (event.type) {
+    case 'request':
+      return `→ ${event.method} ${event.path}${requestDetails(event)}`;
+    case 'response':
+      return `← ${event.status} ${event.method} ${event.path} ${event.elapsedMs}ms${event.requestId ? ` ${event.requestId}` : ''}`;
+    case 'retry':
+      return `↻ ${event.operation} failed (${event.error.message}), retrying in ${seconds(event.delayMs)} (attempt ${event.attempt + 1}/${event.maxAttempts})`;
+    case 'dry_run': {
+      const params = event.params ? ` ${JSON.stringify(event.params)}` : '';
+      return `[dry run] ${event.method} ${event.path}${params}${requestDetails(event)}`;
+    }
+    case 'error': {
+      const { error } = event;
+      const status = error.statusCode ? `${error.statusCode} ` : '';
+      const request = error.requestId ? ` (request ${error.requestId})` : '';
+      return `✖ ${event.operation} failed after ${event.attempts} attempt(s) in ${seconds(event.elapsedMs)}: ${status}${error.message}${request}`;
+    }
+  }
+}
+
+/**
+ * Event hook that writes each event as a line, for
+ * StripeClientOptions.onEvent
+ * @param write Line writer (defaults to stderr)
+ */
+export function createConsoleLogger(
+  write: (line: string) => void = (line) => console.error(line)
+): (event: StripeClientEvent) => void {
+  return (event) => write(redactSecrets(formatEvent(event)));
+}
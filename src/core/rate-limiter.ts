@@ -0,0 +1,64 @@
+import type { RateLimitOptions, RequestLimiter } from './types.js';
+
+const DEFAULT_MAX_CONCURRENT = 10;
+const DEFAULT_REQUESTS_PER_SECOND = 25;
+const WINDOW_MS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Client-side limit on concurrent and per-second requests
+ * Every StripeClient has one; pass the same instance as
+ * StripeClientOptions.rateLimiter to share a budget between clients.
+ */
+export class RateLimiter implements RequestLimiter {
+  private maxConcurrent: number;
+  private requestsPerSecond: number;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  /** Start times of the requests in the current one-second window */
+  private started: number[] = [];
+
+  /**
+   * Create a limiter
+   * @param options Limits (defaults: 10 concurrent, 25 per second)
+   */
+  constructor(options: RateLimitOptions = {}) {
+    this.maxConcurrent = options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT;
+    this.requestsPerSecond =
+      options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+  }
+
+  /**
+   * Run a task once the limits allow it
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      if (this.active >= this.maxConcurrent) {
+        await new Promise<void>((resolve) => this.waiting.push(resolve));
+        continue;
+      }
+
+      const now = Date.now();
+      this.started = this.started.filter((time) => now - time < WINDOW_MS);
+      if (this.started.length < this.requestsPerSecond) {
+        this.active++;
+        this.started.push(now);
+        return;
+      }
+      await sleep(this.started[0] + WINDOW_MS - now);
+    }
+  }
+}
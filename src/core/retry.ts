@@ -0,0 +1,75 @@
+import type { RetryOptions } from './types.js';
+
+/**
+ * Retry policy used when StripeClientOptions.retry is not given
+ */
+export const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+  jitter: true,
+};
+
+/**
+ * The fields of a Stripe error that decide whether to retry
+ */
+type RetryableError = Partial<{
+  type: string;
+  statusCode: number;
+  headers: Partial<Record<string, unknown>>;
+}>;
+
+function asRetryableError(error: unknown): RetryableError {
+  return typeof error === 'object' && error !== null
+    ? (error as RetryableError)
+    : {};
+}
+
+function header(error: unknown, name: string): string | undefined {
+  const value = asRetryableError(error).headers?.[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Whether a failed Stripe request may succeed when sent again
+ * Follows Stripe's `Stripe-Should-Retry` header when present; otherwise
+ * connection errors, rate limits (429), lock conflicts (409) and server
+ * errors (5xx) are retryable.
+ */
+export function isRetryable(error: unknown): boolean {
+  const shouldRetry = header(error, 'stripe-should-retry');
+  if (shouldRetry !== undefined) return shouldRetry === 'true';
+
+  const { type, statusCode: status } = asRetryableError(error);
+  if (type === 'StripeConnectionError') return true;
+
+  return (
+    status === 409 ||
+    status === 429 ||
+    (typeof status === 'number' && status >= 500)
+  );
+}
+
+/**
+ * Milliseconds to wait before retrying a request
+ * A `Retry-After` header on the error wins over the computed backoff, but
+ * is still capped at `maxDelayMs`.
+ * @param attempt Number of the attempt that failed (1 for the first one)
+ */
+export function retryDelay(
+  attempt: number,
+  policy: Required<RetryOptions>,
+  error?: unknown,
+  random: () => number = Math.random
+): number {
+  const retryAfter = Number(header(error, 'retry-after'));
+  if (retryAfter > 0) return Math.min(retryAfter * 1000, policy.maxDelayMs);
+
+  const backoff = Math.min(
+    policy.initialDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  return policy.jitter
+    ? Math.round(backoff / 2 + (random() * backoff) / 2)
+    : backoff;
+}
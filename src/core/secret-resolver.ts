@@ -0,0 +1,140 @@
+import { execFileSync, execSync } from 'child_process';
+import type { ProjectConfig, SecretResolver } from './types.js';
+import { ConfigError } from './types.js';
+
+/**
+ * Resolves the value part of a secret reference for one scheme
+ */
+export type SecretProvider = (value: string) => string;
+
+const COMMAND_TIMEOUT_MS = 30_000;
+
+function fromEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new ConfigError(`Environment variable ${name} is not set`);
+  }
+  return value;
+}
+
+function fromCommand(command: string): string {
+  try {
+    return execSync(command, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: COMMAND_TIMEOUT_MS,
+    });
+  } catch (error) {
+    const { stderr } = error as { stderr?: Buffer | string };
+    const detail = stderr?.toString().trim().split('\n')[0];
+    throw new ConfigError(
+      `Secret command failed: ${command}${detail ? ` (${detail})` : ''}`
+    );
+  }
+}
+
+/**
+ * Read a generic password from the OS keychain
+ * The value is `service` or `service/account`.
+ */
+function fromKeychain(value: string): string {
+  if (process.platform === 'win32') {
+    throw new ConfigError('keychain: references are not supported on Windows');
+  }
+
+  const [service, account] = value.split('/', 2);
+  const [command, args] =
+    process.platform === 'darwin'
+      ? [
+          'security',
+          [
+            'find-generic-password',
+            '-s',
+            service,
+            ...(account ? ['-a', account] : []),
+            '-w',
+          ],
+        ]
+      : [
+          'secret-tool',
+          [
+            'lookup',
+            'service',
+            service,
+            ...(account ? ['account', account] : []),
+          ],
+        ];
+
+  try {
+    return execFileSync(command, args, {
+      encoding: 'utf-8',
+      stdio: ['ignore', 'pipe', 'pipe'],
+      timeout: COMMAND_TIMEOUT_MS,
+    });
+  } catch {
+    throw new ConfigError(`Keychain item "${value}" not found`);
+  }
+}
+
+/**
+ * Default resolver for `env:`, `cmd:` and `keychain:` references
+ * Extra schemes can be registered through the constructor.
+ */
+export class DefaultSecretResolver implements SecretResolver {
+  private providers: Record<string, SecretProvider>;
+
+  /**
+   * Create a resolver
+   * @param providers Additional or replacement providers, by scheme
+   */
+  constructor(providers: Record<string, SecretProvider> = {}) {
+    this.providers = {
+      env: fromEnv,
+      cmd: fromCommand,
+      keychain: fromKeychain,
+      ...providers,
+    };
+  }
+
+  /**
+   * Resolve a reference such as `env:STRIPE_SK_ACME`
+   */
+  resolve(ref: string): string {
+    const index = ref.indexOf(':');
+    if (index <= 0) {
+      throw new ConfigError(
+        `Invalid secret reference "${ref}" (expected scheme:value)`
+      );
+    }
+
+    const scheme = ref.slice(0, index);
+    const provider = this.providers[scheme];
+    if (!provider) {
+      throw new ConfigError(`Unknown secret reference scheme "${scheme}"`);
+    }
+
+    const value = provider(ref.slice(index + 1)).trim();
+    if (!value) {
+      throw new ConfigError(`Secret reference "${ref}" resolved to nothing`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Get a project's secret key, resolving secretKeyRef when set
+ */
+export function resolveSecretKey(
+  project: ProjectConfig,
+  resolver: SecretResolver = new DefaultSecretResolver()
+): string {
+  if (project.secretKeyRef) {
+    return resolver.resolve(project.secretKeyRef);
+  }
+  if (project.secretKey) {
+    return project.secretKey;
+  }
+  throw new ConfigError(
+    `Project "${project.name}" has no secretKey or secretKeyRef`
+  );
+}
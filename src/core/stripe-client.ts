@@ -11,8 +11,127 @@ import type {
   CreateAccountLinkInput,
   ConnectListOptions,
   CreateWebhookEndpointInput,
+  WebhookListOptions,
+  IterateOptions,
+  KeyCapabilities,
+  KeyResource,
+  RequestLimiter,
+  RetryEvent,
+  RetryOptions,
+  StripeClientEvent,
+  StripeClientOptions,
+  StripeDryRunEvent,
+  StripeErrorKind,
+  WithIdempotencyKey,
 } from './types.js';
-import { StripeClientError } from './types.js';
+import { StripeClientError, ValidationError } from './types.js';
+import { resolveSecretKey } from './secret-resolver.js';
+import { RateLimiter } from './rate-limiter.js';
+import { DEFAULT_RETRY, isRetryable, retryDelay } from './retry.js';
+import { deriveIdempotencyKey } from './idempotency.js';
+import { checkApiVersion, effectiveApiVersion } from './api-version.js';
+import { redactSecrets } from './logger.js';
+import {
+  checkAccountLinkInput,
+  checkConnectAccountInput,
+  checkObjectId,
+  checkPriceInput,
+  checkProductInput,
+  checkUpdate,
+  checkWebhookEndpointInput,
+  dryRunId,
+} from './dry-run.js';
+import {
+  KEY_RESOURCES,
+  checkKeyAccount,
+  checkProjectKeys,
+  parseStripeKey,
+} from './keys.js';
+
+/** How long an account link stays valid, for links made in dry-run mode */
+const ACCOUNT_LINK_TTL_SECONDS = 5 * 60;
+
+const STRIPE_API_URL = 'https://api.stripe.com';
+
+/**
+ * Error shaped like the SDK's for a failed response to a request sent
+ * without it, so toClientError and isRetryable treat it the same way
+ */
+async function responseError(
+  response: Response,
+  requestId?: string
+): Promise<Error> {
+  const body = (await response.json().catch(() => ({}))) as {
+    error?: {
+      message?: string;
+      code?: string;
+      param?: string;
+      doc_url?: string;
+    };
+  };
+  const raw = body.error ?? {};
+  return Object.assign(
+    new Error(raw.message ?? `Stripe responded with HTTP ${response.status}`),
+    {
+      statusCode: response.status,
+      code: raw.code,
+      param: raw.param,
+      doc_url: raw.doc_url,
+      requestId,
+      headers: Object.fromEntries(response.headers),
+    }
+  );
+}
+
+/** Error kinds by the SDK's error type; others are derived from the status */
+const STRIPE_ERROR_KINDS: Record<string, StripeErrorKind> = {
+  StripeCardError: 'card',
+  StripeInvalidRequestError: 'invalid_request',
+  StripeAuthenticationError: 'authentication',
+  StripePermissionError: 'permission',
+  StripeRateLimitError: 'rate_limit',
+  StripeIdempotencyError: 'idempotency',
+  StripeConnectionError: 'connection',
+  StripeAPIError: 'api',
+};
+
+/** Stripe's request rate limits per second, by environment */
+const STRIPE_RATE_LIMITS = { test: 25, live: 100 };
+
+/**
+ * A create, update or delete request
+ */
+interface Mutation<T> {
+  operation: string;
+  method: StripeDryRunEvent['method'];
+  path: string;
+  params?: object;
+  idempotencyKey?: string;
+  send: () => Promise<T>;
+  /** Validates the input and builds the result returned in dry-run mode */
+  preview: () => T | Promise<T>;
+}
+
+/**
+ * A create request; send gets the idempotency key in its request options
+ */
+interface CreateMutation<T> extends Omit<Mutation<T>, 'method' | 'send'> {
+  params: object;
+  send: (options: Stripe.RequestOptions) => Promise<T>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function checkAccountId(accountId: string): void {
+  if (!/^acct_\w+$/.test(accountId)) {
+    throw new ValidationError(
+      `Invalid connected account ID "${accountId}" (expected acct_...)`,
+      'stripeAccount'
+    );
+  }
+}
 
 /**
  * Wrapper around Stripe SDK for type-safe API operations
@@ -20,34 +139,290 @@ import { StripeClientError } from './types.js';
 export class StripeClient {
   private stripe: Stripe;
   private project: ProjectConfig;
+  private secretKey: string;
+  private retry: Required<RetryOptions>;
+  private limiter: RequestLimiter;
+  private onRetry?: (event: RetryEvent) => void;
+  private onEvent?: (event: StripeClientEvent) => void;
+  private options: StripeClientOptions;
 
   /**
    * Create a new StripeClient instance
+   * Throws ValidationError when a key does not match the project environment.
    * @param project Project configuration containing API keys
+   * @param options Client options (e.g. a custom secret resolver)
    */
-  constructor(project: ProjectConfig) {
-    this.project = project;
-    this.stripe = new Stripe(project.secretKey, {
-      apiVersion: '2023-10-16',
+  constructor(project: ProjectConfig, options: StripeClientOptions = {}) {
+    const secretKey = resolveSecretKey(project, options.secretResolver);
+    checkProjectKeys(project, secretKey);
+
+    if (options.stripeAccount !== undefined) {
+      checkAccountId(options.stripeAccount);
+    }
+    const apiVersion = options.apiVersion ?? effectiveApiVersion(project);
+    checkApiVersion(apiVersion);
+
+    this.project = { ...project, apiVersion };
+    this.secretKey = secretKey;
+    this.options = options;
+    this.retry =
+      options.retry === false
+        ? { ...DEFAULT_RETRY, maxAttempts: 1 }
+        : { ...DEFAULT_RETRY, ...options.retry };
+    this.limiter =
+      options.rateLimiter ??
+      new RateLimiter({
+        requestsPerSecond: STRIPE_RATE_LIMITS[project.environment],
+        ...options.rateLimit,
+      });
+    this.onRetry = options.onRetry;
+    this.stripe = new Stripe(secretKey, {
+      // The SDK's types only name the version it was generated for
+      apiVersion: apiVersion as Stripe.LatestApiVersion,
+      // Retries are handled by request()
+      maxNetworkRetries: 0,
+      ...(options.stripeAccount && { stripeAccount: options.stripeAccount }),
+      ...(options.host && { host: options.host }),
+      ...(options.port && { port: options.port }),
+      ...(options.protocol && { protocol: options.protocol }),
     });
+
+    const onEvent = options.onEvent;
+    this.onEvent = onEvent;
+    if (onEvent) {
+      this.stripe.on('request', (event) =>
+        onEvent({
+          type: 'request',
+          method: event.method,
+          path: event.path,
+          apiVersion: event.api_version,
+          ...(event.account && { stripeAccount: event.account }),
+          ...(event.idempotency_key && {
+            idempotencyKey: event.idempotency_key,
+          }),
+        })
+      );
+      this.stripe.on('response', (event) =>
+        onEvent({
+          type: 'response',
+          method: event.method,
+          path: event.path,
+          status: event.status,
+          requestId: event.request_id,
+          elapsedMs: event.elapsed,
+        })
+      );
+    }
   }
 
   /**
    * Get the current project configuration
+   * apiVersion is the version requests are sent with, including overrides
+   * and the default.
    */
   getProject(): ProjectConfig {
     return this.project;
   }
 
   /**
-   * Handle Stripe API errors and wrap them in StripeClientError
+   * Get the connected account this client acts on, if any
+   */
+  getStripeAccount(): string | undefined {
+    return this.options.stripeAccount;
+  }
+
+  /**
+   * Get a client that acts on a connected account
+   * Every request it sends carries the `Stripe-Account` header, so products,
+   * prices and webhook endpoints are read and written on the merchant's
+   * account. The new client shares this one's rate limiter.
+   * @param accountId Connected account ID (acct_...)
+   */
+  forAccount(accountId: string): StripeClient {
+    checkAccountId(accountId);
+    return new StripeClient(this.project, {
+      ...this.options,
+      // The key is already resolved; don't run a secret command again
+      secretResolver: { resolve: () => this.secretKey },
+      rateLimiter: this.limiter,
+      stripeAccount: accountId,
+    });
+  }
+
+  /**
+   * Wrap a Stripe API error in StripeClientError
+   * Keeps Stripe's request ID and error details, and masks any key quoted
+   * in the message.
+   */
+  private toClientError(error: unknown): StripeClientError {
+    const details: Partial<Stripe.errors.StripeError> =
+      typeof error === 'object' && error !== null ? error : {};
+    const message = redactSecrets(
+      details.message || 'Unknown Stripe API error'
+    );
+
+    return new StripeClientError(
+      message,
+      details.statusCode,
+      details.code,
+      details.requestId,
+      {
+        kind: details.type && STRIPE_ERROR_KINDS[details.type],
+        param: details.param,
+        docUrl: details.doc_url,
+        raw: error,
+      }
+    );
+  }
+
+  /**
+   * Send a Stripe API call through the rate limiter, retrying transient
+   * failures with backoff; errors are thrown as StripeClientError
+   * @param operation Name passed to the hooks, e.g. `products.create`
+   * @param idempotencyKey Key of a create request, passed to the retry hook
+   */
+  private async request<T>(
+    operation: string,
+    call: () => Promise<T>,
+    idempotencyKey?: string
+  ): Promise<T> {
+    const { maxAttempts } = this.retry;
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.limiter.schedule(call);
+      } catch (error) {
+        const clientError = this.toClientError(error);
+        if (attempt >= maxAttempts || !isRetryable(error)) {
+          this.onEvent?.({
+            type: 'error',
+            operation,
+            attempts: attempt,
+            elapsedMs: Date.now() - startedAt,
+            error: clientError,
+          });
+          throw clientError;
+        }
+
+        const retry: RetryEvent = {
+          operation,
+          attempt,
+          maxAttempts,
+          delayMs: retryDelay(attempt, this.retry, error),
+          ...(idempotencyKey && { idempotencyKey }),
+          error: clientError,
+        };
+        this.onRetry?.(retry);
+        this.onEvent?.({ type: 'retry', ...retry });
+        await sleep(retry.delayMs);
+      }
+    }
+  }
+
+  /**
+   * Send a create, update or delete request, or in dry-run mode validate it,
+   * report it and return its preview instead
    */
-  private handleStripeError(error: any): never {
-    const message = error.message || 'Unknown Stripe API error';
-    const statusCode = error.statusCode;
-    const code = error.code;
+  private async mutate<T>(mutation: Mutation<T>): Promise<T> {
+    const { send, preview, ...request } = mutation;
+    if (!this.options.dryRun) {
+      return this.request(request.operation, send, request.idempotencyKey);
+    }
 
-    throw new StripeClientError(message, statusCode, code);
+    const result = await preview();
+    const { stripeAccount } = this.options;
+    this.onEvent?.({
+      type: 'dry_run',
+      ...request,
+      ...(stripeAccount && { stripeAccount }),
+    });
+    return result;
+  }
+
+  /**
+   * Send a create request with an idempotency key, so our retries cannot
+   * create duplicates
+   * When not given, the key is derived from the operation, the account and
+   * the request parameters.
+   */
+  private async create<T>(
+    mutation: CreateMutation<T>
+  ): Promise<WithIdempotencyKey<T>> {
+    const { operation, params, send } = mutation;
+    const key =
+      mutation.idempotencyKey ??
+      deriveIdempotencyKey(operation, params, this.options.stripeAccount);
+    const result = await this.mutate({
+      ...mutation,
+      method: 'POST',
+      idempotencyKey: key,
+      send: () => send({ idempotencyKey: key }),
+    });
+    return { ...result, idempotencyKey: key };
+  }
+
+  /**
+   * Object returned by a create in dry-run mode
+   * @param fields Defaults Stripe would fill in, overridden by params
+   */
+  private synthetic<T>(
+    prefix: string,
+    object: string,
+    params: object,
+    fields: object = {}
+  ): T {
+    return {
+      id: dryRunId(prefix, params),
+      object,
+      created: Math.floor(Date.now() / 1000),
+      livemode: this.project.environment === 'live',
+      metadata: {},
+      ...fields,
+      ...params,
+    } as T;
+  }
+
+  /**
+   * Follow has_more/starting_after until the list is exhausted or maxItems
+   * items have been yielded. The last page is shrunk to what is still needed.
+   */
+  private async *paginate<T extends { id: string }>(
+    fetchPage: (page: {
+      limit: number;
+      starting_after?: string;
+    }) => Promise<Stripe.ApiList<T>>,
+    pageSize: number,
+    maxItems?: number
+  ): AsyncGenerator<T> {
+    let remaining = maxItems ?? Infinity;
+    let startingAfter: string | undefined;
+
+    while (remaining > 0) {
+      const page = await fetchPage({
+        limit: Math.min(pageSize, remaining),
+        ...(startingAfter && { starting_after: startingAfter }),
+      });
+
+      for (const item of page.data.slice(0, remaining)) {
+        yield item;
+      }
+      remaining -= page.data.length;
+
+      if (!page.has_more || page.data.length === 0) return;
+      startingAfter = page.data[page.data.length - 1].id;
+    }
+  }
+
+  /**
+   * Drain an async iterator into an array
+   */
+  private async collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
   }
 
   // ==================== Product Operations ====================
@@ -57,25 +432,31 @@ export class StripeClient {
    */
   async createProduct(
     input: CreateProductInput
-  ): Promise<Stripe.Product> {
-    try {
-      const product = await this.stripe.products.create(input);
-      return product;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+  ): Promise<WithIdempotencyKey<Stripe.Product>> {
+    const { idempotencyKey, ...params } = input;
+    return this.create({
+      operation: 'products.create',
+      path: '/v1/products',
+      params,
+      idempotencyKey,
+      send: (options) => this.stripe.products.create(params, options),
+      preview: () => {
+        checkProductInput(params);
+        return this.synthetic('prod', 'product', params, {
+          active: true,
+          images: [],
+        });
+      },
+    });
   }
 
   /**
    * Retrieve a product by ID
    */
   async getProduct(productId: string): Promise<Stripe.Product> {
-    try {
-      const product = await this.stripe.products.retrieve(productId);
-      return product;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.request('products.retrieve', () =>
+      this.stripe.products.retrieve(productId)
+    );
   }
 
   /**
@@ -85,46 +466,84 @@ export class StripeClient {
     productId: string,
     updates: UpdateProductInput
   ): Promise<Stripe.Product> {
-    try {
-      const product = await this.stripe.products.update(productId, updates);
-      return product;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.mutate({
+      operation: 'products.update',
+      method: 'POST',
+      path: `/v1/products/${productId}`,
+      params: updates,
+      send: () => this.stripe.products.update(productId, updates),
+      preview: async () => {
+        checkObjectId(productId, 'prod', 'productId');
+        checkUpdate(updates);
+        return { ...(await this.getProduct(productId)), ...updates };
+      },
+    });
   }
 
   /**
    * Delete a product
    */
   async deleteProduct(productId: string): Promise<void> {
-    try {
-      await this.stripe.products.del(productId);
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    await this.mutate({
+      operation: 'products.del',
+      method: 'DELETE',
+      path: `/v1/products/${productId}`,
+      send: async () => {
+        await this.stripe.products.del(productId);
+      },
+      preview: async () => {
+        checkObjectId(productId, 'prod', 'productId');
+        await this.getProduct(productId);
+      },
+    });
   }
 
   /**
    * List products with optional filters
+   * Returns a single page; use listAllProducts or iterateProducts for more
    */
-  async listProducts(
-    options?: ListOptions
+  async listProducts(options?: ListOptions): Promise<Stripe.Product[]> {
+    const page = await this.fetchProductPage(options);
+    return page.data;
+  }
+
+  /**
+   * Iterate over every product, fetching pages on demand
+   */
+  async *iterateProducts(
+    options?: Omit<ListOptions, 'ending_before'> & IterateOptions
+  ): AsyncGenerator<Stripe.Product> {
+    yield* this.paginate(
+      (page) => this.fetchProductPage({ ...options, ...page }),
+      options?.limit || 100,
+      options?.maxItems
+    );
+  }
+
+  /**
+   * List every product in the account (up to maxItems)
+   */
+  async listAllProducts(
+    options?: Omit<ListOptions, 'ending_before'> & IterateOptions
   ): Promise<Stripe.Product[]> {
-    try {
-      const params: Stripe.ProductListParams = {
-        limit: options?.limit || 100,
-        ...(options?.starting_after && {
-          starting_after: options.starting_after,
-        }),
-        ...(options?.ending_before && { ending_before: options.ending_before }),
-        ...(options?.active !== undefined && { active: options.active }),
-      };
-
-      const response = await this.stripe.products.list(params);
-      return response.data;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.collect(this.iterateProducts(options));
+  }
+
+  private async fetchProductPage(
+    options?: ListOptions
+  ): Promise<Stripe.ApiList<Stripe.Product>> {
+    const params: Stripe.ProductListParams = {
+      limit: options?.limit || 100,
+      ...(options?.starting_after && {
+        starting_after: options.starting_after,
+      }),
+      ...(options?.ending_before && { ending_before: options.ending_before }),
+      ...(options?.active !== undefined && { active: options.active }),
+    };
+
+    return this.request('products.list', () =>
+      this.stripe.products.list(params)
+    );
   }
 
   // ==================== Price Operations ====================
@@ -134,25 +553,31 @@ export class StripeClient {
    */
   async createPrice(
     input: CreatePriceInput
-  ): Promise<Stripe.Price> {
-    try {
-      const price = await this.stripe.prices.create(input);
-      return price;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+  ): Promise<WithIdempotencyKey<Stripe.Price>> {
+    const { idempotencyKey, ...params } = input;
+    return this.create({
+      operation: 'prices.create',
+      path: '/v1/prices',
+      params,
+      idempotencyKey,
+      send: (options) => this.stripe.prices.create(params, options),
+      preview: () => {
+        checkPriceInput(params);
+        return this.synthetic('price', 'price', params, {
+          active: true,
+          type: params.recurring ? 'recurring' : 'one_time',
+        });
+      },
+    });
   }
 
   /**
    * Retrieve a price by ID
    */
   async getPrice(priceId: string): Promise<Stripe.Price> {
-    try {
-      const price = await this.stripe.prices.retrieve(priceId);
-      return price;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.request('prices.retrieve', () =>
+      this.stripe.prices.retrieve(priceId)
+    );
   }
 
   /**
@@ -163,40 +588,70 @@ export class StripeClient {
     priceId: string,
     updates: UpdatePriceInput
   ): Promise<Stripe.Price> {
-    try {
-      const price = await this.stripe.prices.update(priceId, updates);
-      return price;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.mutate({
+      operation: 'prices.update',
+      method: 'POST',
+      path: `/v1/prices/${priceId}`,
+      params: updates,
+      send: () => this.stripe.prices.update(priceId, updates),
+      preview: async () => {
+        checkObjectId(priceId, 'price', 'priceId');
+        checkUpdate(updates);
+        return { ...(await this.getPrice(priceId)), ...updates };
+      },
+    });
   }
 
   /**
    * List prices with optional filters
+   * Returns a single page; use listAllPrices or iteratePrices for more
    */
-  async listPrices(
-    options?: PriceListOptions
+  async listPrices(options?: PriceListOptions): Promise<Stripe.Price[]> {
+    const page = await this.fetchPricePage(options);
+    return page.data;
+  }
+
+  /**
+   * Iterate over every price matching the filters, fetching pages on demand
+   */
+  async *iteratePrices(
+    options?: Omit<PriceListOptions, 'ending_before'> & IterateOptions
+  ): AsyncGenerator<Stripe.Price> {
+    yield* this.paginate(
+      (page) => this.fetchPricePage({ ...options, ...page }),
+      options?.limit || 100,
+      options?.maxItems
+    );
+  }
+
+  /**
+   * List every price matching the filters (up to maxItems)
+   */
+  async listAllPrices(
+    options?: Omit<PriceListOptions, 'ending_before'> & IterateOptions
   ): Promise<Stripe.Price[]> {
-    try {
-      const params: Stripe.PriceListParams = {
-        limit: options?.limit || 100,
-        ...(options?.starting_after && {
-          starting_after: options.starting_after,
-        }),
-        ...(options?.ending_before && { ending_before: options.ending_before }),
-        ...(options?.active !== undefined && { active: options.active }),
-        ...(options?.product && { product: options.product }),
-        ...(options?.type && { type: options.type }),
-        ...(options?.recurring?.interval && {
-          recurring: { interval: options.recurring.interval },
-        }),
-      };
-
-      const response = await this.stripe.prices.list(params);
-      return response.data;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.collect(this.iteratePrices(options));
+  }
+
+  private async fetchPricePage(
+    options?: PriceListOptions
+  ): Promise<Stripe.ApiList<Stripe.Price>> {
+    const params: Stripe.PriceListParams = {
+      limit: options?.limit || 100,
+      ...(options?.starting_after && {
+        starting_after: options.starting_after,
+      }),
+      ...(options?.ending_before && { ending_before: options.ending_before }),
+      ...(options?.active !== undefined && { active: options.active }),
+      ...(options?.product && { product: options.product }),
+      ...(options?.type && { type: options.type }),
+      ...(options?.recurring?.interval && {
+        recurring: { interval: options.recurring.interval },
+      }),
+      ...(options?.expand && { expand: options.expand }),
+    };
+
+    return this.request('prices.list', () => this.stripe.prices.list(params));
   }
 
   /**
@@ -212,12 +667,122 @@ export class StripeClient {
    * Retrieve the platform's own account (no ID = your account)
    */
   async getPlatformAccount(): Promise<Stripe.Account> {
+    return this.request('accounts.retrieve', () =>
+      this.stripe.accounts.retrieve()
+    );
+  }
+
+  /**
+   * Get the account's default API version
+   * The SDK always sends a version, so this asks Stripe directly without
+   * one and reads the version of the response. Returns undefined when
+   * Stripe does not say.
+   */
+  async getAccountApiVersion(): Promise<string | undefined> {
+    const { stripeAccount, host, port, protocol } = this.options;
+    const apiUrl = host
+      ? `${protocol ?? 'https'}://${host}${port ? `:${port}` : ''}`
+      : STRIPE_API_URL;
+    const path = '/v1/account';
+
+    return this.request('account.apiVersion', async () => {
+      this.onEvent?.({
+        type: 'request',
+        method: 'GET',
+        path,
+        ...(stripeAccount && { stripeAccount }),
+      });
+      const startedAt = Date.now();
+      let response: Response;
+      try {
+        response = await fetch(`${apiUrl}${path}`, {
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            ...(stripeAccount && { 'Stripe-Account': stripeAccount }),
+          },
+        });
+      } catch (error) {
+        throw Object.assign(
+          new Error(`Could not reach Stripe: ${(error as Error).message}`),
+          {
+            type: 'StripeConnectionError',
+          }
+        );
+      }
+
+      const requestId = response.headers.get('request-id') ?? undefined;
+      this.onEvent?.({
+        type: 'response',
+        method: 'GET',
+        path,
+        status: response.status,
+        requestId,
+        elapsedMs: Date.now() - startedAt,
+      });
+      if (!response.ok) {
+        throw await responseError(response, requestId);
+      }
+      await response.body?.cancel();
+      return response.headers.get('stripe-version') ?? undefined;
+    });
+  }
+
+  /**
+   * Check that the keys work and both belong to the same account
+   * Returns the account, or undefined for restricted keys that may not read
+   * it. Throws ValidationError when the publishable key belongs to another
+   * account.
+   */
+  async verifyKeys(): Promise<Stripe.Account | undefined> {
+    let account: Stripe.Account;
     try {
-      const account = await this.stripe.accounts.retrieve();
-      return account;
+      account = await this.getPlatformAccount();
     } catch (error) {
-      this.handleStripeError(error);
+      const restricted =
+        this.hasRestrictedKey() &&
+        error instanceof StripeClientError &&
+        error.statusCode === 403;
+      if (restricted) return undefined;
+      throw error;
     }
+
+    checkKeyAccount(this.project.publishableKey, account.id);
+    return account;
+  }
+
+  /**
+   * Whether the client uses a restricted key (`rk_test_`/`rk_live_`)
+   */
+  hasRestrictedKey(): boolean {
+    return parseStripeKey(this.secretKey)?.type === 'restricted';
+  }
+
+  /**
+   * Find out which resources the key can read
+   * Makes one cheap list call per resource; permission errors (403) mark the
+   * resource as unavailable, any other error is thrown.
+   */
+  async probeCapabilities(): Promise<KeyCapabilities> {
+    const probes: Record<KeyResource, () => Promise<unknown>> = {
+      products: () => this.stripe.products.list({ limit: 1 }),
+      prices: () => this.stripe.prices.list({ limit: 1 }),
+      accounts: () => this.stripe.accounts.list({ limit: 1 }),
+      webhookEndpoints: () => this.stripe.webhookEndpoints.list({ limit: 1 }),
+    };
+
+    const capabilities = {} as KeyCapabilities;
+    for (const resource of KEY_RESOURCES) {
+      try {
+        await this.request(`${resource}.list`, probes[resource]);
+        capabilities[resource] = true;
+      } catch (error) {
+        const denied =
+          error instanceof StripeClientError && error.statusCode === 403;
+        if (!denied) throw error;
+        capabilities[resource] = false;
+      }
+    }
+    return capabilities;
   }
 
   /**
@@ -225,13 +790,23 @@ export class StripeClient {
    */
   async createConnectAccount(
     input: CreateConnectAccountInput
-  ): Promise<Stripe.Account> {
-    try {
-      const account = await this.stripe.accounts.create(input);
-      return account;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+  ): Promise<WithIdempotencyKey<Stripe.Account>> {
+    const { idempotencyKey, ...params } = input;
+    return this.create({
+      operation: 'accounts.create',
+      path: '/v1/accounts',
+      params,
+      idempotencyKey,
+      send: (options) => this.stripe.accounts.create(params, options),
+      preview: () => {
+        checkConnectAccountInput(params);
+        return this.synthetic('acct', 'account', params, {
+          charges_enabled: false,
+          payouts_enabled: false,
+          details_submitted: false,
+        });
+      },
+    });
   }
 
   /**
@@ -239,53 +814,89 @@ export class StripeClient {
    */
   async createAccountLink(
     input: CreateAccountLinkInput
-  ): Promise<Stripe.AccountLink> {
-    try {
-      const params: Stripe.AccountLinkCreateParams = {
-        account: input.account,
-        refresh_url: input.refresh_url,
-        return_url: input.return_url,
-        type: input.type || 'account_onboarding',
-      };
-      const link = await this.stripe.accountLinks.create(params);
-      return link;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+  ): Promise<WithIdempotencyKey<Stripe.AccountLink>> {
+    const params: Stripe.AccountLinkCreateParams = {
+      account: input.account,
+      refresh_url: input.refresh_url,
+      return_url: input.return_url,
+      type: input.type || 'account_onboarding',
+    };
+    return this.create({
+      operation: 'accountLinks.create',
+      path: '/v1/account_links',
+      params,
+      idempotencyKey: input.idempotencyKey,
+      send: (options) => this.stripe.accountLinks.create(params, options),
+      preview: () => {
+        checkAccountLinkInput(input);
+        const created = Math.floor(Date.now() / 1000);
+        return {
+          object: 'account_link',
+          created,
+          expires_at: created + ACCOUNT_LINK_TTL_SECONDS,
+          url: `https://connect.stripe.com/setup/dry-run/${params.account}`,
+        };
+      },
+    });
   }
 
   /**
    * Retrieve a connected account by ID
    */
   async getConnectAccount(accountId: string): Promise<Stripe.Account> {
-    try {
-      const account = await this.stripe.accounts.retrieve(accountId);
-      return account;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    return this.request('accounts.retrieve', () =>
+      this.stripe.accounts.retrieve(accountId)
+    );
   }
 
   /**
    * List connected accounts
+   * Returns a single page; use listAllConnectAccounts or
+   * iterateConnectAccounts for more
    */
   async listConnectAccounts(
     options?: ConnectListOptions
   ): Promise<Stripe.Account[]> {
-    try {
-      const params: Stripe.AccountListParams = {
-        limit: options?.limit || 20,
-        ...(options?.starting_after && {
-          starting_after: options.starting_after,
-        }),
-        ...(options?.ending_before && { ending_before: options.ending_before }),
-      };
-
-      const response = await this.stripe.accounts.list(params);
-      return response.data;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    const page = await this.fetchConnectAccountPage(options);
+    return page.data;
+  }
+
+  /**
+   * Iterate over every connected account, fetching pages on demand
+   */
+  async *iterateConnectAccounts(
+    options?: Omit<ConnectListOptions, 'ending_before'> & IterateOptions
+  ): AsyncGenerator<Stripe.Account> {
+    yield* this.paginate(
+      (page) => this.fetchConnectAccountPage({ ...options, ...page }),
+      options?.limit || 100,
+      options?.maxItems
+    );
+  }
+
+  /**
+   * List every connected account (up to maxItems)
+   */
+  async listAllConnectAccounts(
+    options?: Omit<ConnectListOptions, 'ending_before'> & IterateOptions
+  ): Promise<Stripe.Account[]> {
+    return this.collect(this.iterateConnectAccounts(options));
+  }
+
+  private async fetchConnectAccountPage(
+    options?: ConnectListOptions
+  ): Promise<Stripe.ApiList<Stripe.Account>> {
+    const params: Stripe.AccountListParams = {
+      limit: options?.limit || 20,
+      ...(options?.starting_after && {
+        starting_after: options.starting_after,
+      }),
+      ...(options?.ending_before && { ending_before: options.ending_before }),
+    };
+
+    return this.request('accounts.list', () =>
+      this.stripe.accounts.list(params)
+    );
   }
 
   // ==================== Webhook Operations ====================
@@ -296,47 +907,94 @@ export class StripeClient {
    */
   async createWebhookEndpoint(
     input: CreateWebhookEndpointInput
-  ): Promise<Stripe.WebhookEndpoint> {
-    try {
-      const params: Stripe.WebhookEndpointCreateParams = {
-        url: input.url,
-        enabled_events: input.enabled_events as Stripe.WebhookEndpointCreateParams.EnabledEvent[],
-        ...(input.description && { description: input.description }),
-        ...(input.metadata && { metadata: input.metadata }),
-        ...(input.connect && { connect: input.connect }),
-      };
-
-      const endpoint = await this.stripe.webhookEndpoints.create(params);
-      return endpoint;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+  ): Promise<WithIdempotencyKey<Stripe.WebhookEndpoint>> {
+    const params: Stripe.WebhookEndpointCreateParams = {
+      url: input.url,
+      enabled_events:
+        input.enabled_events as Stripe.WebhookEndpointCreateParams.EnabledEvent[],
+      ...(input.description && { description: input.description }),
+      ...(input.metadata && { metadata: input.metadata }),
+      ...(input.connect && { connect: input.connect }),
+    };
+
+    return this.create({
+      operation: 'webhookEndpoints.create',
+      path: '/v1/webhook_endpoints',
+      params,
+      idempotencyKey: input.idempotencyKey,
+      send: (options) => this.stripe.webhookEndpoints.create(params, options),
+      preview: () => {
+        checkWebhookEndpointInput(input);
+        return this.synthetic('we', 'webhook_endpoint', params, {
+          status: 'enabled',
+          secret: 'whsec_dryrun',
+        });
+      },
+    });
   }
 
   /**
    * List webhook endpoints
+   * Returns a single page; use listAllWebhookEndpoints or
+   * iterateWebhookEndpoints for more
    */
   async listWebhookEndpoints(
-    options?: { limit?: number }
+    options?: WebhookListOptions
   ): Promise<Stripe.WebhookEndpoint[]> {
-    try {
-      const response = await this.stripe.webhookEndpoints.list({
-        limit: options?.limit || 20,
-      });
-      return response.data;
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    const page = await this.fetchWebhookEndpointPage(options);
+    return page.data;
+  }
+
+  /**
+   * Iterate over every webhook endpoint, fetching pages on demand
+   */
+  async *iterateWebhookEndpoints(
+    options?: Omit<WebhookListOptions, 'ending_before'> & IterateOptions
+  ): AsyncGenerator<Stripe.WebhookEndpoint> {
+    yield* this.paginate(
+      (page) => this.fetchWebhookEndpointPage({ ...options, ...page }),
+      options?.limit || 100,
+      options?.maxItems
+    );
+  }
+
+  /**
+   * List every webhook endpoint (up to maxItems)
+   */
+  async listAllWebhookEndpoints(
+    options?: Omit<WebhookListOptions, 'ending_before'> & IterateOptions
+  ): Promise<Stripe.WebhookEndpoint[]> {
+    return this.collect(this.iterateWebhookEndpoints(options));
+  }
+
+  private async fetchWebhookEndpointPage(
+    options?: WebhookListOptions
+  ): Promise<Stripe.ApiList<Stripe.WebhookEndpoint>> {
+    const params: Stripe.WebhookEndpointListParams = {
+      limit: options?.limit || 20,
+      ...(options?.starting_after && {
+        starting_after: options.starting_after,
+      }),
+      ...(options?.ending_before && { ending_before: options.ending_before }),
+    };
+
+    return this.request('webhookEndpoints.list', () =>
+      this.stripe.webhookEndpoints.list(params)
+    );
   }
 
   /**
    * Delete a webhook endpoint
    */
   async deleteWebhookEndpoint(endpointId: string): Promise<void> {
-    try {
-      await this.stripe.webhookEndpoints.del(endpointId);
-    } catch (error) {
-      this.handleStripeError(error);
-    }
+    await this.mutate({
+      operation: 'webhookEndpoints.del',
+      method: 'DELETE',
+      path: `/v1/webhook_endpoints/${endpointId}`,
+      send: async () => {
+        await this.stripe.webhookEndpoints.del(endpointId);
+      },
+      preview: () => checkObjectId(endpointId, 'we', 'endpointId'),
+    });
   }
-}
\ No newline at end of file
+}
@@ -14,20 +14,227 @@ export interface ProjectConfig {
   environment: 'test' | 'live';
   /** Stripe publishable key */
   publishableKey: string;
-  /** Stripe secret key */
-  secretKey: string;
+  /** Stripe secret key (omitted when secretKeyRef is used) */
+  secretKey?: string;
+  /**
+   * Reference to the secret key in an external store, used instead of
+   * secretKey: `env:NAME`, `cmd:<command>` or `keychain:service[/account]`
+   */
+  secretKeyRef?: string;
   /** Optional webhook secret for event verification */
   webhookSecret?: string;
   /** Default currency for the project (ISO 4217 code) */
   defaultCurrency: string;
   /** Optional Stripe organization ID for Connect */
   orgId?: string;
+  /** Stripe API version to send requests with (defaults to 2023-10-16) */
+  apiVersion?: string;
+  /**
+   * Resources a restricted (rk_) key can read, recorded by the capability
+   * probe; absent for full-access keys
+   */
+  capabilities?: KeyCapabilities;
+  /**
+   * Secret key replaced by `projects rotate-key`, kept for rolling back
+   * until previousSecretKeyExpiresAt
+   */
+  previousSecretKey?: string;
+  /** When previousSecretKey is dropped from the config (ISO timestamp) */
+  previousSecretKeyExpiresAt?: string;
   /** Timestamp when project was created */
   createdAt: string;
   /** Timestamp when project was last updated */
   updatedAt: string;
 }
 
+/**
+ * Stripe resources checked by the capability probe
+ */
+export type KeyResource =
+  | 'products'
+  | 'prices'
+  | 'accounts'
+  | 'webhookEndpoints';
+
+/**
+ * Whether an API key can read each resource
+ */
+export type KeyCapabilities = Record<KeyResource, boolean>;
+
+/**
+ * Resolves secret references such as `env:STRIPE_SK_ACME`
+ */
+export interface SecretResolver {
+  /** Return the secret a reference points to, or throw ConfigError */
+  resolve(ref: string): string;
+}
+
+/**
+ * Options for StripeClient
+ */
+export interface StripeClientOptions {
+  /** Resolver for the project's secretKeyRef (defaults to env/cmd/keychain) */
+  secretResolver?: SecretResolver;
+  /** Retry policy for transient failures, or false to never retry */
+  retry?: RetryOptions | false;
+  /** Limits for this client's own rate limiter */
+  rateLimit?: RateLimitOptions;
+  /** Limiter shared with other clients; takes precedence over rateLimit */
+  rateLimiter?: RequestLimiter;
+  /** Called before each retry, e.g. to log it */
+  onRetry?: (event: RetryEvent) => void;
+  /** Called for each request, response, retry and failed operation */
+  onEvent?: (event: StripeClientEvent) => void;
+  /** Connected account (acct_...) to act on instead of the platform */
+  stripeAccount?: string;
+  /** Stripe API version, overriding the project's apiVersion */
+  apiVersion?: string;
+  /**
+   * Validate and report creates, updates and deletes (as `dry_run` events)
+   * instead of sending them; reads still go to Stripe
+   */
+  dryRun?: boolean;
+  /** API host, e.g. a FakeStripeBackend's (default api.stripe.com) */
+  host?: string;
+  /** API port (default 443) */
+  port?: number;
+  /** API protocol (default https) */
+  protocol?: 'http' | 'https';
+}
+
+/**
+ * Options for FakeStripeBackend
+ */
+export interface FakeStripeBackendOptions {
+  /** JSON file the data is loaded from and saved to after each change */
+  dataFile?: string;
+  /** Port to listen on (default: any free port) */
+  port?: number;
+  /** ID of the platform account (default: a random acct_...) */
+  accountId?: string;
+  /** The account's default API version (default DEFAULT_API_VERSION) */
+  apiVersion?: string;
+}
+
+/**
+ * Retry policy for failed Stripe requests
+ * Connection errors, rate limits (429), lock conflicts (409) and server
+ * errors (5xx) are retried with exponential backoff.
+ */
+export interface RetryOptions {
+  /** Attempts per request, including the first one (default 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further one (default 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay (default 10000) */
+  maxDelayMs?: number;
+  /** Randomize delays so parallel clients do not retry in lockstep (default true) */
+  jitter?: boolean;
+}
+
+/**
+ * Client-side request limits
+ * Stripe allows 25 requests per second in test mode and 100 in live mode,
+ * which are the defaults for the project's environment.
+ */
+export interface RateLimitOptions {
+  /** Requests in flight at once (default 10) */
+  maxConcurrent?: number;
+  /** Requests started per second */
+  requestsPerSecond?: number;
+}
+
+/**
+ * Schedules requests so they stay within a budget
+ * Implemented by RateLimiter; share one instance to give several clients a
+ * single budget.
+ */
+export interface RequestLimiter {
+  schedule<T>(task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * A request that is about to be retried
+ */
+export interface RetryEvent {
+  /** Stripe operation, e.g. `products.create` */
+  operation: string;
+  /** Number of the attempt that failed (1 for the first one) */
+  attempt: number;
+  maxAttempts: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  /** Idempotency key of a create request */
+  idempotencyKey?: string;
+  error: StripeClientError;
+}
+
+/**
+ * HTTP request sent to Stripe
+ */
+export interface StripeRequestEvent {
+  type: 'request';
+  method: string;
+  /** Request path, e.g. `/v1/products` */
+  path: string;
+  apiVersion?: string;
+  /** Connected account the request acts on */
+  stripeAccount?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * HTTP response received from Stripe, successful or not
+ */
+export interface StripeResponseEvent {
+  type: 'response';
+  method: string;
+  path: string;
+  status: number;
+  /** Stripe's request ID (req_...), quoted to Stripe support */
+  requestId?: string;
+  elapsedMs: number;
+}
+
+/**
+ * Operation that failed for good, after any retries
+ */
+export interface StripeErrorEvent {
+  type: 'error';
+  /** Stripe operation, e.g. `products.create` */
+  operation: string;
+  /** Attempts made, including the first one */
+  attempts: number;
+  /** Time from the first attempt until giving up */
+  elapsedMs: number;
+  error: StripeClientError;
+}
+
+/**
+ * Request a mutating call would have sent in dry-run mode
+ */
+export interface StripeDryRunEvent {
+  type: 'dry_run';
+  /** Stripe operation, e.g. `products.create` */
+  operation: string;
+  method: 'POST' | 'DELETE';
+  path: string;
+  params?: object;
+  stripeAccount?: string;
+  idempotencyKey?: string;
+}
+
+/**
+ * Event passed to StripeClientOptions.onEvent
+ * Secrets in error messages are redacted.
+ */
+export type StripeClientEvent =
+  | StripeRequestEvent
+  | StripeResponseEvent
+  | StripeErrorEvent
+  | StripeDryRunEvent
+  | ({ type: 'retry' } & RetryEvent);
+
 /**
  * Root configuration file structure
  */
@@ -38,12 +245,66 @@ export interface Config {
   projects: ProjectConfig[];
   /** Name of the default project to use */
   defaultProject?: string;
+  /** Object ID mappings recorded by catalog promotions */
+  promotions?: PromotionRecord[];
+  /** Present when project secrets are stored encrypted */
+  encryption?: ConfigEncryption;
+}
+
+/**
+ * Per-repository settings from a .stripeconf.json file
+ */
+export interface LocalConfig {
+  /** Absolute path of the .stripeconf.json file */
+  path: string;
+  /** Project to use for commands run below this directory */
+  project?: string;
+  /** Catalog file, resolved against the directory of the file */
+  catalog?: string;
 }
 
+/**
+ * Settings for encrypted configuration files
+ * Secrets are AES-256-GCM encrypted with a key derived from a passphrase.
+ */
+export interface ConfigEncryption {
+  /** Cipher used for secret values */
+  algorithm: 'aes-256-gcm';
+  /** Key derivation function */
+  kdf: 'scrypt';
+  /** Base64 salt for the key derivation */
+  salt: string;
+  /** scrypt cost parameter */
+  N: number;
+  /** scrypt block size */
+  r: number;
+  /** scrypt parallelization */
+  p: number;
+  /** Known value encrypted with the key, used to verify the passphrase */
+  check: string;
+}
+
+/**
+ * Idempotency key option shared by all create inputs
+ */
+export interface IdempotentInput {
+  /**
+   * Key Stripe uses to recognise a repeated request, so a retried create
+   * returns the original object instead of a duplicate. Derived from the
+   * rest of the input when omitted.
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Result of a create operation, with the idempotency key it was sent with
+ */
+export type WithIdempotencyKey<T> = T & { idempotencyKey: string };
+
 /**
  * Input for creating a new product
  */
-export interface CreateProductInput {
+export interface CreateProductInput extends IdempotentInput {
   /** Product name (required) */
   name: string;
   /** Product description */
@@ -123,7 +384,7 @@ export interface TransformQuantityConfig {
 /**
  * Input for creating a new price
  */
-export interface CreatePriceInput {
+export interface CreatePriceInput extends IdempotentInput {
   /** Product ID this price belongs to */
   product: string;
   /** Currency (ISO 4217 code) */
@@ -148,6 +409,8 @@ export interface CreatePriceInput {
   nickname?: string;
   /** Lookup key for API references */
   lookup_key?: string;
+  /** Move the lookup key from an existing price to this one */
+  transfer_lookup_key?: boolean;
 }
 
 /**
@@ -168,7 +431,7 @@ export interface UpdatePriceInput {
 /**
  * Input for creating a Stripe Connect account
  */
-export interface CreateConnectAccountInput {
+export interface CreateConnectAccountInput extends IdempotentInput {
   /** Account type */
   type: 'express' | 'standard' | 'custom';
   /** Two-letter country code */
@@ -189,7 +452,7 @@ export interface CreateConnectAccountInput {
 /**
  * Input for creating an account onboarding link
  */
-export interface CreateAccountLinkInput {
+export interface CreateAccountLinkInput extends IdempotentInput {
   /** Connected account ID */
   account: string;
   /** URL to redirect if the link expires */
@@ -215,7 +478,7 @@ export interface ConnectListOptions {
 /**
  * Input for creating a webhook endpoint
  */
-export interface CreateWebhookEndpointInput {
+export interface CreateWebhookEndpointInput extends IdempotentInput {
   /** The URL that Stripe will send events to */
   url: string;
   /** Events to listen for */
@@ -254,29 +517,299 @@ export interface PriceListOptions extends ListOptions {
   recurring?: {
     interval?: 'day' | 'week' | 'month' | 'year';
   };
+  /** Fields to expand in the response (e.g. data.tiers) */
+  expand?: string[];
+}
+
+/**
+ * Options for listing webhook endpoints
+ */
+export interface WebhookListOptions {
+  /** Maximum number of items to return */
+  limit?: number;
+  /** Cursor for pagination (ID to start after) */
+  starting_after?: string;
+  /** Cursor for pagination (ID to end before) */
+  ending_before?: string;
+}
+
+/**
+ * Options for iterating over every page of a list
+ * When iterating, `limit` is the page size of each request
+ */
+export interface IterateOptions {
+  /** Stop after this many items (default: no cap) */
+  maxItems?: number;
+}
+
+/**
+ * Price definition in a catalog file
+ * Prices are matched against Stripe by lookup_key
+ */
+export interface CatalogPrice {
+  /** Lookup key identifying this price across accounts */
+  lookup_key: string;
+  /** Currency (ISO 4217 code) */
+  currency: string;
+  /** Price amount in cents */
+  unit_amount?: number;
+  /** Whether the price is active (defaults to true) */
+  active?: boolean;
+  /** Recurring billing configuration */
+  recurring?: RecurringConfig;
+  /** Billing scheme */
+  billing_scheme?: 'per_unit' | 'tiered';
+  /** Tiered pricing configuration */
+  tiers?: TierConfig[];
+  /** Tiers mode */
+  tiers_mode?: 'graduated' | 'volume';
+  /** Quantity transformation */
+  transform_quantity?: TransformQuantityConfig;
+  /** Internal nickname */
+  nickname?: string;
+  /** Custom metadata */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Product definition in a catalog file
+ * Products are matched against Stripe by the stripeconf_id metadata key
+ */
+export interface CatalogProduct {
+  /** Stable catalog identifier, stored in product metadata */
+  id: string;
+  /** Product name */
+  name: string;
+  /** Product description */
+  description?: string;
+  /** Whether the product is active (defaults to true) */
+  active?: boolean;
+  /** Custom metadata key-value pairs */
+  metadata?: Record<string, string>;
+  /** Array of image URLs */
+  images?: string[];
+  /** Stripe tax code */
+  tax_code?: string;
+  /** Unit label */
+  unit_label?: string;
+  /** Statement descriptor */
+  statement_descriptor?: string;
+  /** Prices belonging to this product */
+  prices?: CatalogPrice[];
+}
+
+/**
+ * Root structure of a catalog file (stripe.catalog.json / .yaml)
+ */
+export interface Catalog {
+  /** Catalog file format version */
+  version: number;
+  /** Desired products and their prices */
+  products: CatalogProduct[];
+}
+
+/**
+ * A single field difference between the catalog and Stripe
+ */
+export interface CatalogFieldChange {
+  /** Field name */
+  field: string;
+  /** Current value in Stripe */
+  from: unknown;
+  /** Desired value from the catalog */
+  to: unknown;
+}
+
+/**
+ * A change required to converge Stripe with the catalog
+ * - create: object does not exist in Stripe
+ * - update: mutable fields differ
+ * - replace: immutable price fields differ (create new price, archive old)
+ * - archive: object exists in Stripe but was removed from the catalog
+ */
+export interface CatalogAction {
+  /** Kind of change */
+  action: 'create' | 'update' | 'replace' | 'archive';
+  /** Resource the change applies to */
+  resource: 'product' | 'price';
+  /** Catalog key (product ID or price lookup_key) */
+  key: string;
+  /** Catalog ID of the product (the owning product for prices) */
+  productKey: string;
+  /** Existing Stripe object ID, if any */
+  stripeId?: string;
+  /** Stripe ID of the owning product, when it already exists */
+  productStripeId?: string;
+  /** Field differences (empty for create and archive) */
+  changes: CatalogFieldChange[];
+  /** Desired product definition */
+  product?: CatalogProduct;
+  /** Desired price definition */
+  price?: CatalogPrice;
+}
+
+/**
+ * Result of diffing a catalog against a Stripe account
+ */
+export interface CatalogPlan {
+  /** Ordered list of changes to apply */
+  actions: CatalogAction[];
+  /** Number of catalog objects already in sync */
+  unchanged: number;
+}
+
+/**
+ * Options for planning a catalog
+ */
+export interface CatalogPlanOptions {
+  /** Stripe product IDs to match catalog product IDs against first */
+  productIds?: Record<string, string>;
+  /** Stripe price IDs to match lookup keys against first */
+  priceIds?: Record<string, string>;
+}
+
+/**
+ * Options for exporting a catalog
+ */
+export interface CatalogExportOptions {
+  /** Include archived products and prices (default: false) */
+  includeInactive?: boolean;
+}
+
+/**
+ * Mapping of Stripe object IDs from a source project to a target project
+ */
+export interface PromotionMapping {
+  /** Source product ID -> target product ID */
+  products: Record<string, string>;
+  /** Source price ID -> target price ID */
+  prices: Record<string, string>;
+}
+
+/**
+ * Planned promotion of a source project's catalog to a target project
+ */
+export interface PromotionPlan {
+  /** Catalog built from the source project */
+  catalog: Catalog;
+  /** Changes required in the target project */
+  plan: CatalogPlan;
+  /** Catalog product ID -> source Stripe product ID */
+  sourceProductIds: Record<string, string>;
+  /** Lookup key -> source Stripe price ID */
+  sourcePriceIds: Record<string, string>;
+}
+
+/**
+ * Record of a catalog promotion between two projects
+ */
+export interface PromotionRecord extends PromotionMapping {
+  /** Source project name */
+  from: string;
+  /** Target project name */
+  to: string;
+  /** Timestamp of the last promotion */
+  promotedAt: string;
+}
+
+/**
+ * Outcome of applying a single catalog action
+ */
+export interface CatalogApplyResult {
+  /** The applied action */
+  action: CatalogAction;
+  /** Stripe ID of the created or modified object */
+  stripeId: string;
 }
 
 /**
  * Custom error class for configuration errors
  */
 export class ConfigError extends Error {
-  constructor(message: string) {
+  constructor(
+    message: string,
+    public field?: string
+  ) {
     super(message);
     this.name = 'ConfigError';
   }
 }
 
+/**
+ * What went wrong in a failed Stripe request, from the SDK's error type
+ */
+export type StripeErrorKind =
+  /** The card was declined or its details are wrong */
+  | 'card'
+  /** Invalid parameters or an unknown ID; see `param` */
+  | 'invalid_request'
+  /** The API key is invalid, expired or revoked */
+  | 'authentication'
+  /** The key may not perform the request (e.g. a restricted key) */
+  | 'permission'
+  | 'rate_limit'
+  /** The idempotency key was reused with different parameters */
+  | 'idempotency'
+  /** Stripe could not be reached */
+  | 'connection'
+  /** A problem on Stripe's side */
+  | 'api'
+  | 'unknown';
+
+/**
+ * Details of a StripeClientError beyond status and code
+ */
+export interface StripeClientErrorDetails {
+  /** Derived from statusCode when not given */
+  kind?: StripeErrorKind;
+  /** Request parameter the error is about */
+  param?: string;
+  /** Stripe documentation for the error code */
+  docUrl?: string;
+  /** The original error thrown by the Stripe SDK */
+  raw?: unknown;
+}
+
+function kindFromStatus(statusCode?: number): StripeErrorKind {
+  switch (statusCode) {
+    case 400:
+    case 404:
+      return 'invalid_request';
+    case 401:
+      return 'authentication';
+    case 402:
+      return 'card';
+    case 403:
+      return 'permission';
+    case 429:
+      return 'rate_limit';
+  }
+  return statusCode !== undefined && statusCode >= 500 ? 'api' : 'unknown';
+}
+
 /**
  * Custom error class for Stripe API errors
  */
 export class StripeClientError extends Error {
+  kind: StripeErrorKind;
+  param?: string;
+  docUrl?: string;
+  raw?: unknown;
+
   constructor(
     message: string,
     public statusCode?: number,
-    public code?: string
+    public code?: string,
+    /** Stripe's request ID (req_...), when the request reached Stripe */
+    public requestId?: string,
+    details: StripeClientErrorDetails = {}
   ) {
     super(message);
     this.name = 'StripeClientError';
+    this.kind = details.kind ?? kindFromStatus(statusCode);
+    this.param = details.param;
+    this.docUrl = details.docUrl;
+    this.raw = details.raw;
   }
 }
 
@@ -291,4 +824,4 @@ export class ValidationError extends Error {
     super(message);
     this.name = 'ValidationError';
   }
-}
\ No newline at end of file
+}
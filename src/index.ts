@@ -1,12 +1,61 @@
 /**
  * @profullstack/stripe-config
- * 
+ *
  * ESM module for programmatic access to Stripe configuration and management
  */
 
 // Export core classes
-export { ConfigManager } from './core/config-manager.js';
+export { ConfigManager, LOCAL_CONFIG_FILE } from './core/config-manager.js';
 export { StripeClient } from './core/stripe-client.js';
+export {
+  CatalogReconciler,
+  CATALOG_ID_METADATA_KEY,
+  loadCatalog,
+  parseCatalog,
+  validateCatalog,
+  planCatalog,
+} from './core/catalog.js';
+export {
+  CatalogExporter,
+  buildCatalog,
+  serializeCatalog,
+} from './core/catalog-exporter.js';
+export { CatalogPromoter } from './core/catalog-promoter.js';
+export { RateLimiter } from './core/rate-limiter.js';
+export { FakeStripeBackend } from './core/fake-stripe-backend.js';
+export { DEFAULT_RETRY, isRetryable, retryDelay } from './core/retry.js';
+export {
+  DEFAULT_API_VERSION,
+  apiVersionWarnings,
+  checkApiVersion,
+  effectiveApiVersion,
+} from './core/api-version.js';
+export {
+  createConsoleLogger,
+  formatEvent,
+  redactSecrets,
+} from './core/logger.js';
+export {
+  KEY_RESOURCES,
+  canUse,
+  checkKeyAccount,
+  checkProjectKeys,
+  inferEnvironment,
+  parseStripeKey,
+  usableResources,
+} from './core/keys.js';
+export type { StripeKeyInfo, StripeKeyType } from './core/keys.js';
+export {
+  DefaultSecretResolver,
+  resolveSecretKey,
+} from './core/secret-resolver.js';
+export type { SecretProvider } from './core/secret-resolver.js';
+export {
+  CONFIG_VERSION,
+  migrateConfig,
+  validateConfig,
+  validateLocalConfig,
+} from './core/config-schema.js';
 
 // Export all types
 export type {
@@ -25,10 +74,45 @@ export type {
   CreateAccountLinkInput,
   ConnectListOptions,
   CreateWebhookEndpointInput,
+  WebhookListOptions,
+  IterateOptions,
+  Catalog,
+  CatalogProduct,
+  CatalogPrice,
+  CatalogPlan,
+  CatalogAction,
+  CatalogFieldChange,
+  CatalogApplyResult,
+  CatalogPlanOptions,
+  CatalogExportOptions,
+  PromotionMapping,
+  PromotionRecord,
+  ConfigEncryption,
+  LocalConfig,
+  KeyResource,
+  KeyCapabilities,
+  SecretResolver,
+  StripeClientOptions,
+  RetryOptions,
+  RateLimitOptions,
+  RequestLimiter,
+  RetryEvent,
+  StripeClientEvent,
+  StripeRequestEvent,
+  StripeResponseEvent,
+  StripeErrorEvent,
+  StripeDryRunEvent,
+  StripeErrorKind,
+  StripeClientErrorDetails,
+  FakeStripeBackendOptions,
 } from './core/types.js';
 
 // Export custom errors
-export { ConfigError, StripeClientError, ValidationError } from './core/types.js';
+export {
+  ConfigError,
+  StripeClientError,
+  ValidationError,
+} from './core/types.js';
 
 /**
  * Product Manager - High-level API for product operations
@@ -36,8 +120,8 @@ export { ConfigError, StripeClientError, ValidationError } from './core/types.js
 export class ProductManager {
   private stripeClient: StripeClient;
 
-  constructor(project: ProjectConfig) {
-    this.stripeClient = new StripeClient(project);
+  constructor(project: ProjectConfig, options?: StripeClientOptions) {
+    this.stripeClient = new StripeClient(project, options);
   }
 
   /**
@@ -74,6 +158,20 @@ export class ProductManager {
   async list(options?: ListOptions) {
     return this.stripeClient.listProducts(options);
   }
+
+  /**
+   * List all products across pages (up to maxItems)
+   */
+  async listAll(options?: Omit<ListOptions, 'ending_before'> & IterateOptions) {
+    return this.stripeClient.listAllProducts(options);
+  }
+
+  /**
+   * Iterate over all products, fetching pages on demand
+   */
+  iterate(options?: Omit<ListOptions, 'ending_before'> & IterateOptions) {
+    return this.stripeClient.iterateProducts(options);
+  }
 }
 
 /**
@@ -82,8 +180,8 @@ export class ProductManager {
 export class PriceManager {
   private stripeClient: StripeClient;
 
-  constructor(project: ProjectConfig) {
-    this.stripeClient = new StripeClient(project);
+  constructor(project: ProjectConfig, options?: StripeClientOptions) {
+    this.stripeClient = new StripeClient(project, options);
   }
 
   /**
@@ -121,6 +219,22 @@ export class PriceManager {
     return this.stripeClient.listPrices(options);
   }
 
+  /**
+   * List all prices across pages (up to maxItems)
+   */
+  async listAll(
+    options?: Omit<PriceListOptions, 'ending_before'> & IterateOptions
+  ) {
+    return this.stripeClient.listAllPrices(options);
+  }
+
+  /**
+   * Iterate over all prices, fetching pages on demand
+   */
+  iterate(options?: Omit<PriceListOptions, 'ending_before'> & IterateOptions) {
+    return this.stripeClient.iteratePrices(options);
+  }
+
   /**
    * List prices for a specific product
    */
@@ -135,8 +249,8 @@ export class PriceManager {
 export class ConnectManager {
   private stripeClient: StripeClient;
 
-  constructor(project: ProjectConfig) {
-    this.stripeClient = new StripeClient(project);
+  constructor(project: ProjectConfig, options?: StripeClientOptions) {
+    this.stripeClient = new StripeClient(project, options);
   }
 
   /**
@@ -167,6 +281,24 @@ export class ConnectManager {
     return this.stripeClient.listConnectAccounts(options);
   }
 
+  /**
+   * List all connected accounts across pages (up to maxItems)
+   */
+  async listAll(
+    options?: Omit<ConnectListOptions, 'ending_before'> & IterateOptions
+  ) {
+    return this.stripeClient.listAllConnectAccounts(options);
+  }
+
+  /**
+   * Iterate over all connected accounts, fetching pages on demand
+   */
+  iterate(
+    options?: Omit<ConnectListOptions, 'ending_before'> & IterateOptions
+  ) {
+    return this.stripeClient.iterateConnectAccounts(options);
+  }
+
   /**
    * Create a webhook endpoint
    */
@@ -177,10 +309,19 @@ export class ConnectManager {
   /**
    * List webhook endpoints
    */
-  async listWebhooks(options?: { limit?: number }) {
+  async listWebhooks(options?: WebhookListOptions) {
     return this.stripeClient.listWebhookEndpoints(options);
   }
 
+  /**
+   * List all webhook endpoints across pages (up to maxItems)
+   */
+  async listAllWebhooks(
+    options?: Omit<WebhookListOptions, 'ending_before'> & IterateOptions
+  ) {
+    return this.stripeClient.listAllWebhookEndpoints(options);
+  }
+
   /**
    * Delete a webhook endpoint
    */
@@ -190,5 +331,20 @@ export class ConnectManager {
 }
 
 // Re-import types for the managers
-import type { ProjectConfig, CreateProductInput, UpdateProductInput, CreatePriceInput, UpdatePriceInput, ListOptions, PriceListOptions, CreateConnectAccountInput, CreateAccountLinkInput, ConnectListOptions, CreateWebhookEndpointInput } from './core/types.js';
-import { StripeClient } from './core/stripe-client.js';
\ No newline at end of file
+import type {
+  ProjectConfig,
+  CreateProductInput,
+  UpdateProductInput,
+  CreatePriceInput,
+  UpdatePriceInput,
+  ListOptions,
+  PriceListOptions,
+  CreateConnectAccountInput,
+  CreateAccountLinkInput,
+  ConnectListOptions,
+  CreateWebhookEndpointInput,
+  WebhookListOptions,
+  IterateOptions,
+  StripeClientOptions,
+} from './core/types.js';
+import { StripeClient } from './core/stripe-client.js';
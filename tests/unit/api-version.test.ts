@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_API_VERSION,
+  apiVersionWarnings,
+  checkApiVersion,
+  effectiveApiVersion,
+} from '../../src/core/api-version';
+import { ValidationError } from '../../src/core/types';
+
+describe('api-version', () => {
+  describe('checkApiVersion', () => {
+    it('should accept dated versions with an optional release name', () => {
+      expect(() => checkApiVersion('2024-06-20')).not.toThrow();
+      expect(() => checkApiVersion('2024-09-30.acacia')).not.toThrow();
+    });
+
+    it('should reject anything else', () => {
+      expect(() => checkApiVersion('latest')).toThrow(ValidationError);
+      expect(() => checkApiVersion('2024-6-20')).toThrow(ValidationError);
+    });
+  });
+
+  describe('effectiveApiVersion', () => {
+    it('should fall back to the default version', () => {
+      expect(effectiveApiVersion({})).toBe(DEFAULT_API_VERSION);
+      expect(effectiveApiVersion({ apiVersion: '2024-06-20' })).toBe(
+        '2024-06-20'
+      );
+    });
+  });
+
+  describe('apiVersionWarnings', () => {
+    const projects = [
+      { name: 'acme-test', apiVersion: '2024-06-20' },
+      { name: 'acme-live', apiVersion: '2024-06-20' },
+      { name: 'legacy' },
+      { name: 'other' },
+    ];
+
+    it('should not warn about unpinned projects', () => {
+      expect(
+        apiVersionWarnings({ name: 'legacy' }, projects, '2022-11-15')
+      ).toEqual([]);
+    });
+
+    it('should warn when the pin differs from the account default', () => {
+      expect(
+        apiVersionWarnings(projects[0], projects.slice(0, 2), '2022-11-15')
+      ).toEqual([
+        'acme-test pins API version 2024-06-20, but the account default is 2022-11-15',
+      ]);
+      expect(
+        apiVersionWarnings(projects[0], projects.slice(0, 2), '2024-06-20')
+      ).toEqual([]);
+    });
+
+    it('should group other projects by the version they use', () => {
+      expect(apiVersionWarnings(projects[0], projects)).toEqual([
+        `acme-test pins API version 2024-06-20, but legacy, other use ${DEFAULT_API_VERSION}`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type Stripe from 'stripe';
+import YAML from 'yaml';
+import {
+  CatalogExporter,
+  serializeCatalog,
+} from '../../src/core/catalog-exporter';
+import { CATALOG_ID_METADATA_KEY, planCatalog } from '../../src/core/catalog';
+import type { StripeClient } from '../../src/core/stripe-client';
+
+const products = [
+  {
+    id: 'prod_b',
+    name: 'Team',
+    description: null,
+    active: true,
+    images: [],
+    metadata: { tier: 'team' },
+    tax_code: null,
+    unit_label: null,
+    statement_descriptor: null,
+  },
+  {
+    id: 'prod_a',
+    name: 'Pro',
+    description: 'For professionals',
+    active: true,
+    images: ['https://example.com/pro.png'],
+    metadata: { [CATALOG_ID_METADATA_KEY]: 'pro', b: '2', a: '1' },
+    tax_code: { id: 'txcd_10000000' },
+    unit_label: 'seat',
+    statement_descriptor: null,
+  },
+] as unknown as Stripe.Product[];
+
+const prices = [
+  {
+    id: 'price_2',
+    product: 'prod_a',
+    currency: 'usd',
+    unit_amount: 29000,
+    active: true,
+    billing_scheme: 'per_unit',
+    lookup_key: 'pro_yearly',
+    nickname: null,
+    metadata: {},
+    recurring: { interval: 'year', interval_count: 1, usage_type: 'licensed' },
+    tiers_mode: null,
+    transform_quantity: null,
+  },
+  {
+    id: 'price_1',
+    product: 'prod_a',
+    currency: 'usd',
+    unit_amount: 2900,
+    active: true,
+    billing_scheme: 'per_unit',
+    lookup_key: 'pro_monthly',
+    nickname: 'Monthly',
+    metadata: {},
+    recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed' },
+    tiers_mode: null,
+    transform_quantity: null,
+  },
+  {
+    id: 'price_3',
+    product: 'prod_b',
+    currency: 'usd',
+    unit_amount: null,
+    active: true,
+    billing_scheme: 'tiered',
+    lookup_key: null,
+    nickname: null,
+    metadata: {},
+    recurring: { interval: 'month', interval_count: 1, usage_type: 'metered' },
+    tiers: [
+      { up_to: 10, unit_amount: 100, flat_amount: null },
+      { up_to: null, unit_amount: 50, flat_amount: null },
+    ],
+    tiers_mode: 'graduated',
+    transform_quantity: null,
+  },
+] as unknown as Stripe.Price[];
+
+describe('CatalogExporter', () => {
+  let client: Record<string, ReturnType<typeof vi.fn>>;
+  let exporter: CatalogExporter;
+
+  beforeEach(() => {
+    client = {
+      listAllProducts: vi.fn().mockResolvedValue(products),
+      listAllPrices: vi.fn().mockResolvedValue(prices),
+    };
+    exporter = new CatalogExporter(client as unknown as StripeClient);
+  });
+
+  it('should only fetch active objects by default', async () => {
+    await exporter.export();
+
+    expect(client.listAllProducts).toHaveBeenCalledWith({ active: true });
+    expect(client.listAllPrices).toHaveBeenCalledWith({
+      active: true,
+      expand: ['data.tiers'],
+    });
+  });
+
+  it('should include inactive objects when requested', async () => {
+    await exporter.export({ includeInactive: true });
+
+    expect(client.listAllProducts).toHaveBeenCalledWith({
+      active: undefined,
+    });
+  });
+
+  it('should produce a sorted, normalized catalog', async () => {
+    const catalog = await exporter.export();
+
+    expect(catalog).toEqual({
+      version: 1,
+      products: [
+        {
+          id: 'pro',
+          name: 'Pro',
+          description: 'For professionals',
+          metadata: { a: '1', b: '2' },
+          images: ['https://example.com/pro.png'],
+          tax_code: 'txcd_10000000',
+          unit_label: 'seat',
+          prices: [
+            {
+              lookup_key: 'pro_monthly',
+              currency: 'usd',
+              unit_amount: 2900,
+              recurring: { interval: 'month' },
+              nickname: 'Monthly',
+            },
+            {
+              lookup_key: 'pro_yearly',
+              currency: 'usd',
+              unit_amount: 29000,
+              recurring: { interval: 'year' },
+            },
+          ],
+        },
+        {
+          id: 'prod_b',
+          name: 'Team',
+          metadata: { tier: 'team' },
+          prices: [
+            {
+              lookup_key: 'price_3',
+              currency: 'usd',
+              recurring: { interval: 'month', usage_type: 'metered' },
+              billing_scheme: 'tiered',
+              tiers: [
+                { up_to: 10, unit_amount: 100 },
+                { up_to: 'inf', unit_amount: 50 },
+              ],
+              tiers_mode: 'graduated',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should be stable across repeated exports', async () => {
+    const first = serializeCatalog(await exporter.export(), 'json');
+    client.listAllProducts.mockResolvedValue([...products].reverse());
+    client.listAllPrices.mockResolvedValue([...prices].reverse());
+    const second = serializeCatalog(await exporter.export(), 'json');
+
+    expect(second).toBe(first);
+  });
+
+  it('should sort by code unit rather than locale', async () => {
+    client.listAllProducts.mockResolvedValue([
+      { ...products[1], metadata: { [CATALOG_ID_METADATA_KEY]: 'basic' } },
+      {
+        ...products[1],
+        id: 'prod_c',
+        metadata: { [CATALOG_ID_METADATA_KEY]: 'Pro' },
+      },
+    ]);
+    client.listAllPrices.mockResolvedValue([
+      { ...prices[1], lookup_key: 'monthly' },
+      { ...prices[1], id: 'price_4', lookup_key: 'Yearly' },
+    ]);
+
+    const catalog = await exporter.export();
+
+    expect(catalog.products.map((p) => p.id)).toEqual(['Pro', 'basic']);
+    expect(catalog.products[1].prices.map((p) => p.lookup_key)).toEqual([
+      'Yearly',
+      'monthly',
+    ]);
+  });
+
+  it('should serialize to YAML', async () => {
+    const catalog = await exporter.export();
+
+    expect(YAML.parse(serializeCatalog(catalog, 'yaml'))).toEqual(catalog);
+  });
+
+  it('should round-trip through the planner by adopting untagged objects', async () => {
+    const catalog = await exporter.export();
+    const plan = planCatalog(catalog, products, prices);
+
+    expect(plan.actions.map((a) => [a.action, a.resource, a.key])).toEqual([
+      ['update', 'product', 'prod_b'],
+      ['update', 'price', 'price_3'],
+    ]);
+    expect(plan.actions[0].changes).toEqual([
+      {
+        field: 'metadata',
+        from: { tier: 'team' },
+        to: { tier: 'team', [CATALOG_ID_METADATA_KEY]: 'prod_b' },
+      },
+    ]);
+    expect(plan.actions[1].changes).toEqual([
+      { field: 'lookup_key', from: null, to: 'price_3' },
+    ]);
+  });
+});
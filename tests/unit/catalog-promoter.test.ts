@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type Stripe from 'stripe';
+import { CatalogPromoter } from '../../src/core/catalog-promoter';
+import { CATALOG_ID_METADATA_KEY } from '../../src/core/catalog';
+import type { StripeClient } from '../../src/core/stripe-client';
+
+function product(id: string, metadata: Record<string, string> = {}) {
+  return {
+    id,
+    name: 'Pro',
+    description: null,
+    active: true,
+    images: [],
+    metadata,
+    tax_code: null,
+    unit_label: null,
+    statement_descriptor: null,
+  } as unknown as Stripe.Product;
+}
+
+function price(id: string, productId: string, lookupKey: string | null) {
+  return {
+    id,
+    product: productId,
+    currency: 'usd',
+    unit_amount: 2900,
+    active: true,
+    billing_scheme: 'per_unit',
+    lookup_key: lookupKey,
+    nickname: null,
+    metadata: {},
+    recurring: { interval: 'month', interval_count: 1, usage_type: 'licensed' },
+    tiers_mode: null,
+    transform_quantity: null,
+  } as unknown as Stripe.Price;
+}
+
+function mockClient(products: Stripe.Product[], prices: Stripe.Price[]) {
+  return {
+    listAllProducts: vi.fn().mockResolvedValue(products),
+    listAllPrices: vi.fn().mockResolvedValue(prices),
+    createProduct: vi.fn().mockResolvedValue({ id: 'prod_live' }),
+    updateProduct: vi.fn().mockResolvedValue({}),
+    createPrice: vi.fn().mockResolvedValue({ id: 'price_live' }),
+    updatePrice: vi.fn().mockResolvedValue({}),
+    archivePrice: vi.fn().mockResolvedValue({}),
+  };
+}
+
+describe('CatalogPromoter', () => {
+  let source: ReturnType<typeof mockClient>;
+  let target: ReturnType<typeof mockClient>;
+  let promoter: CatalogPromoter;
+
+  beforeEach(() => {
+    source = mockClient(
+      [product('prod_test', { [CATALOG_ID_METADATA_KEY]: 'pro' })],
+      [price('price_test', 'prod_test', 'pro_monthly')]
+    );
+    target = mockClient([], []);
+    promoter = new CatalogPromoter(
+      source as unknown as StripeClient,
+      target as unknown as StripeClient
+    );
+  });
+
+  it('should plan creating missing objects in the target', async () => {
+    const promotion = await promoter.plan();
+
+    expect(promotion.sourceProductIds).toEqual({ pro: 'prod_test' });
+    expect(promotion.sourcePriceIds).toEqual({ pro_monthly: 'price_test' });
+    expect(
+      promotion.plan.actions.map((a) => [a.action, a.resource, a.key])
+    ).toEqual([
+      ['create', 'product', 'pro'],
+      ['create', 'price', 'pro_monthly'],
+    ]);
+  });
+
+  it('should return the source to target mapping after applying', async () => {
+    const promotion = await promoter.plan();
+    target.listAllProducts.mockResolvedValue([
+      product('prod_live', { [CATALOG_ID_METADATA_KEY]: 'pro' }),
+    ]);
+    target.listAllPrices.mockResolvedValue([
+      price('price_live', 'prod_live', 'pro_monthly'),
+    ]);
+
+    const mapping = await promoter.apply(promotion);
+
+    expect(target.createPrice).toHaveBeenCalledWith(
+      expect.objectContaining({ product: 'prod_live' })
+    );
+    expect(mapping).toEqual({
+      products: { prod_test: 'prod_live' },
+      prices: { price_test: 'price_live' },
+    });
+  });
+
+  it('should be a no-op when the target is already in sync', async () => {
+    target.listAllProducts.mockResolvedValue([
+      product('prod_live', { [CATALOG_ID_METADATA_KEY]: 'pro' }),
+    ]);
+    target.listAllPrices.mockResolvedValue([
+      price('price_live', 'prod_live', 'pro_monthly'),
+    ]);
+
+    const promotion = await promoter.plan();
+
+    expect(promotion.plan.actions).toEqual([]);
+  });
+
+  it('should use a recorded mapping when catalog keys changed', async () => {
+    // Promoted earlier while the test product was untagged
+    target.listAllProducts.mockResolvedValue([
+      product('prod_live', { [CATALOG_ID_METADATA_KEY]: 'prod_test' }),
+    ]);
+    target.listAllPrices.mockResolvedValue([
+      price('price_live', 'prod_live', 'pro_monthly'),
+    ]);
+
+    const promotion = await promoter.plan({
+      products: { prod_test: 'prod_live' },
+      prices: { price_test: 'price_live' },
+    });
+
+    expect(promotion.plan.actions).toHaveLength(1);
+    expect(promotion.plan.actions[0]).toMatchObject({
+      action: 'update',
+      resource: 'product',
+      stripeId: 'prod_live',
+      changes: [
+        {
+          field: 'metadata',
+          from: { [CATALOG_ID_METADATA_KEY]: 'prod_test' },
+          to: { [CATALOG_ID_METADATA_KEY]: 'pro' },
+        },
+      ],
+    });
+  });
+});
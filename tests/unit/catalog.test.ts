@@ -0,0 +1,369 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type Stripe from 'stripe';
+import {
+  CatalogReconciler,
+  CATALOG_ID_METADATA_KEY,
+  parseCatalog,
+  planCatalog,
+  validateCatalog,
+} from '../../src/core/catalog';
+import type { StripeClient } from '../../src/core/stripe-client';
+import { ValidationError } from '../../src/core/types';
+import type { Catalog } from '../../src/core/types';
+
+function stripeProduct(overrides: Partial<Stripe.Product> = {}) {
+  return {
+    id: 'prod_pro',
+    object: 'product',
+    name: 'Pro',
+    description: null,
+    active: true,
+    images: [],
+    metadata: { [CATALOG_ID_METADATA_KEY]: 'pro' },
+    ...overrides,
+  } as unknown as Stripe.Product;
+}
+
+function stripePrice(overrides: Partial<Stripe.Price> = {}) {
+  return {
+    id: 'price_pro_monthly',
+    object: 'price',
+    product: 'prod_pro',
+    currency: 'usd',
+    unit_amount: 2900,
+    active: true,
+    billing_scheme: 'per_unit',
+    lookup_key: 'pro_monthly',
+    nickname: null,
+    metadata: {},
+    recurring: {
+      interval: 'month',
+      interval_count: 1,
+      usage_type: 'licensed',
+    },
+    tiers_mode: null,
+    transform_quantity: null,
+    ...overrides,
+  } as unknown as Stripe.Price;
+}
+
+function catalog(overrides: Partial<Catalog> = {}): Catalog {
+  return {
+    version: 1,
+    products: [
+      {
+        id: 'pro',
+        name: 'Pro',
+        prices: [
+          {
+            lookup_key: 'pro_monthly',
+            currency: 'usd',
+            unit_amount: 2900,
+            recurring: { interval: 'month' },
+          },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('catalog', () => {
+  describe('validateCatalog', () => {
+    it('should accept a valid catalog and lowercase currencies', () => {
+      const raw = catalog();
+      raw.products[0].prices![0].currency = 'USD';
+
+      const result = validateCatalog(raw);
+
+      expect(result.products[0].prices![0].currency).toBe('usd');
+    });
+
+    it('should reject an unsupported version', () => {
+      expect(() => validateCatalog({ version: 2, products: [] })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should name the offending field', () => {
+      const raw = catalog();
+      (raw.products[0].prices![0] as any).recurring = { interval: 'hour' };
+
+      try {
+        validateCatalog(raw);
+        expect.fail('should have thrown');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.field).toBe('products[0].prices[0].recurring.interval');
+      }
+    });
+
+    it('should reject duplicate lookup keys', () => {
+      const raw = catalog();
+      raw.products.push({
+        id: 'team',
+        name: 'Team',
+        prices: [
+          { lookup_key: 'pro_monthly', currency: 'usd', unit_amount: 1 },
+        ],
+      });
+
+      expect(() => validateCatalog(raw)).toThrow(/duplicated/);
+    });
+
+    it('should reject the reserved metadata key', () => {
+      const raw = catalog();
+      raw.products[0].metadata = { [CATALOG_ID_METADATA_KEY]: 'other' };
+
+      expect(() => validateCatalog(raw)).toThrow(/reserved/);
+    });
+  });
+
+  describe('parseCatalog', () => {
+    it('should parse YAML catalogs', () => {
+      const yaml = [
+        'version: 1',
+        'products:',
+        '  - id: pro',
+        '    name: Pro',
+        '    prices:',
+        '      - lookup_key: pro_monthly',
+        '        currency: usd',
+        '        unit_amount: 2900',
+      ].join('\n');
+
+      const result = parseCatalog(yaml, 'yaml');
+
+      expect(result.products[0].prices![0].lookup_key).toBe('pro_monthly');
+    });
+
+    it('should throw ValidationError for malformed JSON', () => {
+      expect(() => parseCatalog('{', 'json')).toThrow(ValidationError);
+    });
+  });
+
+  describe('planCatalog', () => {
+    it('should report no changes when Stripe matches the catalog', () => {
+      const plan = planCatalog(catalog(), [stripeProduct()], [stripePrice()]);
+
+      expect(plan.actions).toEqual([]);
+      expect(plan.unchanged).toBe(2);
+    });
+
+    it('should create missing products and prices', () => {
+      const plan = planCatalog(catalog(), [], []);
+
+      expect(plan.actions.map((a) => [a.action, a.resource, a.key])).toEqual([
+        ['create', 'product', 'pro'],
+        ['create', 'price', 'pro_monthly'],
+      ]);
+    });
+
+    it('should update mutable product fields', () => {
+      const plan = planCatalog(
+        catalog(),
+        [stripeProduct({ name: 'Old Pro' })],
+        [stripePrice()]
+      );
+
+      expect(plan.actions).toHaveLength(1);
+      expect(plan.actions[0]).toMatchObject({
+        action: 'update',
+        resource: 'product',
+        stripeId: 'prod_pro',
+        changes: [{ field: 'name', from: 'Old Pro', to: 'Pro' }],
+      });
+    });
+
+    it('should replace prices whose immutable fields changed', () => {
+      const plan = planCatalog(
+        catalog(),
+        [stripeProduct()],
+        [stripePrice({ unit_amount: 1900 })]
+      );
+
+      expect(plan.actions[0]).toMatchObject({
+        action: 'replace',
+        resource: 'price',
+        stripeId: 'price_pro_monthly',
+        productStripeId: 'prod_pro',
+        changes: [{ field: 'unit_amount', from: 1900, to: 2900 }],
+      });
+    });
+
+    it('should replace tiered prices whose tiers changed', () => {
+      const tiered = catalog();
+      tiered.products[0].prices[0] = {
+        lookup_key: 'pro_monthly',
+        currency: 'usd',
+        recurring: { interval: 'month' },
+        billing_scheme: 'tiered',
+        tiers_mode: 'graduated',
+        tiers: [
+          { up_to: 10, unit_amount: 500 },
+          { up_to: 'inf', unit_amount: 300 },
+        ],
+      };
+      const existing = stripePrice({
+        unit_amount: null,
+        billing_scheme: 'tiered',
+        tiers_mode: 'graduated',
+        tiers: [
+          { up_to: 10, unit_amount: 500, flat_amount: null },
+          { up_to: null, unit_amount: 400, flat_amount: null },
+        ] as Stripe.Price.Tier[],
+      });
+
+      const plan = planCatalog(tiered, [stripeProduct()], [existing]);
+
+      expect(plan.actions).toHaveLength(1);
+      expect(plan.actions[0]).toMatchObject({
+        action: 'replace',
+        stripeId: 'price_pro_monthly',
+        changes: [{ field: 'tiers' }],
+      });
+      expect(
+        planCatalog(
+          tiered,
+          [stripeProduct()],
+          [
+            stripePrice({
+              ...existing,
+              tiers: [
+                { up_to: 10, unit_amount: 500, flat_amount: null },
+                { up_to: null, unit_amount: 300, flat_amount: null },
+              ] as Stripe.Price.Tier[],
+            }),
+          ]
+        ).actions
+      ).toEqual([]);
+    });
+
+    it('should update prices whose mutable fields changed', () => {
+      const plan = planCatalog(
+        catalog(),
+        [stripeProduct()],
+        [stripePrice({ metadata: { legacy: 'yes' } })]
+      );
+
+      expect(plan.actions[0]).toMatchObject({
+        action: 'update',
+        resource: 'price',
+        changes: [{ field: 'metadata', from: { legacy: 'yes' }, to: {} }],
+      });
+    });
+
+    it('should archive managed objects removed from the catalog', () => {
+      const plan = planCatalog(
+        { version: 1, products: [] },
+        [stripeProduct()],
+        [stripePrice()]
+      );
+
+      expect(plan.actions.map((a) => [a.action, a.resource, a.key])).toEqual([
+        ['archive', 'price', 'pro_monthly'],
+        ['archive', 'product', 'pro'],
+      ]);
+    });
+
+    it('should match pinned Stripe IDs before catalog keys', () => {
+      const plan = planCatalog(
+        catalog(),
+        [
+          stripeProduct({
+            id: 'prod_pinned',
+            metadata: { [CATALOG_ID_METADATA_KEY]: 'old' },
+          }),
+        ],
+        [stripePrice({ id: 'price_pinned', product: 'prod_pinned' })],
+        { productIds: { pro: 'prod_pinned' } }
+      );
+
+      expect(plan.actions).toHaveLength(1);
+      expect(plan.actions[0]).toMatchObject({
+        action: 'update',
+        resource: 'product',
+        stripeId: 'prod_pinned',
+      });
+    });
+
+    it('should ignore products not managed by the catalog', () => {
+      const plan = planCatalog(
+        { version: 1, products: [] },
+        [stripeProduct({ id: 'prod_manual', metadata: {} })],
+        [stripePrice({ product: 'prod_manual' })]
+      );
+
+      expect(plan.actions).toEqual([]);
+    });
+  });
+
+  describe('CatalogReconciler', () => {
+    let client: Record<string, ReturnType<typeof vi.fn>>;
+    let reconciler: CatalogReconciler;
+
+    beforeEach(() => {
+      client = {
+        listAllProducts: vi.fn().mockResolvedValue([]),
+        listAllPrices: vi.fn().mockResolvedValue([]),
+        createProduct: vi.fn().mockResolvedValue({ id: 'prod_new' }),
+        updateProduct: vi.fn().mockResolvedValue({}),
+        createPrice: vi.fn().mockResolvedValue({ id: 'price_new' }),
+        updatePrice: vi.fn().mockResolvedValue({}),
+        archivePrice: vi.fn().mockResolvedValue({}),
+      };
+      reconciler = new CatalogReconciler(client as unknown as StripeClient);
+    });
+
+    it('should create prices on newly created products', async () => {
+      const plan = await reconciler.plan(catalog());
+      const results = await reconciler.apply(plan);
+
+      expect(client.createProduct).toHaveBeenCalledWith({
+        name: 'Pro',
+        active: true,
+        metadata: { [CATALOG_ID_METADATA_KEY]: 'pro' },
+      });
+      expect(client.createPrice).toHaveBeenCalledWith(
+        expect.objectContaining({
+          product: 'prod_new',
+          lookup_key: 'pro_monthly',
+          unit_amount: 2900,
+        })
+      );
+      expect(results.map((r) => r.stripeId)).toEqual(['prod_new', 'price_new']);
+    });
+
+    it('should transfer the lookup key and archive the old price on replace', async () => {
+      client.listAllProducts.mockResolvedValue([stripeProduct()]);
+      client.listAllPrices.mockResolvedValue([
+        stripePrice({ unit_amount: 1900 }),
+      ]);
+
+      const plan = await reconciler.plan(catalog());
+      await reconciler.apply(plan);
+
+      expect(client.createPrice).toHaveBeenCalledWith(
+        expect.objectContaining({
+          product: 'prod_pro',
+          transfer_lookup_key: true,
+        })
+      );
+      expect(client.archivePrice).toHaveBeenCalledWith('price_pro_monthly');
+    });
+
+    it('should unset removed metadata keys on update', async () => {
+      client.listAllProducts.mockResolvedValue([stripeProduct()]);
+      client.listAllPrices.mockResolvedValue([
+        stripePrice({ metadata: { legacy: 'yes' } }),
+      ]);
+
+      const plan = await reconciler.plan(catalog());
+      await reconciler.apply(plan);
+
+      expect(client.updatePrice).toHaveBeenCalledWith('price_pro_monthly', {
+        metadata: { legacy: '' },
+      });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager } from '../../src/core/config-manager';
+import { promoteCommand } from '../../src/cli/commands/catalog';
+import { setDryRun } from '../../src/cli/utils';
+
+const mockPlan = vi.fn();
+const mockApply = vi.fn();
+const paths = vi.hoisted(() => ({ home: '' }));
+
+// ConfigManager keeps its default config under the home directory
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return { ...os, homedir: () => paths.home };
+});
+
+vi.mock('../../src/core/catalog-promoter', () => ({
+  CatalogPromoter: class {
+    plan = mockPlan;
+    apply = mockApply;
+  },
+}));
+
+describe('catalog commands', () => {
+  let home: string;
+  let configPath: string;
+  let logged: string;
+
+  beforeEach(async () => {
+    home = await fs.mkdtemp(join(tmpdir(), 'stripeconf-cli-'));
+    paths.home = home;
+    configPath = join(home, '.config', 'stripeconf', 'config.json');
+
+    const configManager = new ConfigManager(configPath);
+    for (const name of ['staging', 'production']) {
+      await configManager.addProject({
+        name,
+        environment: 'test',
+        publishableKey: 'pk_test_123',
+        secretKey: 'sk_test_123',
+        defaultCurrency: 'usd',
+      });
+    }
+
+    mockPlan.mockResolvedValue({
+      plan: {
+        actions: [
+          {
+            action: 'create',
+            resource: 'product',
+            key: 'pro',
+            product: { key: 'pro', name: 'Pro' },
+            changes: [],
+          },
+        ],
+        unchanged: 0,
+      },
+    });
+    mockApply.mockImplementation(async (_promotion, onAction) => {
+      onAction?.({});
+      return { products: { prod_src: 'prod_dst' }, prices: {} };
+    });
+
+    logged = '';
+    vi.spyOn(console, 'log').mockImplementation((...args) => {
+      logged += `${args.join(' ')}\n`;
+    });
+  });
+
+  afterEach(async () => {
+    setDryRun(false);
+    vi.restoreAllMocks();
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  describe('promote', () => {
+    it('should record the promotion in the config', async () => {
+      await promoteCommand({ from: 'staging', to: 'production', yes: true });
+
+      const promotion = await new ConfigManager(configPath).getPromotion(
+        'staging',
+        'production'
+      );
+      expect(promotion?.products).toEqual({ prod_src: 'prod_dst' });
+      expect(logged).toContain('production now matches staging');
+    });
+
+    it('should leave the config file alone under --dry-run', async () => {
+      setDryRun(true);
+      const before = await fs.readFile(configPath, 'utf-8');
+
+      await promoteCommand({ from: 'staging', to: 'production', yes: true });
+
+      expect(mockApply).toHaveBeenCalled();
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(before);
+      expect(logged).toContain(
+        'Dry run: 1 change(s) validated, nothing was sent'
+      );
+      expect(logged).not.toContain('now matches');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { emit, log, setOutputFormat } from '../../src/cli/output';
+
+describe('cli output', () => {
+  let written: string;
+
+  const products = [
+    { id: 'prod_1', name: 'Pro', active: true, metadata: { tier: 'pro' } },
+    { id: 'prod_2', name: 'Team, Annual', active: false, metadata: {} },
+  ];
+
+  beforeEach(() => {
+    written = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      written += String(chunk);
+      return true;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setOutputFormat('text');
+  });
+
+  it('should only run the text renderer by default', () => {
+    const text = vi.fn();
+
+    emit(products, { columns: ['id'], text });
+
+    expect(text).toHaveBeenCalled();
+    expect(written).toBe('');
+  });
+
+  it('should write full objects as JSON', () => {
+    setOutputFormat('json');
+    const text = vi.fn();
+
+    emit(products, { columns: ['id'], text });
+
+    expect(text).not.toHaveBeenCalled();
+    expect(JSON.parse(written)).toEqual(products);
+  });
+
+  it('should write YAML', () => {
+    setOutputFormat('yaml');
+
+    emit(products[0], { columns: ['id'] });
+
+    expect(written).toContain('id: prod_1');
+    expect(written).toContain('tier: pro');
+  });
+
+  it('should align selected columns in a table', () => {
+    setOutputFormat('table');
+
+    emit(products, { columns: ['id', 'name', 'metadata.tier'] });
+
+    expect(written.split('\n')).toEqual([
+      'ID      NAME          METADATA.TIER',
+      'prod_1  Pro           pro',
+      'prod_2  Team, Annual',
+      '',
+    ]);
+  });
+
+  it('should quote CSV cells when needed', () => {
+    setOutputFormat('csv');
+
+    emit(products, { columns: ['id', 'name', 'active'] });
+
+    expect(written).toBe(
+      'id,name,active\r\nprod_1,Pro,true\r\nprod_2,"Team, Annual",false\r\n'
+    );
+  });
+
+  it('should list rows for table output of a single result', () => {
+    setOutputFormat('csv');
+
+    emit(
+      { actions: [{ key: 'pro' }], unchanged: 1 },
+      { columns: ['key'], rows: [{ key: 'pro' }] }
+    );
+
+    expect(written).toBe('key\r\npro\r\n');
+  });
+
+  it('should move messages to stderr', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const original = console.log;
+    setOutputFormat('json');
+
+    log('hint');
+
+    expect(error).toHaveBeenCalledWith('hint');
+    expect(written).toBe('');
+    expect(console.log).toBe(original);
+  });
+});
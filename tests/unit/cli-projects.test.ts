@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager } from '../../src/core/config-manager';
+import { editProjectCommand } from '../../src/cli/commands/projects';
+import { setApiVersion } from '../../src/cli/utils';
+
+const paths = vi.hoisted(() => ({ home: '' }));
+
+// ConfigManager keeps its default config under the home directory
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return { ...os, homedir: () => paths.home };
+});
+
+describe('projects commands', () => {
+  let configManager: ConfigManager;
+
+  beforeEach(async () => {
+    paths.home = await fs.mkdtemp(join(tmpdir(), 'stripeconf-cli-'));
+    configManager = new ConfigManager(
+      join(paths.home, '.config', 'stripeconf', 'config.json')
+    );
+    await configManager.addProject({
+      name: 'acme',
+      environment: 'test',
+      publishableKey: 'pk_test_123',
+      secretKey: 'sk_test_123',
+      defaultCurrency: 'usd',
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    setApiVersion(undefined);
+    vi.restoreAllMocks();
+    await fs.rm(paths.home, { recursive: true, force: true });
+  });
+
+  describe('edit', () => {
+    it('should pin the version given with --pin-api-version', async () => {
+      await editProjectCommand('acme', { pinApiVersion: '2024-06-20' });
+
+      const project = await configManager.getProject('acme');
+      expect(project.apiVersion).toBe('2024-06-20');
+    });
+
+    it('should not save the global --api-version', async () => {
+      setApiVersion('2024-06-20');
+
+      await editProjectCommand('acme', { currency: 'eur' });
+
+      const project = await configManager.getProject('acme');
+      expect(project.defaultCurrency).toBe('eur');
+      expect(project.apiVersion).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigManager } from '../../src/core/config-manager';
+import { ConfigError } from '../../src/core/types';
+import type { ProjectConfig, StripeClientOptions } from '../../src/core/types';
+import { setupCommand } from '../../src/cli/commands/setup';
+
+const paths = vi.hoisted(() => ({ home: '' }));
+
+// ConfigManager keeps its default config under the home directory
+vi.mock('os', async (importOriginal) => {
+  const os = await importOriginal<typeof import('os')>();
+  return { ...os, homedir: () => paths.home };
+});
+
+// Resolve the secret key the way StripeClient does, without calling Stripe
+vi.mock('../../src/core/stripe-client', async () => {
+  const { resolveSecretKey } = await import('../../src/core/secret-resolver');
+  return {
+    StripeClient: class {
+      constructor(project: ProjectConfig, options: StripeClientOptions) {
+        resolveSecretKey(project, options.secretResolver);
+      }
+      hasRestrictedKey = () => false;
+      listProducts = async () => [];
+      verifyKeys = async () => {};
+      getAccountApiVersion = async () => '2023-10-16';
+    },
+  };
+});
+
+describe('setup command', () => {
+  let configManager: ConfigManager;
+
+  beforeEach(async () => {
+    paths.home = await fs.mkdtemp(join(tmpdir(), 'stripeconf-cli-'));
+    configManager = new ConfigManager(
+      join(paths.home, '.config', 'stripeconf', 'config.json')
+    );
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(paths.home, { recursive: true, force: true });
+  });
+
+  it('should run a cmd: secret reference once', async () => {
+    const counter = join(paths.home, 'runs');
+
+    await setupCommand({
+      name: 'acme',
+      publishableKey: 'pk_test_123',
+      secretKeyRef: `cmd:echo run >> ${counter} && echo sk_test_123`,
+    });
+
+    expect(await fs.readFile(counter, 'utf-8')).toBe('run\n');
+    expect((await configManager.getProject('acme')).secretKeyRef).toMatch(
+      /^cmd:/
+    );
+  });
+
+  it('should warn when the pinned version differs from the account', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await setupCommand({
+      name: 'acme',
+      publishableKey: 'pk_test_123',
+      secretKey: 'sk_test_123',
+      pinApiVersion: '2024-06-20',
+    });
+
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'acme pins API version 2024-06-20, but the account default is 2023-10-16'
+      )
+    );
+  });
+
+  it('should report config errors as they are', async () => {
+    const options = {
+      name: 'acme',
+      publishableKey: 'pk_test_123',
+      secretKey: 'sk_test_123',
+    };
+    await setupCommand(options);
+
+    const error = await setupCommand(options).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.message).not.toContain('Invalid API keys');
+  });
+});
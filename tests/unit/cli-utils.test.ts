@@ -0,0 +1,298 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Readable } from 'stream';
+import { InvalidArgumentError } from 'commander';
+import type { ConfigManager } from '../../src/core/config-manager';
+import type { Config, LocalConfig, ProjectConfig } from '../../src/core/types';
+import { StripeClientError } from '../../src/core/types';
+import {
+  confirmAction,
+  errorHint,
+  maskKey,
+  menuChoices,
+  parseAmount,
+  parseKeyValuePairs,
+  parsePositiveInt,
+  readStdin,
+  requireMenu,
+  selectProject,
+  setProjectSelection,
+  shouldPrompt,
+} from '../../src/cli/utils';
+
+describe('cli utils', () => {
+  const originalIsTTY = process.stdin.isTTY;
+
+  function setTTY(value: boolean) {
+    Object.defineProperty(process.stdin, 'isTTY', {
+      value,
+      configurable: true,
+    });
+  }
+
+  afterEach(() => {
+    setTTY(originalIsTTY);
+    setProjectSelection({});
+    delete process.env.STRIPECONF_PROJECT;
+    vi.restoreAllMocks();
+  });
+
+  describe('shouldPrompt', () => {
+    it('should not prompt when nothing is missing', () => {
+      setTTY(false);
+
+      expect(shouldPrompt([])).toBe(false);
+    });
+
+    it('should prompt for missing flags on a terminal', () => {
+      setTTY(true);
+
+      expect(shouldPrompt(['--name'])).toBe(true);
+    });
+
+    it('should name missing flags when not on a terminal', () => {
+      setTTY(false);
+
+      expect(() => shouldPrompt(['--name', '--amount'])).toThrow(
+        'Missing required option(s): --name, --amount'
+      );
+    });
+  });
+
+  describe('confirmAction', () => {
+    it('should skip the prompt with --yes', async () => {
+      setTTY(false);
+
+      await expect(confirmAction('Delete?', true)).resolves.toBe(true);
+    });
+
+    it('should require --yes when not on a terminal', async () => {
+      setTTY(false);
+
+      await expect(confirmAction('Delete?')).rejects.toThrow(/--yes/);
+    });
+  });
+
+  describe('requireMenu', () => {
+    it('should reject unknown subcommands', () => {
+      setTTY(true);
+
+      expect(() => requireMenu('products', ['bogus'])).toThrow(
+        'Unknown command "bogus"'
+      );
+    });
+
+    it('should refuse to open the menu when not on a terminal', () => {
+      setTTY(false);
+
+      expect(() => requireMenu('products', [])).toThrow(/No subcommand/);
+    });
+  });
+
+  describe('parsers', () => {
+    it('should parse key=value pairs', () => {
+      expect(parseKeyValuePairs(['tier=pro', 'note=a=b'])).toEqual({
+        tier: 'pro',
+        note: 'a=b',
+      });
+    });
+
+    it('should reject pairs without a key', () => {
+      expect(() => parseKeyValuePairs(['=pro'])).toThrow(/Invalid key=value/);
+    });
+
+    it('should validate numeric options', () => {
+      expect(parsePositiveInt('10')).toBe(10);
+      expect(parseAmount('0')).toBe(0);
+      expect(() => parsePositiveInt('0')).toThrow(InvalidArgumentError);
+      expect(() => parseAmount('9.99')).toThrow(InvalidArgumentError);
+    });
+  });
+
+  describe('readStdin', () => {
+    it('should read and trim piped input', async () => {
+      const stream = Readable.from(['sk_test_', '123\n']);
+
+      await expect(readStdin('--secret-key-stdin', stream)).resolves.toBe(
+        'sk_test_123'
+      );
+    });
+
+    it('should fail on empty input', async () => {
+      await expect(
+        readStdin('--secret-key-stdin', Readable.from([]))
+      ).rejects.toThrow('--secret-key-stdin: nothing was read from stdin');
+    });
+
+    it('should refuse to read from a terminal', async () => {
+      const stream = Object.assign(Readable.from([]), { isTTY: true });
+
+      await expect(readStdin('--secret-key-stdin', stream)).rejects.toThrow(
+        /pipe the value in/
+      );
+    });
+  });
+
+  describe('maskKey', () => {
+    it('should keep the prefix and last four characters', () => {
+      expect(maskKey('sk_test_51AbCdEfGhIjKl4242')).toBe('sk_test_…4242');
+      expect(maskKey('whsec_abcdefghijklmnop')).toBe('whsec_…mnop');
+    });
+
+    it('should hide short keys completely', () => {
+      expect(maskKey('pk_live_1234')).toBe('pk_live_****');
+    });
+  });
+
+  describe('errorHint', () => {
+    it('should point at the offending parameter', () => {
+      const error = new StripeClientError('Invalid integer', 400);
+      error.param = 'unit_amount';
+      expect(errorHint(error)).toBe('Check the value given for "unit_amount".');
+    });
+
+    it('should suggest a fix per error kind', () => {
+      expect(errorHint(new StripeClientError('Invalid API Key', 401))).toMatch(
+        /projects verify/
+      );
+      const conflict = new StripeClientError('Key reused', 400, '', '', {
+        kind: 'idempotency',
+      });
+      expect(errorHint(conflict)).toMatch(/--idempotency-key/);
+      expect(errorHint(new StripeClientError('Odd', 418))).toBeUndefined();
+    });
+  });
+
+  describe('menuChoices', () => {
+    const choices = [
+      { name: 'List products', value: 'list', requires: ['products' as const] },
+      { name: 'Help', value: 'help' },
+    ];
+
+    it('should hide entries the key has no access to', () => {
+      const project = {
+        name: 'acme',
+        capabilities: { products: false },
+      } as ProjectConfig;
+
+      expect(menuChoices(project, choices)).toEqual([
+        { name: 'Help', value: 'help' },
+      ]);
+    });
+
+    it('should fail when no entry is left', () => {
+      const project = {
+        name: 'acme',
+        capabilities: { products: false },
+      } as ProjectConfig;
+
+      expect(() => menuChoices(project, choices.slice(0, 1))).toThrow(
+        /restricted key of project "acme"/
+      );
+    });
+  });
+
+  describe('selectProject', () => {
+    function project(name: string, environment: 'test' | 'live') {
+      return { name, environment } as ProjectConfig;
+    }
+
+    function configManager(config: Partial<Config>, local?: LocalConfig) {
+      const full = { version: '1.1.0', projects: [], ...config } as Config;
+      const find = (name: string) => {
+        const found = full.projects.find((p) => p.name === name);
+        if (!found) throw new Error(`Project "${name}" not found`);
+        return found;
+      };
+      return {
+        loadConfig: vi.fn().mockResolvedValue(full),
+        getProject: vi.fn(async (name: string) => find(name)),
+        getDefaultProject: vi.fn(async () => find(full.defaultProject!)),
+        findLocalConfig: vi.fn().mockResolvedValue(local),
+      } as unknown as ConfigManager;
+    }
+
+    const projects = [
+      project('app-test', 'test'),
+      project('app-live', 'live'),
+      project('shop-test', 'test'),
+    ];
+
+    beforeEach(() => {
+      setTTY(false);
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    it('should prefer --project over the environment variable', async () => {
+      process.env.STRIPECONF_PROJECT = 'app-live';
+      setProjectSelection({ project: 'shop-test' });
+
+      const selected = await selectProject(configManager({ projects }));
+
+      expect(selected?.name).toBe('shop-test');
+    });
+
+    it('should use STRIPECONF_PROJECT when no flag is given', async () => {
+      process.env.STRIPECONF_PROJECT = 'app-live';
+
+      const selected = await selectProject(
+        configManager({ projects, defaultProject: 'app-test' })
+      );
+
+      expect(selected?.name).toBe('app-live');
+    });
+
+    it('should fall back to the default project', async () => {
+      const selected = await selectProject(
+        configManager({ projects, defaultProject: 'shop-test' })
+      );
+
+      expect(selected?.name).toBe('shop-test');
+    });
+
+    it('should prefer the project pinned in .stripeconf.json', async () => {
+      const selected = await selectProject(
+        configManager(
+          { projects, defaultProject: 'app-test' },
+          { path: '/repo/.stripeconf.json', project: 'shop-test' }
+        )
+      );
+
+      expect(selected?.name).toBe('shop-test');
+    });
+
+    it('should name the .stripeconf.json of an unknown pinned project', async () => {
+      await expect(
+        selectProject(
+          configManager(
+            { projects },
+            { path: '/repo/.stripeconf.json', project: 'gone' }
+          )
+        )
+      ).rejects.toThrow('Project "gone" from /repo/.stripeconf.json');
+    });
+
+    it('should pick the only project of the requested environment', async () => {
+      setProjectSelection({ environment: 'live' });
+
+      const selected = await selectProject(
+        configManager({ projects, defaultProject: 'app-test' })
+      );
+
+      expect(selected?.name).toBe('app-live');
+    });
+
+    it('should reject a project from another environment', async () => {
+      setProjectSelection({ project: 'app-test', environment: 'live' });
+
+      await expect(selectProject(configManager({ projects }))).rejects.toThrow(
+        /not live/
+      );
+    });
+
+    it('should fail instead of prompting when not on a terminal', async () => {
+      await expect(selectProject(configManager({ projects }))).rejects.toThrow(
+        /--project/
+      );
+    });
+  });
+});
@@ -4,6 +4,12 @@ import { join } from 'path';
 import { homedir } from 'os';
 import { ConfigManager } from '../../src/core/config-manager';
 import { ConfigError } from '../../src/core/types';
+import type { Config } from '../../src/core/types';
+import {
+  createEncryption,
+  encryptValue,
+  isEncryptedValue,
+} from '../../src/core/config-crypto';
 
 // Mock fs module
 vi.mock('fs', () => ({
@@ -13,9 +19,29 @@ vi.mock('fs', () => ({
     writeFile: vi.fn(),
     access: vi.fn(),
     chmod: vi.fn(),
+    rename: vi.fn(async () => undefined),
+    copyFile: vi.fn(async () => undefined),
+    unlink: vi.fn(async () => undefined),
+    stat: vi.fn(async () => undefined),
+    open: vi.fn(async () => ({
+      writeFile: vi.fn(async () => undefined),
+      close: vi.fn(async () => undefined),
+    })),
   },
 }));
 
+/**
+ * Assert the config was written to a temp file and renamed into place
+ */
+function expectWritten(path: string, data: unknown) {
+  const tempPath = expect.stringMatching(/\.tmp$/);
+  expect(fs.writeFile).toHaveBeenCalledWith(tempPath, data, {
+    encoding: 'utf-8',
+    mode: 0o600,
+  });
+  expect(fs.rename).toHaveBeenCalledWith(tempPath, path);
+}
+
 describe('ConfigManager', () => {
   let configManager: ConfigManager;
   const mockConfigPath = join(homedir(), '.config', 'stripeconf', 'config.json');
@@ -72,7 +98,7 @@ describe('ConfigManager', () => {
   describe('loadConfig', () => {
     it('should load existing config file', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -96,17 +122,120 @@ describe('ConfigManager', () => {
       expect(fs.readFile).toHaveBeenCalledWith(mockConfigPath, 'utf-8');
     });
 
+    it('should drop previous secret keys past their expiry', async () => {
+      const project = (name: string, expiresAt: string) => ({
+        id: name,
+        name,
+        environment: 'test',
+        publishableKey: 'pk_test_123',
+        secretKey: 'sk_test_new',
+        previousSecretKey: 'sk_test_old',
+        previousSecretKeyExpiresAt: expiresAt,
+        defaultCurrency: 'usd',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      });
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({
+          version: '1.1.0',
+          projects: [
+            project('expired', '2024-01-02T00:00:00.000Z'),
+            project('current', '2999-01-01T00:00:00.000Z'),
+          ],
+        })
+      );
+
+      const [expired, current] = (await configManager.loadConfig()).projects;
+
+      expect(expired.previousSecretKey).toBeUndefined();
+      expect(expired.previousSecretKeyExpiresAt).toBeUndefined();
+      expect(current.previousSecretKey).toBe('sk_test_old');
+    });
+
     it('should return empty config if file does not exist', async () => {
       vi.mocked(fs.readFile).mockRejectedValue({ code: 'ENOENT' });
 
       const config = await configManager.loadConfig();
 
       expect(config).toEqual({
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       });
     });
 
+    it('should migrate older configs in place and keep a backup', async () => {
+      const original = JSON.stringify({
+        version: '1.0.0',
+        projects: [
+          {
+            id: 'test-id',
+            name: 'test-project',
+            environment: 'test',
+            publishableKey: 'pk_test_123',
+            secretKey: 'sk_test_123',
+            defaultCurrency: 'USD',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            updatedAt: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      });
+      vi.mocked(fs.readFile).mockResolvedValue(original);
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+
+      const config = await configManager.loadConfig();
+
+      expect(config.version).toBe('1.1.0');
+      expect(config.projects[0].defaultCurrency).toBe('usd');
+      expectWritten(`${mockConfigPath}.v1.0.0.bak`, original);
+      expectWritten(
+        mockConfigPath,
+        expect.stringContaining('"version": "1.1.0"')
+      );
+    });
+
+    it('should migrate under the config lock', async () => {
+      const lockPath = `${mockConfigPath}.lock`;
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({ version: '1.0.0', projects: [] })
+      );
+
+      await configManager.loadConfig();
+
+      const locked = vi.mocked(fs.open).mock.invocationCallOrder[0];
+      const [backup, migrated] = vi.mocked(fs.rename).mock.invocationCallOrder;
+      expect(fs.open).toHaveBeenCalledWith(lockPath, 'wx', 0o600);
+      expect(locked).toBeLessThan(backup);
+      expect(fs.unlink).toHaveBeenCalledWith(lockPath);
+      expect(migrated).toBeLessThan(
+        vi.mocked(fs.unlink).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should not migrate again once another process has', async () => {
+      vi.mocked(fs.readFile)
+        .mockResolvedValueOnce(
+          JSON.stringify({ version: '1.0.0', projects: [] })
+        )
+        .mockResolvedValue(JSON.stringify({ version: '1.1.0', projects: [] }));
+
+      const config = await configManager.loadConfig();
+
+      expect(config.version).toBe('1.1.0');
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConfigError naming an invalid field', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({ version: '1.1.0', projects: [{ name: 'x' }] })
+      );
+
+      await expect(configManager.loadConfig()).rejects.toThrow(
+        'Invalid config file: projects[0].id is required'
+      );
+    });
+
     it('should throw ConfigError for invalid JSON', async () => {
       vi.mocked(fs.readFile).mockResolvedValue('invalid json');
 
@@ -117,7 +246,7 @@ describe('ConfigManager', () => {
   describe('saveConfig', () => {
     it('should save config to file with correct permissions', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -127,17 +256,16 @@ describe('ConfigManager', () => {
 
       await configManager.saveConfig(mockConfig);
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
-        mockConfigPath,
-        JSON.stringify(mockConfig, null, 2),
-        'utf-8'
+      expectWritten(mockConfigPath, JSON.stringify(mockConfig, null, 2));
+      expect(fs.chmod).toHaveBeenCalledWith(
+        expect.stringContaining(`${mockConfigPath}.`),
+        0o600
       );
-      expect(fs.chmod).toHaveBeenCalledWith(mockConfigPath, 0o600);
     });
 
     it('should create directory before saving if it does not exist', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -153,10 +281,247 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('findLocalConfig', () => {
+    const globalConfig = {
+      version: '1.1.0',
+      projects: [
+        {
+          id: '1',
+          name: 'global-default',
+          environment: 'test',
+          publishableKey: 'pk_test_1',
+          secretKey: 'sk_test_1',
+          defaultCurrency: 'usd',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+      defaultProject: 'global-default',
+    };
+
+    function mockFiles(files: Record<string, string>) {
+      vi.mocked(fs.readFile).mockImplementation(async (path) => {
+        if (path === mockConfigPath) return JSON.stringify(globalConfig);
+        if (files[path as string] !== undefined) return files[path as string];
+        throw Object.assign(new Error('not found'), { code: 'ENOENT' });
+      });
+    }
+
+    it('should find the nearest .stripeconf.json above the working directory', async () => {
+      mockFiles({
+        '/repo/.stripeconf.json': JSON.stringify({ project: 'repo' }),
+        '/repo/apps/web/.stripeconf.json': JSON.stringify({
+          project: 'web',
+          catalog: 'stripe/catalog.yaml',
+        }),
+      });
+      const manager = new ConfigManager(undefined, '/repo/apps/web/src');
+
+      const local = await manager.findLocalConfig();
+
+      expect(local).toEqual({
+        path: '/repo/apps/web/.stripeconf.json',
+        project: 'web',
+        catalog: '/repo/apps/web/stripe/catalog.yaml',
+      });
+    });
+
+    it('should return undefined when there is no .stripeconf.json', async () => {
+      mockFiles({});
+      const manager = new ConfigManager(undefined, '/repo/apps/web');
+
+      expect(await manager.findLocalConfig()).toBeUndefined();
+    });
+
+    it('should reject invalid fields', async () => {
+      mockFiles({ '/repo/.stripeconf.json': JSON.stringify({ project: 1 }) });
+      const manager = new ConfigManager(undefined, '/repo');
+
+      await expect(manager.findLocalConfig()).rejects.toThrow(
+        'Invalid /repo/.stripeconf.json: project must be a project name'
+      );
+    });
+
+    it('should use the pinned project as the default project', async () => {
+      mockFiles({
+        '/repo/.stripeconf.json': JSON.stringify({ project: 'repo-project' }),
+      });
+      const manager = new ConfigManager(undefined, '/repo');
+
+      const config = await manager.loadConfig();
+
+      expect(config.defaultProject).toBe('repo-project');
+    });
+
+    it('should not save the pinned project to the global config', async () => {
+      mockFiles({
+        '/repo/.stripeconf.json': JSON.stringify({ project: 'repo-project' }),
+      });
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+      const manager = new ConfigManager(undefined, '/repo');
+
+      await manager.updateProject('global-default', { defaultCurrency: 'eur' });
+
+      expectWritten(
+        mockConfigPath,
+        expect.stringContaining('"defaultProject": "global-default"')
+      );
+    });
+  });
+
+  describe('atomic writes and locking', () => {
+    const lockPath = `${mockConfigPath}.lock`;
+    const newProject = {
+      name: 'new-project',
+      environment: 'test' as const,
+      publishableKey: 'pk_test_new',
+      secretKey: 'sk_test_new',
+      defaultCurrency: 'usd',
+    };
+
+    beforeEach(() => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({ version: '1.1.0', projects: [] })
+      );
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep the previous file as config.json.bak', async () => {
+      await configManager.saveConfig({ version: '1.1.0', projects: [] });
+
+      expect(fs.copyFile).toHaveBeenCalledWith(
+        mockConfigPath,
+        `${mockConfigPath}.bak`
+      );
+      expect(vi.mocked(fs.copyFile).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(fs.rename).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should remove the temp file and keep the config when a write fails', async () => {
+      vi.mocked(fs.rename).mockRejectedValueOnce(new Error('EXDEV'));
+
+      await expect(
+        configManager.saveConfig({ version: '1.1.0', projects: [] })
+      ).rejects.toThrow('Failed to save config: EXDEV');
+      expect(fs.unlink).toHaveBeenCalledWith(expect.stringMatching(/\.tmp$/));
+    });
+
+    it('should hold the lock file while modifying the config', async () => {
+      await configManager.addProject(newProject);
+
+      expect(fs.open).toHaveBeenCalledWith(lockPath, 'wx', 0o600);
+      expect(fs.unlink).toHaveBeenCalledWith(lockPath);
+      expect(vi.mocked(fs.rename).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(fs.unlink).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should release the lock when the change fails', async () => {
+      await expect(configManager.deleteProject('missing')).rejects.toThrow(
+        ConfigError
+      );
+
+      expect(fs.unlink).toHaveBeenCalledWith(lockPath);
+      expect(fs.rename).not.toHaveBeenCalled();
+    });
+
+    it('should replace a stale lock left by a crashed process', async () => {
+      vi.mocked(fs.open).mockRejectedValueOnce(
+        Object.assign(new Error('exists'), { code: 'EEXIST' })
+      );
+      vi.mocked(fs.stat)
+        .mockResolvedValueOnce({ mtimeMs: 0 } as any)
+        .mockResolvedValueOnce({ mtimeMs: 0 } as any);
+
+      await configManager.addProject(newProject);
+
+      expect(fs.open).toHaveBeenCalledWith(`${lockPath}.takeover`, 'wx', 0o600);
+      expect(fs.unlink).toHaveBeenCalledWith(`${lockPath}.takeover`);
+      expect(fs.open).toHaveBeenCalledTimes(3);
+      expect(fs.rename).toHaveBeenCalled();
+    });
+
+    it('should leave a stale lock to the process taking it over', async () => {
+      vi.mocked(fs.open)
+        .mockRejectedValueOnce(
+          Object.assign(new Error('exists'), { code: 'EEXIST' })
+        )
+        .mockRejectedValueOnce(
+          Object.assign(new Error('exists'), { code: 'EEXIST' })
+        );
+      vi.mocked(fs.stat)
+        .mockResolvedValueOnce({ mtimeMs: 0 } as any)
+        .mockResolvedValueOnce({ mtimeMs: Date.now() } as any);
+
+      await configManager.addProject(newProject);
+
+      // Only the release of our own lock, after the change was written
+      expect(fs.unlink).toHaveBeenCalledTimes(1);
+      expect(fs.unlink).toHaveBeenCalledWith(lockPath);
+    });
+
+    it('should run staggered writes on one instance one at a time', async () => {
+      const files = new Map([
+        [mockConfigPath, JSON.stringify({ version: '1.1.0', projects: [] })],
+      ]);
+      const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+      vi.mocked(fs.readFile).mockImplementation(async (path) => {
+        await tick();
+        const data = files.get(String(path));
+        if (data === undefined) {
+          throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+        }
+        return data;
+      });
+      vi.mocked(fs.writeFile).mockImplementation(async (path, data) => {
+        await tick();
+        files.set(String(path), String(data));
+      });
+      vi.mocked(fs.rename).mockImplementation(async (from, to) => {
+        files.set(String(to), files.get(String(from)) as string);
+        files.delete(String(from));
+      });
+
+      await Promise.all(
+        Array.from({ length: 9 }, async (_, i) => {
+          await new Promise((resolve) => setTimeout(resolve, i));
+          await configManager.addProject({ ...newProject, name: `p${i}` });
+        })
+      );
+
+      const saved = JSON.parse(files.get(mockConfigPath) as string);
+      expect(saved.projects).toHaveLength(9);
+    });
+
+    it('should give up when another process keeps the lock', async () => {
+      vi.useFakeTimers();
+      vi.mocked(fs.open).mockRejectedValue(
+        Object.assign(new Error('exists'), { code: 'EEXIST' })
+      );
+      vi.mocked(fs.stat).mockResolvedValue({ mtimeMs: Date.now() } as any);
+
+      const result = configManager.addProject(newProject);
+      const assertion = expect(result).rejects.toThrow(/locked by another/);
+      await vi.advanceTimersByTimeAsync(11_000);
+
+      await assertion;
+      expect(fs.rename).not.toHaveBeenCalled();
+    });
+  });
+
   describe('addProject', () => {
     it('should add new project to config', async () => {
       const existingConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -185,7 +550,7 @@ describe('ConfigManager', () => {
 
     it('should throw ConfigError if project name already exists', async () => {
       const existingConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'existing-id',
@@ -219,7 +584,7 @@ describe('ConfigManager', () => {
 
     it('should set as default project if it is the first project', async () => {
       const existingConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -240,10 +605,9 @@ describe('ConfigManager', () => {
 
       await configManager.addProject(newProject);
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
+      expectWritten(
         mockConfigPath,
-        expect.stringContaining('"defaultProject": "first-project"'),
-        'utf-8'
+        expect.stringContaining('"defaultProject": "first-project"')
       );
     });
   });
@@ -251,7 +615,7 @@ describe('ConfigManager', () => {
   describe('getProject', () => {
     it('should return project by name', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -275,7 +639,7 @@ describe('ConfigManager', () => {
 
     it('should throw ConfigError if project not found', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -290,7 +654,7 @@ describe('ConfigManager', () => {
   describe('listProjects', () => {
     it('should return all projects', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'id1',
@@ -327,7 +691,7 @@ describe('ConfigManager', () => {
   describe('updateProject', () => {
     it('should update existing project', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -361,7 +725,7 @@ describe('ConfigManager', () => {
 
     it('should update project with orgId', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -391,7 +755,7 @@ describe('ConfigManager', () => {
 
     it('should throw ConfigError if project not found', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -403,10 +767,73 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('renameProject', () => {
+    const project = (name: string) => ({
+      id: name,
+      name,
+      environment: 'test' as const,
+      publishableKey: 'pk_test_123',
+      secretKey: 'sk_test_123',
+      defaultCurrency: 'usd',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    let stored: string;
+
+    beforeEach(() => {
+      stored = JSON.stringify({
+        version: '1.1.0',
+        projects: [project('old'), project('other')],
+        defaultProject: 'old',
+        promotions: [
+          {
+            from: 'old',
+            to: 'other',
+            promotedAt: '2024-01-01T00:00:00.000Z',
+            products: {},
+            prices: {},
+          },
+        ],
+      });
+      vi.mocked(fs.readFile).mockImplementation(async () => stored);
+      vi.mocked(fs.writeFile).mockImplementation(async (_path, data) => {
+        stored = data as string;
+      });
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+    });
+
+    it('should rename the project, default and promotions', async () => {
+      const renamed = await configManager.renameProject('old', 'new');
+
+      const config = JSON.parse(stored) as Config;
+      expect(renamed.name).toBe('new');
+      expect(config.projects.map((p) => p.name)).toEqual(['new', 'other']);
+      expect(config.defaultProject).toBe('new');
+      expect(config.promotions?.[0]).toMatchObject({
+        from: 'new',
+        to: 'other',
+      });
+    });
+
+    it('should refuse to overwrite another project', async () => {
+      await expect(configManager.renameProject('old', 'other')).rejects.toThrow(
+        'Project with name "other" already exists'
+      );
+    });
+
+    it('should throw ConfigError if project not found', async () => {
+      await expect(
+        configManager.renameProject('missing', 'new')
+      ).rejects.toThrow(ConfigError);
+    });
+  });
+
   describe('deleteProject', () => {
     it('should delete project by name', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -429,16 +856,12 @@ describe('ConfigManager', () => {
 
       await configManager.deleteProject('test-project');
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
-        mockConfigPath,
-        expect.stringContaining('"projects": []'),
-        'utf-8'
-      );
+      expectWritten(mockConfigPath, expect.stringContaining('"projects": []'));
     });
 
     it('should clear default project if deleted project was default', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -461,10 +884,9 @@ describe('ConfigManager', () => {
 
       await configManager.deleteProject('test-project');
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
+      expectWritten(
         mockConfigPath,
-        expect.not.stringContaining('"defaultProject"'),
-        'utf-8'
+        expect.not.stringContaining('"defaultProject"')
       );
     });
   });
@@ -472,7 +894,7 @@ describe('ConfigManager', () => {
   describe('setDefaultProject', () => {
     it('should set default project', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -494,16 +916,15 @@ describe('ConfigManager', () => {
 
       await configManager.setDefaultProject('test-project');
 
-      expect(fs.writeFile).toHaveBeenCalledWith(
+      expectWritten(
         mockConfigPath,
-        expect.stringContaining('"defaultProject": "test-project"'),
-        'utf-8'
+        expect.stringContaining('"defaultProject": "test-project"')
       );
     });
 
     it('should throw ConfigError if project does not exist', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [],
       };
 
@@ -518,7 +939,7 @@ describe('ConfigManager', () => {
   describe('getDefaultProject', () => {
     it('should return default project', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -543,7 +964,7 @@ describe('ConfigManager', () => {
 
     it('should throw ConfigError if no default project set', async () => {
       const mockConfig = {
-        version: '1.0.0',
+        version: '1.1.0',
         projects: [
           {
             id: 'test-id',
@@ -565,4 +986,130 @@ describe('ConfigManager', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('recordPromotion', () => {
+    it('should merge the mapping with earlier promotions', async () => {
+      const mockConfig = {
+        version: '1.1.0',
+        projects: [],
+        promotions: [
+          {
+            from: 'acme-test',
+            to: 'acme-live',
+            promotedAt: '2024-01-01T00:00:00.000Z',
+            products: { prod_a: 'prod_live_a' },
+            prices: { price_a: 'price_live_a' },
+          },
+        ],
+      };
+
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockConfig));
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.writeFile).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+
+      const record = await configManager.recordPromotion(
+        'acme-test',
+        'acme-live',
+        { products: { prod_b: 'prod_live_b' }, prices: {} }
+      );
+
+      expect(record.products).toEqual({
+        prod_a: 'prod_live_a',
+        prod_b: 'prod_live_b',
+      });
+      expect(record.prices).toEqual({ price_a: 'price_live_a' });
+      expect(record.promotedAt).not.toBe('2024-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('encryption', () => {
+    const plainConfig = (): Config => ({
+      version: '1.1.0',
+      projects: [
+        {
+          id: '1',
+          name: 'acme',
+          environment: 'test',
+          publishableKey: 'pk_test_123',
+          secretKey: 'sk_test_secret',
+          webhookSecret: 'whsec_secret',
+          previousSecretKey: 'sk_test_previous',
+          defaultCurrency: 'usd',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+    });
+
+    let stored: string;
+
+    beforeEach(() => {
+      vi.mocked(fs.readFile).mockImplementation(async () => stored);
+      vi.mocked(fs.writeFile).mockImplementation(async (_path, data) => {
+        stored = data as string;
+      });
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.chmod).mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      delete process.env.STRIPECONF_PASSPHRASE;
+    });
+
+    it('should store secrets as ciphertext and load them decrypted', async () => {
+      stored = JSON.stringify(plainConfig());
+
+      await configManager.encrypt('correct horse');
+
+      const onDisk = JSON.parse(stored) as Config;
+      expect(onDisk.encryption?.kdf).toBe('scrypt');
+      expect(isEncryptedValue(onDisk.projects[0].secretKey)).toBe(true);
+      expect(isEncryptedValue(onDisk.projects[0].webhookSecret)).toBe(true);
+      expect(isEncryptedValue(onDisk.projects[0].previousSecretKey)).toBe(true);
+      expect(onDisk.projects[0].publishableKey).toBe('pk_test_123');
+
+      const loaded = await configManager.loadConfig();
+      expect(loaded.projects[0].secretKey).toBe('sk_test_secret');
+      expect(await configManager.isLocked()).toBe(false);
+    });
+
+    it('should require a passphrase for a locked config', async () => {
+      const { encryption, key } = await createEncryption('correct horse');
+      const config = plainConfig();
+      config.encryption = encryption;
+      config.projects[0].secretKey = encryptValue('sk_test_secret', key);
+      stored = JSON.stringify(config);
+
+      expect(await configManager.isLocked()).toBe(true);
+      await expect(configManager.loadConfig()).rejects.toThrow(
+        /STRIPECONF_PASSPHRASE/
+      );
+      await expect(configManager.unlock('wrong')).rejects.toThrow(
+        'Incorrect config passphrase'
+      );
+
+      process.env.STRIPECONF_PASSPHRASE = 'correct horse';
+      const loaded = await configManager.loadConfig();
+      expect(loaded.projects[0].secretKey).toBe('sk_test_secret');
+    });
+
+    it('should write plaintext secrets after decrypt', async () => {
+      stored = JSON.stringify(plainConfig());
+      await configManager.encrypt('correct horse');
+
+      await configManager.decrypt();
+
+      const onDisk = JSON.parse(stored) as Config;
+      expect(onDisk.encryption).toBeUndefined();
+      expect(onDisk.projects[0].secretKey).toBe('sk_test_secret');
+    });
+
+    it('should refuse to encrypt twice', async () => {
+      stored = JSON.stringify(plainConfig());
+      await configManager.encrypt('correct horse');
+
+      await expect(configManager.encrypt('other')).rejects.toThrow(ConfigError);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONFIG_VERSION,
+  migrateConfig,
+  validateConfig,
+} from '../../src/core/config-schema';
+import { ConfigError } from '../../src/core/types';
+
+function project(overrides: Record<string, unknown> = {}) {
+  return {
+    id: '1',
+    name: 'acme',
+    environment: 'test',
+    publishableKey: 'pk_test_123',
+    secretKey: 'sk_test_123',
+    defaultCurrency: 'usd',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('config schema', () => {
+  describe('validateConfig', () => {
+    it('should accept a valid config', () => {
+      const config = { version: CONFIG_VERSION, projects: [project()] };
+
+      expect(validateConfig(config)).toBe(config);
+    });
+
+    it('should name the offending field', () => {
+      try {
+        validateConfig({
+          version: CONFIG_VERSION,
+          projects: [project(), project({ name: 'b', environment: 'prod' })],
+        });
+        expect.fail('should have thrown');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error.field).toBe('projects[1].environment');
+        expect(error.message).toContain('projects[1].environment');
+      }
+    });
+
+    it('should accept secretKeyRef instead of secretKey', () => {
+      const config = {
+        version: CONFIG_VERSION,
+        projects: [project({ secretKey: undefined, secretKeyRef: 'env:SK' })],
+      };
+
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+
+    it('should require a secret key or reference', () => {
+      expect(() =>
+        validateConfig({
+          version: CONFIG_VERSION,
+          projects: [project({ secretKey: undefined })],
+        })
+      ).toThrow(/secretKeyRef is required/);
+    });
+
+    it('should require boolean capabilities', () => {
+      expect(() =>
+        validateConfig({
+          version: CONFIG_VERSION,
+          projects: [project({ capabilities: { products: 'yes' } })],
+        })
+      ).toThrow(/projects\[0\]\.capabilities\.products must be true or false/);
+    });
+
+    it('should reject duplicate project names', () => {
+      expect(() =>
+        validateConfig({
+          version: CONFIG_VERSION,
+          projects: [project(), project({ id: '2' })],
+        })
+      ).toThrow(/duplicated/);
+    });
+  });
+
+  describe('migrateConfig', () => {
+    it('should leave current configs untouched', () => {
+      const config = { version: CONFIG_VERSION, projects: [] };
+
+      expect(migrateConfig(config)).toEqual({
+        config,
+        migratedFrom: undefined,
+      });
+    });
+
+    it('should upgrade 1.0.0 configs', () => {
+      const { config, migratedFrom } = migrateConfig({
+        version: '1.0.0',
+        projects: [project({ defaultCurrency: 'EUR' })],
+        defaultProject: 'deleted-project',
+      });
+
+      expect(migratedFrom).toBe('1.0.0');
+      expect(config).toEqual({
+        version: CONFIG_VERSION,
+        projects: [project({ defaultCurrency: 'eur' })],
+      });
+    });
+
+    it('should treat configs without a version as 1.0.0', () => {
+      const { migratedFrom } = migrateConfig({ projects: [] });
+
+      expect(migratedFrom).toBe('1.0.0');
+    });
+
+    it('should reject unknown versions', () => {
+      expect(() => migrateConfig({ version: '9.0.0', projects: [] })).toThrow(
+        /not supported/
+      );
+    });
+  });
+});
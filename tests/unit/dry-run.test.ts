@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkAccountLinkInput,
+  checkObjectId,
+  checkPriceInput,
+  checkProductInput,
+  checkUpdate,
+  checkWebhookEndpointInput,
+  dryRunId,
+} from '../../src/core/dry-run';
+import { ValidationError } from '../../src/core/types';
+
+describe('dry-run', () => {
+  describe('dryRunId', () => {
+    it('should give the same ID for the same parameters', () => {
+      expect(dryRunId('prod', { name: 'Pro' })).toMatch(
+        /^prod_dryrun_[0-9a-f]{12}$/
+      );
+      expect(dryRunId('prod', { name: 'Pro' })).toBe(
+        dryRunId('prod', { name: 'Pro' })
+      );
+      expect(dryRunId('prod', { name: 'Basic' })).not.toBe(
+        dryRunId('prod', { name: 'Pro' })
+      );
+    });
+  });
+
+  describe('input checks', () => {
+    it('should check ID prefixes', () => {
+      expect(() =>
+        checkObjectId('prod_123', 'prod', 'productId')
+      ).not.toThrow();
+      expect(() => checkObjectId('price_123', 'prod', 'productId')).toThrow(
+        'productId must be a prod_... ID, got "price_123"'
+      );
+    });
+
+    it('should require a product name and string metadata', () => {
+      expect(() => checkProductInput({ name: ' ' })).toThrow(ValidationError);
+      expect(() =>
+        checkProductInput({ name: 'Pro', metadata: { tier: 1 as any } })
+      ).toThrow('metadata.tier must be a string');
+    });
+
+    it('should check price amounts, currencies and intervals', () => {
+      const price = { product: 'prod_123', currency: 'usd', unit_amount: 999 };
+      expect(() => checkPriceInput(price)).not.toThrow();
+      expect(() => checkPriceInput({ ...price, unit_amount: 9.99 })).toThrow(
+        /unit_amount/
+      );
+      expect(() => checkPriceInput({ ...price, currency: 'dollars' })).toThrow(
+        /currency/
+      );
+      expect(() =>
+        checkPriceInput({
+          ...price,
+          recurring: { interval: 'fortnight' as any },
+        })
+      ).toThrow(/recurring.interval/);
+      expect(() =>
+        checkPriceInput({
+          product: 'prod_123',
+          currency: 'usd',
+          billing_scheme: 'tiered',
+        })
+      ).toThrow(/tiers/);
+    });
+
+    it('should reject empty updates', () => {
+      expect(() => checkUpdate({})).toThrow(ValidationError);
+      expect(() => checkUpdate({ active: false })).not.toThrow();
+    });
+
+    it('should check URLs and events', () => {
+      expect(() =>
+        checkWebhookEndpointInput({ url: 'example.com', enabled_events: ['*'] })
+      ).toThrow(/url/);
+      expect(() =>
+        checkWebhookEndpointInput({
+          url: 'https://example.com/webhooks',
+          enabled_events: [],
+        })
+      ).toThrow(/enabled_events/);
+      expect(() =>
+        checkAccountLinkInput({
+          account: 'acct_123',
+          refresh_url: 'https://example.com/refresh',
+          return_url: 'ftp://example.com',
+        })
+      ).toThrow(/return_url/);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FakeStripeBackend } from '../../src/core/fake-stripe-backend';
+import { StripeClient } from '../../src/core/stripe-client';
+import { StripeClientError } from '../../src/core/types';
+import type { ProjectConfig, UpdatePriceInput } from '../../src/core/types';
+
+const project: ProjectConfig = {
+  id: 'test-id',
+  name: 'test-project',
+  environment: 'test',
+  publishableKey: 'pk_test_123',
+  secretKey: 'sk_test_123',
+  defaultCurrency: 'usd',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+async function failure(promise: Promise<unknown>): Promise<StripeClientError> {
+  const error = await promise.catch((error) => error);
+  expect(error).toBeInstanceOf(StripeClientError);
+  return error;
+}
+
+describe('FakeStripeBackend', () => {
+  let backend: FakeStripeBackend;
+  let client: StripeClient;
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'fake-stripe-'));
+    backend = new FakeStripeBackend({ dataFile: join(dir, 'stripe.json') });
+    await backend.start();
+    client = new StripeClient(project, {
+      ...backend.clientOptions(),
+      retry: false,
+    });
+  });
+
+  afterEach(async () => {
+    await backend.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should create products with Stripe-style IDs', async () => {
+    const product = await client.createProduct({
+      name: 'Pro',
+      metadata: { tier: 'pro' },
+    });
+
+    expect(product.id).toMatch(/^prod_[A-Za-z0-9]{14}$/);
+    expect(product).toMatchObject({
+      object: 'product',
+      name: 'Pro',
+      active: true,
+      livemode: false,
+      metadata: { tier: 'pro' },
+    });
+    expect(await client.getProduct(product.id)).toMatchObject({ name: 'Pro' });
+  });
+
+  it('should page lists newest first with has_more', async () => {
+    const ids: string[] = [];
+    for (const name of ['A', 'B', 'C']) {
+      ids.push((await client.createProduct({ name })).id);
+    }
+
+    const response = await fetch(`${backend.url}/v1/products?limit=2`, {
+      headers: { Authorization: 'Bearer sk_test_123' },
+    });
+    const first = await response.json();
+    expect(first.data.map((p: { id: string }) => p.id)).toEqual([
+      ids[2],
+      ids[1],
+    ]);
+    expect(first.has_more).toBe(true);
+
+    const second = await client.listProducts({
+      limit: 2,
+      starting_after: ids[1],
+    });
+    expect(second.map((p) => p.id)).toEqual([ids[0]]);
+
+    const all = await client.listAllProducts({ limit: 2 });
+    expect(all.map((p) => p.id)).toEqual([...ids].reverse());
+  });
+
+  it('should filter prices', async () => {
+    const product = await client.createProduct({ name: 'Pro' });
+    const other = await client.createProduct({ name: 'Basic' });
+    const monthly = await client.createPrice({
+      product: product.id,
+      currency: 'usd',
+      unit_amount: 1000,
+      recurring: { interval: 'month' },
+    });
+    await client.createPrice({
+      product: product.id,
+      currency: 'usd',
+      unit_amount: 5000,
+    });
+    await client.createPrice({
+      product: other.id,
+      currency: 'usd',
+      unit_amount: 500,
+      recurring: { interval: 'month' },
+    });
+
+    const prices = await client.listPrices({
+      product: product.id,
+      recurring: { interval: 'month' },
+    });
+
+    expect(prices.map((p) => p.id)).toEqual([monthly.id]);
+    expect(prices[0]).toMatchObject({
+      type: 'recurring',
+      unit_amount: 1000,
+      recurring: { interval: 'month', interval_count: 1 },
+    });
+  });
+
+  it('should create tiered prices and move lookup keys', async () => {
+    const product = await client.createProduct({ name: 'Seats' });
+    const tiered = await client.createPrice({
+      product: product.id,
+      currency: 'usd',
+      billing_scheme: 'tiered',
+      tiers_mode: 'graduated',
+      tiers: [
+        { up_to: 10, unit_amount: 500 },
+        { up_to: 'inf', unit_amount: 400 },
+      ],
+      recurring: { interval: 'month' },
+      lookup_key: 'seats',
+    });
+    const replacement = await client.createPrice({
+      product: product.id,
+      currency: 'usd',
+      unit_amount: 450,
+      recurring: { interval: 'month' },
+      lookup_key: 'seats',
+      transfer_lookup_key: true,
+    });
+
+    expect(tiered.tiers).toEqual([
+      expect.objectContaining({ up_to: 10, unit_amount: 500 }),
+      expect.objectContaining({ up_to: null, unit_amount: 400 }),
+    ]);
+    expect(replacement.lookup_key).toBe('seats');
+    expect((await client.getPrice(tiered.id)).lookup_key).toBeNull();
+  });
+
+  it('should reject changes Stripe does not allow', async () => {
+    const product = await client.createProduct({ name: 'Pro' });
+    const price = await client.createPrice({
+      product: product.id,
+      currency: 'usd',
+      unit_amount: 1000,
+    });
+
+    const update = await failure(
+      client.updatePrice(price.id, {
+        unit_amount: 2000,
+      } as UpdatePriceInput)
+    );
+    expect(update).toMatchObject({
+      statusCode: 400,
+      kind: 'invalid_request',
+      param: 'unit_amount',
+      code: 'parameter_unknown',
+    });
+    expect(update.requestId).toMatch(/^req_/);
+
+    const del = await failure(client.deleteProduct(product.id));
+    expect(del.message).toContain('has one or more user-created prices');
+
+    const missing = await failure(client.getProduct('prod_missing'));
+    expect(missing).toMatchObject({ statusCode: 404, param: 'id' });
+  });
+
+  it('should reject parameters that would reach the object prototype', async () => {
+    for (const key of [
+      '__proto__[polluted]',
+      'metadata[constructor][prototype]',
+    ]) {
+      const response = await fetch(`${backend.url}/v1/products`, {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer sk_test_123',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: `name=Pro&${encodeURIComponent(key)}=yes`,
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatchObject({
+        type: 'invalid_request_error',
+        param: key,
+      });
+    }
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect(await client.listProducts()).toHaveLength(0);
+  });
+
+  it('should reject a parameter sent as both a value and a hash', async () => {
+    for (const body of ['name=Pro&a=1&a[b]=2', 'name=Pro&a[b]=2&a=1']) {
+      const response = await fetch(`${backend.url}/v1/products`, {
+        method: 'POST',
+        headers: {
+          Authorization: 'Bearer sk_test_123',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body,
+      });
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatchObject({
+        type: 'invalid_request_error',
+        param: 'a',
+      });
+    }
+  });
+
+  it('should replay requests with the same idempotency key', async () => {
+    const first = await client.createProduct({
+      name: 'Pro',
+      idempotencyKey: 'create-pro',
+    });
+    const again = await client.createProduct({
+      name: 'Pro',
+      idempotencyKey: 'create-pro',
+    });
+    const reused = await failure(
+      client.createProduct({ name: 'Basic', idempotencyKey: 'create-pro' })
+    );
+
+    expect(again.id).toBe(first.id);
+    expect(reused.kind).toBe('idempotency');
+    expect(await client.listProducts()).toHaveLength(1);
+  });
+
+  it('should not duplicate a re-run create', async () => {
+    const first = await client.createProduct({ name: 'Pro' });
+    const again = await client.createProduct({ name: 'Pro' });
+
+    expect(again.id).toBe(first.id);
+    expect(await client.listProducts()).toHaveLength(1);
+  });
+
+  it('should keep connected account objects apart', async () => {
+    const account = await client.createConnectAccount({
+      type: 'express',
+      country: 'us',
+    });
+    const connected = client.forAccount(account.id);
+    await connected.createProduct({ name: 'Connected' });
+
+    expect(account.id).toMatch(/^acct_/);
+    expect(account.country).toBe('US');
+    expect(await client.listProducts()).toHaveLength(0);
+    expect(await connected.listProducts()).toHaveLength(1);
+
+    const unknown = client.forAccount('acct_unknown');
+    expect((await failure(unknown.listProducts())).kind).toBe('permission');
+  });
+
+  it('should report the account API version', async () => {
+    expect(await client.getAccountApiVersion()).toBe('2023-10-16');
+  });
+
+  it('should persist data to the data file', async () => {
+    const product = await client.createProduct({ name: 'Pro' });
+    const accountId = backend.accountId;
+    await backend.stop();
+
+    const restarted = new FakeStripeBackend({
+      dataFile: join(dir, 'stripe.json'),
+    });
+    await restarted.start();
+    backend = restarted;
+    client = new StripeClient(project, {
+      ...restarted.clientOptions(),
+      retry: false,
+    });
+
+    expect(restarted.accountId).toBe(accountId);
+    expect(await client.getProduct(product.id)).toMatchObject({ name: 'Pro' });
+  });
+});
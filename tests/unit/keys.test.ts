@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canUse,
+  checkKeyAccount,
+  checkProjectKeys,
+  inferEnvironment,
+  parseStripeKey,
+  usableResources,
+} from '../../src/core/keys';
+import { ValidationError } from '../../src/core/types';
+
+const FRAGMENT = 'HxAbCdEfGh1234';
+const OTHER_FRAGMENT = 'JzYxWvUtSr9876';
+
+describe('keys', () => {
+  describe('parseStripeKey', () => {
+    it('should read the type and environment from the prefix', () => {
+      expect(parseStripeKey('pk_live_abc')).toEqual({
+        type: 'publishable',
+        environment: 'live',
+      });
+      expect(parseStripeKey('rk_test_abc')?.type).toBe('restricted');
+      expect(parseStripeKey('whsec_abc')).toBeUndefined();
+    });
+
+    it('should extract the account fragment of newer keys', () => {
+      expect(
+        parseStripeKey(`sk_test_51${FRAGMENT}restofthekey`)?.accountFragment
+      ).toBe(FRAGMENT);
+    });
+  });
+
+  describe('capabilities', () => {
+    const capabilities = {
+      products: true,
+      prices: false,
+      accounts: false,
+      webhookEndpoints: true,
+    };
+
+    it('should only deny resources a probe found unavailable', () => {
+      expect(canUse({}, 'prices')).toBe(true);
+      expect(canUse({ capabilities }, 'products')).toBe(true);
+      expect(canUse({ capabilities }, 'prices')).toBe(false);
+    });
+
+    it('should list usable resources in menu order', () => {
+      expect(usableResources(capabilities)).toEqual([
+        'products',
+        'webhookEndpoints',
+      ]);
+    });
+  });
+
+  describe('inferEnvironment', () => {
+    it('should use the first recognised key', () => {
+      expect(inferEnvironment(undefined, 'bogus', 'sk_live_abc')).toBe('live');
+      expect(inferEnvironment('bogus')).toBeUndefined();
+    });
+  });
+
+  describe('checkProjectKeys', () => {
+    it('should accept matching keys', () => {
+      expect(() =>
+        checkProjectKeys(
+          { environment: 'test', publishableKey: `pk_test_51${FRAGMENT}pk` },
+          `rk_test_51${FRAGMENT}rk`
+        )
+      ).not.toThrow();
+    });
+
+    it('should name the key that does not match the environment', () => {
+      try {
+        checkProjectKeys(
+          { environment: 'live', publishableKey: 'pk_live_abc' },
+          'sk_test_abc'
+        );
+        expect.fail('should have thrown');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect(error.field).toBe('secretKey');
+        expect(error.message).toBe(
+          'secretKey is a test key, but the project environment is live'
+        );
+      }
+    });
+
+    it('should reject a publishable key in place of the secret key', () => {
+      expect(() =>
+        checkProjectKeys(
+          { environment: 'test', publishableKey: 'pk_test_abc' },
+          'pk_test_abc'
+        )
+      ).toThrow(/secretKey must start with/);
+    });
+
+    it('should reject keys of different accounts', () => {
+      expect(() =>
+        checkProjectKeys(
+          { environment: 'test', publishableKey: `pk_test_51${FRAGMENT}pk` },
+          `sk_test_51${OTHER_FRAGMENT}sk`
+        )
+      ).toThrow('publishableKey and secretKey belong to different');
+    });
+  });
+
+  describe('checkKeyAccount', () => {
+    it('should compare the publishable key with the account ID', () => {
+      const key = `pk_test_51${FRAGMENT}pk`;
+
+      expect(() => checkKeyAccount(key, `acct_1${FRAGMENT}X`)).not.toThrow();
+      expect(() => checkKeyAccount(key, `acct_1${OTHER_FRAGMENT}X`)).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should skip keys without an account fragment', () => {
+      expect(() => checkKeyAccount('pk_test_123', 'acct_123')).not.toThrow();
+    });
+  });
+});
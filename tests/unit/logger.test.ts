@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createConsoleLogger,
+  formatEvent,
+  redactSecrets,
+} from '../../src/core/logger';
+import { StripeClientError } from '../../src/core/types';
+
+describe('logger', () => {
+  describe('redactSecrets', () => {
+    it('should mask secret keys and webhook secrets', () => {
+      expect(
+        redactSecrets('Invalid API Key provided: sk_test_51AbCdEfGhIjKl9876')
+      ).toBe('Invalid API Key provided: sk_test_…9876');
+      expect(redactSecrets('rk_live_short and whsec_abcdefghijkl1234')).toBe(
+        'rk_live_**** and whsec_…1234'
+      );
+    });
+
+    it('should leave publishable keys and IDs alone', () => {
+      const text = 'pk_test_123 used with prod_123 and acct_123';
+      expect(redactSecrets(text)).toBe(text);
+    });
+  });
+
+  describe('formatEvent', () => {
+    it('should describe requests and responses', () => {
+      expect(
+        formatEvent({
+          type: 'request',
+          method: 'POST',
+          path: '/v1/products',
+          stripeAccount: 'acct_123',
+          idempotencyKey: 'key_1',
+        })
+      ).toBe('→ POST /v1/products (account acct_123, idempotency key key_1)');
+      expect(
+        formatEvent({
+          type: 'response',
+          method: 'GET',
+          path: '/v1/prices',
+          status: 200,
+          requestId: 'req_123',
+          elapsedMs: 87,
+        })
+      ).toBe('← 200 GET /v1/prices 87ms req_123');
+    });
+
+    it('should show the request a dry run skipped', () => {
+      expect(
+        formatEvent({
+          type: 'dry_run',
+          operation: 'prices.update',
+          method: 'POST',
+          path: '/v1/prices/price_123',
+          params: { active: false },
+        })
+      ).toBe('[dry run] POST /v1/prices/price_123 {"active":false}');
+    });
+
+    it('should include the request ID of failures', () => {
+      expect(
+        formatEvent({
+          type: 'error',
+          operation: 'products.retrieve',
+          attempts: 1,
+          elapsedMs: 250,
+          error: new StripeClientError(
+            'No such product',
+            404,
+            'resource_missing',
+            'req_404'
+          ),
+        })
+      ).toBe(
+        '✖ products.retrieve failed after 1 attempt(s) in 0.3s: 404 No such product (request req_404)'
+      );
+    });
+  });
+
+  describe('createConsoleLogger', () => {
+    it('should write redacted lines', () => {
+      const write = vi.fn();
+      createConsoleLogger(write)({
+        type: 'retry',
+        operation: 'products.list',
+        attempt: 1,
+        maxAttempts: 3,
+        delayMs: 500,
+        error: new StripeClientError('Bad key sk_test_abcdefghijkl1234'),
+      });
+
+      expect(write).toHaveBeenCalledWith(
+        '↻ products.list failed (Bad key sk_test_…1234), retrying in 0.5s (attempt 2/3)'
+      );
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { RateLimiter } from '../../src/core/rate-limiter';
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should limit the number of requests in flight', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 2 });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+    };
+
+    await Promise.all(Array.from({ length: 6 }, () => limiter.schedule(task)));
+
+    expect(peak).toBe(2);
+  });
+
+  it('should delay requests beyond the per-second limit', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+    const started: number[] = [];
+    const task = async () => {
+      started.push(Date.now());
+    };
+
+    const done = Promise.all([1, 2, 3].map(() => limiter.schedule(task)));
+    await vi.advanceTimersByTimeAsync(1000);
+    await done;
+
+    expect(started).toHaveLength(3);
+    expect(started[2] - started[0]).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+
+    await expect(
+      limiter.schedule(() => Promise.reject(new Error('boom')))
+    ).rejects.toThrow('boom');
+    await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+  });
+});
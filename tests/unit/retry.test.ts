@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY, isRetryable, retryDelay } from '../../src/core/retry';
+
+describe('retry', () => {
+  describe('isRetryable', () => {
+    it('should retry rate limits, conflicts, server and connection errors', () => {
+      expect(isRetryable({ statusCode: 429 })).toBe(true);
+      expect(isRetryable({ statusCode: 409 })).toBe(true);
+      expect(isRetryable({ statusCode: 503 })).toBe(true);
+      expect(isRetryable({ type: 'StripeConnectionError' })).toBe(true);
+    });
+
+    it('should not retry client errors', () => {
+      expect(isRetryable({ statusCode: 400 })).toBe(false);
+      expect(isRetryable({ statusCode: 404 })).toBe(false);
+      expect(isRetryable(new Error('boom'))).toBe(false);
+    });
+
+    it('should follow the Stripe-Should-Retry header', () => {
+      expect(
+        isRetryable({
+          statusCode: 500,
+          headers: { 'stripe-should-retry': 'false' },
+        })
+      ).toBe(false);
+      expect(
+        isRetryable({
+          statusCode: 400,
+          headers: { 'stripe-should-retry': 'true' },
+        })
+      ).toBe(true);
+    });
+  });
+
+  describe('retryDelay', () => {
+    const policy = { ...DEFAULT_RETRY, jitter: false };
+
+    it('should double the delay up to the maximum', () => {
+      expect(retryDelay(1, policy)).toBe(500);
+      expect(retryDelay(3, policy)).toBe(2000);
+      expect(retryDelay(10, policy)).toBe(10_000);
+    });
+
+    it('should keep jittered delays between half and the full backoff', () => {
+      expect(retryDelay(2, DEFAULT_RETRY, undefined, () => 0)).toBe(500);
+      expect(retryDelay(2, DEFAULT_RETRY, undefined, () => 1)).toBe(1000);
+    });
+
+    it('should honour Retry-After', () => {
+      const error = { statusCode: 429, headers: { 'retry-after': '3' } };
+
+      expect(retryDelay(1, policy, error)).toBe(3000);
+    });
+
+    it('should cap Retry-After at the maximum delay', () => {
+      const error = { statusCode: 503, headers: { 'retry-after': '3600' } };
+
+      expect(retryDelay(1, policy, error)).toBe(10_000);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DefaultSecretResolver,
+  resolveSecretKey,
+} from '../../src/core/secret-resolver';
+import { ConfigError } from '../../src/core/types';
+import type { ProjectConfig } from '../../src/core/types';
+
+describe('secret resolver', () => {
+  const resolver = new DefaultSecretResolver();
+
+  afterEach(() => {
+    delete process.env.STRIPE_SK_TEST;
+  });
+
+  describe('DefaultSecretResolver', () => {
+    it('should read env: references', () => {
+      process.env.STRIPE_SK_TEST = 'sk_test_env';
+
+      expect(resolver.resolve('env:STRIPE_SK_TEST')).toBe('sk_test_env');
+    });
+
+    it('should fail for unset environment variables', () => {
+      expect(() => resolver.resolve('env:STRIPE_SK_TEST')).toThrow(
+        'Environment variable STRIPE_SK_TEST is not set'
+      );
+    });
+
+    it('should run cmd: references and trim the output', () => {
+      expect(resolver.resolve('cmd:echo sk_test_cmd')).toBe('sk_test_cmd');
+    });
+
+    it('should report failing commands', () => {
+      expect(() => resolver.resolve('cmd:exit 3')).toThrow(
+        /Secret command failed/
+      );
+    });
+
+    it('should reject unknown schemes and malformed references', () => {
+      expect(() => resolver.resolve('vault:acme')).toThrow(ConfigError);
+      expect(() => resolver.resolve('sk_test_123')).toThrow(/scheme:value/);
+    });
+
+    it('should use custom providers', () => {
+      const custom = new DefaultSecretResolver({
+        vault: (path) => `sk_test_${path}`,
+      });
+
+      expect(custom.resolve('vault:acme')).toBe('sk_test_acme');
+    });
+  });
+
+  describe('resolveSecretKey', () => {
+    const project = {
+      name: 'acme',
+      secretKey: 'sk_test_stored',
+    } as ProjectConfig;
+
+    it('should prefer secretKeyRef over secretKey', () => {
+      process.env.STRIPE_SK_TEST = 'sk_test_env';
+
+      expect(
+        resolveSecretKey({ ...project, secretKeyRef: 'env:STRIPE_SK_TEST' })
+      ).toBe('sk_test_env');
+    });
+
+    it('should fall back to the stored secret key', () => {
+      expect(resolveSecretKey(project)).toBe('sk_test_stored');
+    });
+
+    it('should fail when no key is configured', () => {
+      expect(() => resolveSecretKey({ name: 'acme' } as ProjectConfig)).toThrow(
+        'Project "acme" has no secretKey or secretKeyRef'
+      );
+    });
+  });
+});
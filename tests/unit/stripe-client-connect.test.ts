@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Stripe from 'stripe';
 import { StripeClient } from '../../src/core/stripe-client';
-import { StripeClientError } from '../../src/core/types';
+import { StripeClientError, ValidationError } from '../../src/core/types';
 import type { ProjectConfig } from '../../src/core/types';
 
 // Create mock functions
@@ -12,6 +13,10 @@ const mockWebhookEndpointsCreate = vi.fn();
 const mockWebhookEndpointsList = vi.fn();
 const mockWebhookEndpointsDel = vi.fn();
 
+// Created objects carry the idempotency key derived from the input
+const idempotencyKey = expect.stringMatching(/^stripeconf-/);
+const requestOptions = { idempotencyKey };
+
 // Mock Stripe SDK
 vi.mock('stripe', () => {
   return {
@@ -101,6 +106,87 @@ describe('StripeClient - Connect Operations', () => {
     });
   });
 
+  describe('verifyKeys', () => {
+    const fragment = 'HxAbCdEfGh1234';
+
+    it('should return the account both keys belong to', async () => {
+      mockAccountsRetrieve.mockResolvedValue({ id: `acct_1${fragment}Q` });
+      const client = new StripeClient({
+        ...mockProject,
+        publishableKey: `pk_test_51${fragment}pk`,
+      });
+
+      const account = await client.verifyKeys();
+
+      expect(account?.id).toBe(`acct_1${fragment}Q`);
+    });
+
+    it('should reject a publishable key of another account', async () => {
+      mockAccountsRetrieve.mockResolvedValue({ id: 'acct_1JzYxWvUtSr9876Q' });
+      const client = new StripeClient({
+        ...mockProject,
+        publishableKey: `pk_test_51${fragment}pk`,
+      });
+
+      await expect(client.verifyKeys()).rejects.toThrow(ValidationError);
+    });
+
+    it('should skip the account check for restricted keys without access', async () => {
+      const permissionError = new Error('Key does not have access');
+      (permissionError as any).statusCode = 403;
+      mockAccountsRetrieve.mockRejectedValue(permissionError);
+      const client = new StripeClient({
+        ...mockProject,
+        secretKey: 'rk_test_123',
+      });
+
+      await expect(client.verifyKeys()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('probeCapabilities', () => {
+    function permissionError() {
+      return Object.assign(new Error('Key does not have access'), {
+        statusCode: 403,
+      });
+    }
+
+    it('should record which resources a restricted key can read', async () => {
+      const client = new StripeClient({
+        ...mockProject,
+        secretKey: 'rk_test_123',
+      });
+      const stripe = (client as any).stripe;
+      stripe.products.list.mockResolvedValue({ data: [] });
+      stripe.prices.list.mockRejectedValue(permissionError());
+      mockAccountsList.mockRejectedValue(permissionError());
+      mockWebhookEndpointsList.mockResolvedValue({ data: [] });
+
+      expect(client.hasRestrictedKey()).toBe(true);
+      await expect(client.probeCapabilities()).resolves.toEqual({
+        products: true,
+        prices: false,
+        accounts: false,
+        webhookEndpoints: true,
+      });
+      expect(mockWebhookEndpointsList).toHaveBeenCalledWith({ limit: 1 });
+    });
+
+    it('should throw errors other than permission errors', async () => {
+      const stripe = (stripeClient as any).stripe;
+      stripe.products.list.mockRejectedValue(
+        Object.assign(new Error('Invalid API Key provided'), {
+          statusCode: 401,
+        })
+      );
+
+      expect(stripeClient.hasRestrictedKey()).toBe(false);
+      await expect(stripeClient.probeCapabilities()).rejects.toThrow(
+        StripeClientError
+      );
+    });
+  });
+
   describe('createConnectAccount', () => {
     it('should create an express connected account', async () => {
       const mockAccount = {
@@ -125,8 +211,8 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createConnectAccount(input);
 
-      expect(result).toEqual(mockAccount);
-      expect(mockAccountsCreate).toHaveBeenCalledWith(input);
+      expect(result).toEqual({ ...mockAccount, idempotencyKey });
+      expect(mockAccountsCreate).toHaveBeenCalledWith(input, requestOptions);
     });
 
     it('should create a standard connected account', async () => {
@@ -149,8 +235,8 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createConnectAccount(input);
 
-      expect(result).toEqual(mockAccount);
-      expect(mockAccountsCreate).toHaveBeenCalledWith(input);
+      expect(result).toEqual({ ...mockAccount, idempotencyKey });
+      expect(mockAccountsCreate).toHaveBeenCalledWith(input, requestOptions);
     });
 
     it('should create account with all optional fields', async () => {
@@ -181,8 +267,8 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createConnectAccount(input);
 
-      expect(result).toEqual(mockAccount);
-      expect(mockAccountsCreate).toHaveBeenCalledWith(input);
+      expect(result).toEqual({ ...mockAccount, idempotencyKey });
+      expect(mockAccountsCreate).toHaveBeenCalledWith(input, requestOptions);
     });
 
     it('should handle Stripe API errors on create', async () => {
@@ -219,13 +305,16 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createAccountLink(input);
 
-      expect(result).toEqual(mockLink);
-      expect(mockAccountLinksCreate).toHaveBeenCalledWith({
-        account: 'acct_123',
-        refresh_url: 'https://example.com/reauth',
-        return_url: 'https://example.com/return',
-        type: 'account_onboarding',
-      });
+      expect(result).toEqual({ ...mockLink, idempotencyKey });
+      expect(mockAccountLinksCreate).toHaveBeenCalledWith(
+        {
+          account: 'acct_123',
+          refresh_url: 'https://example.com/reauth',
+          return_url: 'https://example.com/return',
+          type: 'account_onboarding',
+        },
+        requestOptions
+      );
     });
 
     it('should create an account update link', async () => {
@@ -246,13 +335,33 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createAccountLink(input);
 
-      expect(result).toEqual(mockLink);
-      expect(mockAccountLinksCreate).toHaveBeenCalledWith({
+      expect(result).toEqual({ ...mockLink, idempotencyKey });
+      expect(mockAccountLinksCreate).toHaveBeenCalledWith(
+        {
+          account: 'acct_123',
+          refresh_url: 'https://example.com/reauth',
+          return_url: 'https://example.com/return',
+          type: 'account_update',
+        },
+        requestOptions
+      );
+    });
+
+    it('should derive link keys like other creates', async () => {
+      mockAccountLinksCreate.mockResolvedValue({ object: 'account_link' });
+      const input = {
         account: 'acct_123',
         refresh_url: 'https://example.com/reauth',
         return_url: 'https://example.com/return',
-        type: 'account_update',
-      });
+      };
+
+      const first = await stripeClient.createAccountLink(input);
+      const again = await stripeClient.createAccountLink(input);
+
+      expect(first.idempotencyKey).toMatch(
+        /^stripeconf-accountLinks\.create-/
+      );
+      expect(again.idempotencyKey).toBe(first.idempotencyKey);
     });
 
     it('should handle invalid account ID errors', async () => {
@@ -463,6 +572,38 @@ describe('StripeClient - Connect Operations', () => {
     });
   });
 
+  describe('listAllConnectAccounts', () => {
+    it('should fetch every page with the maximum page size', async () => {
+      mockAccountsList
+        .mockResolvedValueOnce({ data: [{ id: 'acct_1' }], has_more: true })
+        .mockResolvedValueOnce({ data: [{ id: 'acct_2' }], has_more: false });
+
+      const result = await stripeClient.listAllConnectAccounts();
+
+      expect(result.map((a) => a.id)).toEqual(['acct_1', 'acct_2']);
+      expect(mockAccountsList).toHaveBeenNthCalledWith(1, { limit: 100 });
+      expect(mockAccountsList).toHaveBeenNthCalledWith(2, {
+        limit: 100,
+        starting_after: 'acct_1',
+      });
+    });
+
+    it('should respect maxItems', async () => {
+      mockAccountsList.mockResolvedValue({
+        data: [{ id: 'acct_1' }, { id: 'acct_2' }],
+        has_more: true,
+      });
+
+      const result = await stripeClient.listAllConnectAccounts({
+        maxItems: 2,
+      });
+
+      expect(result).toHaveLength(2);
+      expect(mockAccountsList).toHaveBeenCalledTimes(1);
+      expect(mockAccountsList).toHaveBeenCalledWith({ limit: 2 });
+    });
+  });
+
   describe('createWebhookEndpoint', () => {
     it('should create a webhook endpoint with events', async () => {
       const mockEndpoint = {
@@ -483,11 +624,14 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createWebhookEndpoint(input);
 
-      expect(result).toEqual(mockEndpoint);
-      expect(mockWebhookEndpointsCreate).toHaveBeenCalledWith({
-        url: 'https://example.com/api/stripe/webhooks',
-        enabled_events: ['payment_intent.succeeded', 'checkout.session.completed'],
-      });
+      expect(result).toEqual({ ...mockEndpoint, idempotencyKey });
+      expect(mockWebhookEndpointsCreate).toHaveBeenCalledWith(
+        {
+          url: 'https://example.com/api/stripe/webhooks',
+          enabled_events: ['payment_intent.succeeded', 'checkout.session.completed'],
+        },
+        requestOptions
+      );
     });
 
     it('should create a webhook with description and metadata', async () => {
@@ -512,7 +656,7 @@ describe('StripeClient - Connect Operations', () => {
 
       const result = await stripeClient.createWebhookEndpoint(input);
 
-      expect(result).toEqual(mockEndpoint);
+      expect(result).toEqual({ ...mockEndpoint, idempotencyKey });
       expect(result.secret).toBe('whsec_test_def456');
     });
 
@@ -564,6 +708,22 @@ describe('StripeClient - Connect Operations', () => {
     });
   });
 
+  describe('listAllWebhookEndpoints', () => {
+    it('should follow has_more across pages', async () => {
+      mockWebhookEndpointsList
+        .mockResolvedValueOnce({ data: [{ id: 'we_1' }], has_more: true })
+        .mockResolvedValueOnce({ data: [{ id: 'we_2' }], has_more: false });
+
+      const result = await stripeClient.listAllWebhookEndpoints();
+
+      expect(result.map((e) => e.id)).toEqual(['we_1', 'we_2']);
+      expect(mockWebhookEndpointsList).toHaveBeenLastCalledWith({
+        limit: 100,
+        starting_after: 'we_1',
+      });
+    });
+  });
+
   describe('deleteWebhookEndpoint', () => {
     it('should delete a webhook endpoint', async () => {
       mockWebhookEndpointsDel.mockResolvedValue({ id: 'we_123', deleted: true });
@@ -586,6 +746,44 @@ describe('StripeClient - Connect Operations', () => {
     });
   });
 
+  describe('forAccount', () => {
+    it('should send requests with the Stripe-Account header', () => {
+      const merchant = stripeClient.forAccount('acct_merchant_123');
+
+      expect(merchant).not.toBe(stripeClient);
+      expect(merchant.getStripeAccount()).toBe('acct_merchant_123');
+      expect(stripeClient.getStripeAccount()).toBeUndefined();
+      expect(vi.mocked(Stripe)).toHaveBeenLastCalledWith(
+        'sk_test_123',
+        expect.objectContaining({ stripeAccount: 'acct_merchant_123' })
+      );
+    });
+
+    it('should reject IDs that are not account IDs', () => {
+      expect(() => stripeClient.forAccount('cus_123')).toThrow(ValidationError);
+      expect(
+        () => new StripeClient(mockProject, { stripeAccount: 'merchant' })
+      ).toThrow(ValidationError);
+    });
+
+    it('should not reuse derived idempotency keys across accounts', async () => {
+      mockWebhookEndpointsCreate.mockResolvedValue({ id: 'we_123' });
+
+      const platform = await stripeClient.createWebhookEndpoint({
+        url: 'https://example.com/webhooks',
+        enabled_events: ['*'],
+      });
+      const merchant = await stripeClient
+        .forAccount('acct_merchant_123')
+        .createWebhookEndpoint({
+          url: 'https://example.com/webhooks',
+          enabled_events: ['*'],
+        });
+
+      expect(merchant.idempotencyKey).not.toBe(platform.idempotencyKey);
+    });
+  });
+
   describe('error handling', () => {
     it('should wrap Connect errors in StripeClientError with status code', async () => {
       const stripeError = new Error('Invalid API key');
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
 import { StripeClient } from '../../src/core/stripe-client';
-import { StripeClientError } from '../../src/core/types';
+import { StripeClientError, ValidationError } from '../../src/core/types';
 import type { ProjectConfig } from '../../src/core/types';
 
 // Create mock functions
@@ -13,6 +13,11 @@ const mockPricesCreate = vi.fn();
 const mockPricesRetrieve = vi.fn();
 const mockPricesUpdate = vi.fn();
 const mockPricesList = vi.fn();
+const mockOn = vi.fn();
+
+// Created objects carry the idempotency key derived from the input
+const idempotencyKey = expect.stringMatching(/^stripeconf-/);
+const requestOptions = { idempotencyKey };
 
 // Mock Stripe SDK
 vi.mock('stripe', () => {
@@ -31,6 +36,7 @@ vi.mock('stripe', () => {
         update: mockPricesUpdate,
         list: mockPricesList,
       },
+      on: mockOn,
     })),
   };
 });
@@ -60,7 +66,124 @@ describe('StripeClient', () => {
   describe('initialization', () => {
     it('should create StripeClient with project config', () => {
       expect(stripeClient).toBeDefined();
-      expect(stripeClient.getProject()).toEqual(mockProject);
+      expect(stripeClient.getProject()).toEqual({
+        ...mockProject,
+        apiVersion: '2023-10-16',
+      });
+    });
+
+    it('should send requests with the project API version', async () => {
+      const Stripe = (await import('stripe')).default as unknown as Mock;
+
+      const client = new StripeClient({
+        ...mockProject,
+        apiVersion: '2024-06-20',
+      });
+
+      expect(client.getProject().apiVersion).toBe('2024-06-20');
+      expect(Stripe).toHaveBeenLastCalledWith(
+        'sk_test_123',
+        expect.objectContaining({ apiVersion: '2024-06-20' })
+      );
+    });
+
+    it('should let the apiVersion option override the project', () => {
+      const client = new StripeClient(
+        { ...mockProject, apiVersion: '2024-06-20' },
+        { apiVersion: '2024-09-30.acacia' }
+      );
+
+      expect(client.getProject().apiVersion).toBe('2024-09-30.acacia');
+      expect(
+        () => new StripeClient(mockProject, { apiVersion: 'latest' })
+      ).toThrow(ValidationError);
+    });
+
+    it('should read the account default API version', async () => {
+      const headers = { 'Stripe-Version': '2022-11-15' };
+      const fetch = vi.fn().mockResolvedValue(new Response('{}', { headers }));
+      vi.stubGlobal('fetch', fetch);
+
+      try {
+        await expect(stripeClient.getAccountApiVersion()).resolves.toBe(
+          '2022-11-15'
+        );
+        const [, init] = fetch.mock.calls[0];
+        expect(init.headers).toEqual({ Authorization: 'Bearer sk_test_123' });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should report the account version request as events', async () => {
+      const headers = { 'Stripe-Version': '2022-11-15', 'Request-Id': 'req_1' };
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response('{}', { headers }))
+      );
+      const onEvent = vi.fn();
+      const client = new StripeClient(mockProject, { onEvent });
+
+      try {
+        await client.getAccountApiVersion();
+        expect(onEvent).toHaveBeenCalledWith({
+          type: 'request',
+          method: 'GET',
+          path: '/v1/account',
+        });
+        expect(onEvent).toHaveBeenCalledWith(
+          expect.objectContaining({ type: 'response', requestId: 'req_1' })
+        );
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should throw when the account version request fails', async () => {
+      const body = JSON.stringify({
+        error: { type: 'invalid_request_error', message: 'Invalid API Key' },
+      });
+      const headers = { 'Stripe-Version': '2022-11-15', 'Request-Id': 'req_1' };
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response(body, { status: 401, headers }))
+      );
+
+      try {
+        const error = await stripeClient.getAccountApiVersion().catch((e) => e);
+        expect(error).toBeInstanceOf(StripeClientError);
+        expect(error).toMatchObject({
+          message: 'Invalid API Key',
+          statusCode: 401,
+          kind: 'authentication',
+          requestId: 'req_1',
+        });
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should reject a secret key from another environment', () => {
+      expect(
+        () => new StripeClient({ ...mockProject, secretKey: 'sk_live_123' })
+      ).toThrow(ValidationError);
+    });
+
+    it('should resolve secretKeyRef with the given resolver', async () => {
+      const Stripe = (await import('stripe')).default as unknown as Mock;
+      const resolve = vi.fn().mockReturnValue('sk_test_from_ref');
+      const { secretKey: _secretKey, ...rest } = mockProject;
+
+      new StripeClient(
+        { ...rest, secretKeyRef: 'env:STRIPE_SK_ACME' },
+        { secretResolver: { resolve } }
+      );
+
+      expect(resolve).toHaveBeenCalledWith('env:STRIPE_SK_ACME');
+      expect(Stripe).toHaveBeenLastCalledWith(
+        'sk_test_from_ref',
+        expect.any(Object)
+      );
     });
   });
 
@@ -83,8 +206,55 @@ describe('StripeClient', () => {
 
         const result = await stripeClient.createProduct(input);
 
-        expect(result).toEqual(mockProduct);
-        expect(mockProductsCreate).toHaveBeenCalledWith(input);
+        expect(result).toEqual({ ...mockProduct, idempotencyKey });
+        expect(mockProductsCreate).toHaveBeenCalledWith(input, requestOptions);
+      });
+
+      it('should derive the same idempotency key for identical calls', async () => {
+        mockProductsCreate.mockResolvedValue({ id: 'prod_123' });
+
+        const first = await stripeClient.createProduct({ name: 'Pro' });
+        const again = await stripeClient.createProduct({ name: 'Pro' });
+        const other = await stripeClient.createProduct({ name: 'Team' });
+
+        expect(first.idempotencyKey).toMatch(/^stripeconf-products\.create-/);
+        expect(again.idempotencyKey).toBe(first.idempotencyKey);
+        expect(other.idempotencyKey).not.toBe(first.idempotencyKey);
+      });
+
+      it('should keep the idempotency key across retries', async () => {
+        const timeout = Object.assign(new Error('Connection reset'), {
+          type: 'StripeConnectionError',
+        });
+        mockProductsCreate
+          .mockRejectedValueOnce(timeout)
+          .mockResolvedValueOnce({ id: 'prod_123' });
+        const client = new StripeClient(mockProject, {
+          retry: { initialDelayMs: 0, jitter: false },
+        });
+
+        const result = await client.createProduct({ name: 'Pro' });
+
+        expect(mockProductsCreate).toHaveBeenCalledTimes(2);
+        const keys = mockProductsCreate.mock.calls.map(
+          ([, options]) => options.idempotencyKey
+        );
+        expect(keys).toEqual([result.idempotencyKey, result.idempotencyKey]);
+      });
+
+      it('should send a given idempotency key instead of the derived one', async () => {
+        mockProductsCreate.mockResolvedValue({ id: 'prod_123' });
+
+        const result = await stripeClient.createProduct({
+          name: 'Pro',
+          idempotencyKey: 'import-42',
+        });
+
+        expect(result.idempotencyKey).toBe('import-42');
+        expect(mockProductsCreate).toHaveBeenCalledWith(
+          { name: 'Pro' },
+          { idempotencyKey: 'import-42' }
+        );
       });
 
       it('should handle Stripe API errors', async () => {
@@ -190,6 +360,113 @@ describe('StripeClient', () => {
     });
   });
 
+  describe('pagination', () => {
+    describe('iterateProducts', () => {
+      it('should follow has_more across pages', async () => {
+        mockProductsList
+          .mockResolvedValueOnce({
+            data: [{ id: 'prod_1' }, { id: 'prod_2' }],
+            has_more: true,
+          })
+          .mockResolvedValueOnce({
+            data: [{ id: 'prod_3' }],
+            has_more: false,
+          });
+
+        const ids: string[] = [];
+        for await (const product of stripeClient.iterateProducts({
+          limit: 2,
+          active: true,
+        })) {
+          ids.push(product.id);
+        }
+
+        expect(ids).toEqual(['prod_1', 'prod_2', 'prod_3']);
+        expect(mockProductsList).toHaveBeenNthCalledWith(1, {
+          limit: 2,
+          active: true,
+        });
+        expect(mockProductsList).toHaveBeenNthCalledWith(2, {
+          limit: 2,
+          active: true,
+          starting_after: 'prod_2',
+        });
+      });
+
+      it('should only fetch pages as they are consumed', async () => {
+        mockProductsList.mockResolvedValue({
+          data: [{ id: 'prod_1' }, { id: 'prod_2' }],
+          has_more: true,
+        });
+
+        for await (const product of stripeClient.iterateProducts()) {
+          expect(product.id).toBe('prod_1');
+          break;
+        }
+
+        expect(mockProductsList).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('listAllProducts', () => {
+      it('should stop at maxItems and shrink the last page', async () => {
+        mockProductsList
+          .mockResolvedValueOnce({
+            data: [{ id: 'prod_1' }, { id: 'prod_2' }],
+            has_more: true,
+          })
+          .mockResolvedValueOnce({
+            data: [{ id: 'prod_3' }],
+            has_more: true,
+          });
+
+        const result = await stripeClient.listAllProducts({
+          limit: 2,
+          maxItems: 3,
+        });
+
+        expect(result.map((p) => p.id)).toEqual(['prod_1', 'prod_2', 'prod_3']);
+        expect(mockProductsList).toHaveBeenCalledTimes(2);
+        expect(mockProductsList).toHaveBeenLastCalledWith({
+          limit: 1,
+          starting_after: 'prod_2',
+        });
+      });
+
+      it('should wrap errors from any page', async () => {
+        mockProductsList
+          .mockResolvedValueOnce({ data: [{ id: 'prod_1' }], has_more: true })
+          .mockRejectedValueOnce(new Error('Server error'));
+
+        await expect(stripeClient.listAllProducts()).rejects.toThrow(
+          StripeClientError
+        );
+      });
+    });
+
+    describe('listAllPrices', () => {
+      it('should keep filters on every page', async () => {
+        mockPricesList
+          .mockResolvedValueOnce({ data: [{ id: 'price_1' }], has_more: true })
+          .mockResolvedValueOnce({
+            data: [{ id: 'price_2' }],
+            has_more: false,
+          });
+
+        const result = await stripeClient.listAllPrices({
+          product: 'prod_123',
+        });
+
+        expect(result).toHaveLength(2);
+        expect(mockPricesList).toHaveBeenLastCalledWith({
+          limit: 100,
+          product: 'prod_123',
+          starting_after: 'price_1',
+        });
+      });
+    });
+  });
+
   describe('prices', () => {
     describe('createPrice', () => {
       it('should create a one-time price', async () => {
@@ -210,8 +487,8 @@ describe('StripeClient', () => {
 
         const result = await stripeClient.createPrice(input);
 
-        expect(result).toEqual(mockPrice);
-        expect(mockPricesCreate).toHaveBeenCalledWith(input);
+        expect(result).toEqual({ ...mockPrice, idempotencyKey });
+        expect(mockPricesCreate).toHaveBeenCalledWith(input, requestOptions);
       });
 
       it('should create a recurring price', async () => {
@@ -240,7 +517,7 @@ describe('StripeClient', () => {
 
         const result = await stripeClient.createPrice(input);
 
-        expect(result).toEqual(mockPrice);
+        expect(result).toEqual({ ...mockPrice, idempotencyKey });
       });
     });
 
@@ -347,6 +624,208 @@ describe('StripeClient', () => {
     });
   });
 
+  describe('retries', () => {
+    function rateLimitError() {
+      return Object.assign(new Error('Rate limit exceeded'), {
+        statusCode: 429,
+        headers: { 'retry-after': '0' },
+      });
+    }
+
+    it('should retry transient failures and report them to the hook', async () => {
+      const onRetry = vi.fn();
+      const client = new StripeClient(mockProject, {
+        retry: { initialDelayMs: 1, jitter: false },
+        onRetry,
+      });
+      mockProductsRetrieve
+        .mockRejectedValueOnce(rateLimitError())
+        .mockResolvedValueOnce({ id: 'prod_123' });
+
+      await expect(client.getProduct('prod_123')).resolves.toEqual({
+        id: 'prod_123',
+      });
+      expect(mockProductsRetrieve).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: 'products.retrieve',
+          attempt: 1,
+          maxAttempts: 3,
+          delayMs: 1,
+          error: expect.any(StripeClientError),
+        })
+      );
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const client = new StripeClient(mockProject, {
+        retry: { maxAttempts: 2, initialDelayMs: 1 },
+      });
+      mockProductsRetrieve.mockRejectedValue(rateLimitError());
+
+      await expect(client.getProduct('prod_123')).rejects.toThrow(
+        StripeClientError
+      );
+      expect(mockProductsRetrieve).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry client errors or when retries are disabled', async () => {
+      const badRequest = Object.assign(new Error('No such product'), {
+        statusCode: 404,
+      });
+      mockProductsRetrieve.mockRejectedValueOnce(badRequest);
+      await expect(stripeClient.getProduct('prod_x')).rejects.toThrow();
+
+      const client = new StripeClient(mockProject, { retry: false });
+      mockProductsRetrieve.mockRejectedValueOnce(rateLimitError());
+      await expect(client.getProduct('prod_x')).rejects.toThrow();
+
+      expect(mockProductsRetrieve).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send requests through a shared rate limiter', async () => {
+      const rateLimiter = { schedule: vi.fn((task) => task()) };
+      const client = new StripeClient(mockProject, { rateLimiter });
+      mockProductsList.mockResolvedValue({ data: [], has_more: false });
+
+      await client.listProducts();
+
+      expect(rateLimiter.schedule).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('events', () => {
+    it('should pass SDK request and response events to the hook', () => {
+      const onEvent = vi.fn();
+      new StripeClient(mockProject, { onEvent });
+      const handlers = Object.fromEntries(mockOn.mock.calls);
+
+      handlers.request({
+        api_version: '2023-10-16',
+        method: 'POST',
+        path: '/v1/products',
+        idempotency_key: 'key_1',
+        request_start_time: 0,
+      });
+      handlers.response({
+        api_version: '2023-10-16',
+        method: 'POST',
+        path: '/v1/products',
+        status: 200,
+        request_id: 'req_123',
+        elapsed: 42,
+        request_start_time: 0,
+        request_end_time: 42,
+      });
+
+      expect(onEvent).toHaveBeenNthCalledWith(1, {
+        type: 'request',
+        method: 'POST',
+        path: '/v1/products',
+        apiVersion: '2023-10-16',
+        idempotencyKey: 'key_1',
+      });
+      expect(onEvent).toHaveBeenNthCalledWith(2, {
+        type: 'response',
+        method: 'POST',
+        path: '/v1/products',
+        status: 200,
+        requestId: 'req_123',
+        elapsedMs: 42,
+      });
+    });
+
+    it('should report failed operations with the request ID', async () => {
+      const onEvent = vi.fn();
+      const client = new StripeClient(mockProject, { onEvent });
+      mockProductsRetrieve.mockRejectedValue(
+        Object.assign(new Error('No such product'), {
+          statusCode: 404,
+          requestId: 'req_404',
+        })
+      );
+
+      await expect(client.getProduct('prod_x')).rejects.toMatchObject({
+        requestId: 'req_404',
+      });
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'error',
+          operation: 'products.retrieve',
+          attempts: 1,
+          error: expect.objectContaining({ requestId: 'req_404' }),
+        })
+      );
+    });
+
+    it('should not subscribe to SDK events without a hook', () => {
+      expect(mockOn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dry run', () => {
+    let onEvent: Mock;
+    let client: StripeClient;
+
+    beforeEach(() => {
+      onEvent = vi.fn();
+      client = new StripeClient(mockProject, { dryRun: true, onEvent });
+    });
+
+    it('should report creates and return a synthetic object', async () => {
+      const product = await client.createProduct({ name: 'Pro' });
+
+      expect(mockProductsCreate).not.toHaveBeenCalled();
+      expect(product).toMatchObject({
+        id: expect.stringMatching(/^prod_dryrun_/),
+        object: 'product',
+        name: 'Pro',
+        active: true,
+        livemode: false,
+        idempotencyKey,
+      });
+      expect(onEvent).toHaveBeenCalledWith({
+        type: 'dry_run',
+        operation: 'products.create',
+        method: 'POST',
+        path: '/v1/products',
+        params: { name: 'Pro' },
+        idempotencyKey: product.idempotencyKey,
+      });
+    });
+
+    it('should read the object an update would change', async () => {
+      mockPricesRetrieve.mockResolvedValue({ id: 'price_123', active: true });
+
+      const price = await client.archivePrice('price_123');
+
+      expect(mockPricesUpdate).not.toHaveBeenCalled();
+      expect(price).toEqual({ id: 'price_123', active: false });
+      expect(onEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'dry_run',
+          path: '/v1/prices/price_123',
+          params: { active: false },
+        })
+      );
+    });
+
+    it('should validate inputs without sending anything', async () => {
+      await expect(
+        client.createPrice({ product: 'price_123', currency: 'usd' })
+      ).rejects.toThrow(ValidationError);
+      await expect(client.deleteProduct('price_123')).rejects.toThrow(
+        ValidationError
+      );
+
+      expect(mockPricesCreate).not.toHaveBeenCalled();
+      expect(mockProductsDel).not.toHaveBeenCalled();
+      expect(onEvent).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'dry_run' })
+      );
+    });
+  });
+
   describe('error handling', () => {
     it('should wrap Stripe errors in StripeClientError', async () => {
       const stripeError = new Error('Rate limit exceeded');
@@ -362,7 +841,45 @@ describe('StripeClient', () => {
         expect(error).toBeInstanceOf(StripeClientError);
         expect((error as StripeClientError).statusCode).toBe(429);
         expect((error as StripeClientError).code).toBe('rate_limit');
+        expect((error as StripeClientError).kind).toBe('rate_limit');
       }
     });
+
+    it('should keep the error type, param and docs of Stripe errors', async () => {
+      const stripeError = Object.assign(new Error('Invalid integer: abc'), {
+        type: 'StripeInvalidRequestError',
+        statusCode: 400,
+        code: 'parameter_invalid_integer',
+        param: 'unit_amount',
+        doc_url: 'https://stripe.com/docs/error-codes/invalid-integer',
+        requestId: 'req_123',
+      });
+      mockPricesCreate.mockRejectedValue(stripeError);
+
+      const error = await stripeClient
+        .createPrice({ product: 'prod_123', currency: 'usd', unit_amount: 1 })
+        .catch((e) => e);
+
+      expect(error).toMatchObject({
+        kind: 'invalid_request',
+        param: 'unit_amount',
+        docUrl: 'https://stripe.com/docs/error-codes/invalid-integer',
+        requestId: 'req_123',
+        raw: stripeError,
+      });
+    });
+
+    it('should tell idempotency conflicts from other errors', async () => {
+      mockProductsCreate.mockRejectedValue(
+        Object.assign(new Error('Keys can only be used once'), {
+          type: 'StripeIdempotencyError',
+          statusCode: 400,
+        })
+      );
+
+      await expect(
+        stripeClient.createProduct({ name: 'Test' })
+      ).rejects.toMatchObject({ kind: 'idempotency' });
+    });
   });
 });
\ No newline at end of file